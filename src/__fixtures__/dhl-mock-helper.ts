@@ -0,0 +1,130 @@
+/**
+ * Helper utilities for setting up realistic DHL Express API mocks
+ * DHL uses HTTP basic auth, so there is no OAuth endpoint to mock
+ */
+
+import { StubHttpClient } from '../http/stub-client';
+import {
+  successfulDHLRateResponse,
+  dhlErrorResponseInvalidRequest,
+  dhlMalformedResponse,
+  dhlHttp401Unauthorized,
+  dhlHttp429RateLimited,
+  dhlHttp503ServiceUnavailable,
+} from './dhl-responses';
+
+export interface DHLMockConfig {
+  ratingApiUrl?: string | RegExp;
+  apiKey?: string;
+  apiSecret?: string;
+}
+
+const DEFAULT_RATING_URL = /mydhlapi(\/test)?\/rates/;
+
+/**
+ * Setup DHL Rating API endpoint mocks
+ */
+export class DHLRatingApiMock {
+  private urlPattern: string | RegExp;
+  private expectedAuthorization: string;
+
+  constructor(private stubClient: StubHttpClient, config: DHLMockConfig = {}) {
+    this.urlPattern = config.ratingApiUrl || DEFAULT_RATING_URL;
+    const credentials = `${config.apiKey || 'test-api-key'}:${config.apiSecret || 'test-api-secret'}`;
+    this.expectedAuthorization = `Basic ${Buffer.from(credentials).toString('base64')}`;
+    this.setupRatingEndpoint();
+  }
+
+  private setupRatingEndpoint(): void {
+    this.stubClient.onRequest((req) => {
+      const matches =
+        typeof this.urlPattern === 'string'
+          ? req.url === this.urlPattern
+          : this.urlPattern.test(req.url);
+
+      if (!matches || req.method !== 'POST') {
+        return null;
+      }
+
+      // Verify basic auth credentials
+      if (req.headers?.['Authorization'] !== this.expectedAuthorization) {
+        return {
+          status: 401,
+          headers: dhlHttp401Unauthorized.headers,
+          body: dhlHttp401Unauthorized.body,
+        };
+      }
+
+      return {
+        status: 200,
+        headers: { 'content-type': 'application/json' },
+        body: successfulDHLRateResponse,
+      };
+    });
+  }
+
+  setupSuccessResponse(): void {
+    this.stubClient.stubUrl(this.urlPattern, {
+      status: 200,
+      headers: { 'content-type': 'application/json' },
+      body: successfulDHLRateResponse,
+    });
+  }
+
+  setup401Unauthorized(): void {
+    this.stubClient.stubUrl(this.urlPattern, {
+      status: 401,
+      headers: dhlHttp401Unauthorized.headers,
+      body: dhlHttp401Unauthorized.body,
+    });
+  }
+
+  setup429RateLimited(): void {
+    this.stubClient.stubUrl(this.urlPattern, {
+      status: 429,
+      headers: dhlHttp429RateLimited.headers,
+      body: dhlHttp429RateLimited.body,
+    });
+  }
+
+  setup503ServiceUnavailable(): void {
+    this.stubClient.stubUrl(this.urlPattern, {
+      status: 503,
+      headers: dhlHttp503ServiceUnavailable.headers,
+      body: dhlHttp503ServiceUnavailable.body,
+    });
+  }
+
+  /**
+   * Setup DHL validation error (HTTP 400 with problem details)
+   */
+  setupDHLApiError(): void {
+    this.stubClient.stubUrl(this.urlPattern, {
+      status: 400,
+      headers: { 'content-type': 'application/problem+json' },
+      body: dhlErrorResponseInvalidRequest,
+    });
+  }
+
+  setupMalformedResponse(): void {
+    this.stubClient.stubUrl(this.urlPattern, {
+      status: 200,
+      headers: { 'content-type': 'application/json' },
+      body: dhlMalformedResponse,
+    });
+  }
+}
+
+/**
+ * Setup complete DHL API mocks for integration testing
+ */
+export function setupDHLMocks(
+  stubClient: StubHttpClient,
+  config: DHLMockConfig = {}
+): {
+  ratingApi: DHLRatingApiMock;
+} {
+  const ratingApi = new DHLRatingApiMock(stubClient, config);
+
+  return { ratingApi };
+}
@@ -0,0 +1,164 @@
+/**
+ * Realistic DHL Express response fixtures based on the MyDHL API rating documentation
+ */
+
+import { DHLErrorResponse, DHLRateResponse } from '../carriers/dhl/types';
+
+/**
+ * Successful cross-border rate response (US → GB) with duties & taxes paid
+ */
+export const successfulDHLRateResponse: DHLRateResponse = {
+  products: [
+    {
+      productName: 'EXPRESS WORLDWIDE',
+      productCode: 'P',
+      localProductCode: 'P',
+      networkTypeCode: 'TD',
+      isCustomerAgreement: false,
+      totalPrice: [
+        { currencyType: 'BILLC', priceCurrency: 'USD', price: 148.62 },
+        { currencyType: 'PULCL', priceCurrency: 'USD', price: 148.62 },
+        { currencyType: 'BASEC', priceCurrency: 'EUR', price: 137.2 },
+      ],
+      totalPriceBreakdown: [
+        {
+          currencyType: 'BILLC',
+          priceCurrency: 'USD',
+          priceBreakdown: [
+            { typeCode: 'SPRQT', price: 112.4 },
+            { typeCode: 'STTXA', price: 0 },
+          ],
+        },
+      ],
+      detailedPriceBreakdown: [
+        {
+          currencyType: 'BILLC',
+          priceCurrency: 'USD',
+          breakdown: [
+            { name: 'EXPRESS WORLDWIDE', price: 112.4 },
+            { name: 'FUEL SURCHARGE', serviceCode: 'FF', price: 22.22 },
+            { name: 'DUTIES AND TAXES PAID', serviceCode: 'DD', price: 14.0 },
+          ],
+        },
+      ],
+      deliveryCapabilities: {
+        deliveryTypeCode: 'QDDC',
+        estimatedDeliveryDateAndTime: '2026-02-11T23:59:00',
+        destinationServiceAreaCode: 'LHR',
+        totalTransitDays: '2',
+      },
+    },
+    {
+      productName: 'EXPRESS 12:00',
+      productCode: 'Y',
+      localProductCode: 'Y',
+      networkTypeCode: 'TD',
+      isCustomerAgreement: false,
+      totalPrice: [
+        { currencyType: 'BILLC', priceCurrency: 'USD', price: 171.35 },
+      ],
+      deliveryCapabilities: {
+        deliveryTypeCode: 'QDDC',
+        estimatedDeliveryDateAndTime: '2026-02-11T12:00:00',
+        destinationServiceAreaCode: 'LHR',
+        totalTransitDays: '2',
+      },
+    },
+    {
+      productName: 'EXPRESS WORLDWIDE DOC',
+      productCode: 'D',
+      localProductCode: 'D',
+      networkTypeCode: 'TD',
+      isCustomerAgreement: false,
+      totalPrice: [
+        { currencyType: 'BILLC', priceCurrency: 'USD', price: 89.1 },
+      ],
+      deliveryCapabilities: {
+        totalTransitDays: '2',
+      },
+    },
+    {
+      productName: 'ECONOMY SELECT',
+      productCode: 'W',
+      localProductCode: 'W',
+      networkTypeCode: 'DD',
+      isCustomerAgreement: false,
+      totalPrice: [
+        { currencyType: 'BILLC', priceCurrency: 'USD', price: 96.8 },
+      ],
+      deliveryCapabilities: {
+        deliveryTypeCode: 'QDDC',
+        estimatedDeliveryDateAndTime: '2026-02-16T23:59:00',
+        destinationServiceAreaCode: 'LHR',
+        totalTransitDays: '5',
+      },
+    },
+  ],
+};
+
+/**
+ * DHL API error response - invalid request (returned with HTTP 400)
+ */
+export const dhlErrorResponseInvalidRequest: DHLErrorResponse = {
+  instance: '/expressapi/rates',
+  detail: 'Missing mandatory parameters: receiverDetails.postalCode',
+  title: 'Missing parameters',
+  message: 'Bad request',
+  status: '400',
+};
+
+/**
+ * Malformed response - missing products
+ */
+export const dhlMalformedResponse = {
+  unexpected: 'structure',
+};
+
+/**
+ * HTTP 401 Unauthorized response (invalid basic auth credentials)
+ */
+export const dhlHttp401Unauthorized = {
+  status: 401,
+  headers: {
+    'content-type': 'application/problem+json',
+  },
+  body: {
+    instance: '/expressapi/rates',
+    detail: 'Invalid Credentials',
+    title: 'Unauthorized',
+    status: '401',
+  },
+};
+
+/**
+ * HTTP 429 Rate Limited response
+ */
+export const dhlHttp429RateLimited = {
+  status: 429,
+  headers: {
+    'content-type': 'application/problem+json',
+    'retry-after': '1',
+  },
+  body: {
+    instance: '/expressapi/rates',
+    detail: 'Too many requests',
+    title: 'Too Many Requests',
+    status: '429',
+  },
+};
+
+/**
+ * HTTP 503 Service Unavailable
+ */
+export const dhlHttp503ServiceUnavailable = {
+  status: 503,
+  headers: {
+    'content-type': 'application/problem+json',
+  },
+  body: {
+    instance: '/expressapi/rates',
+    detail: 'Service temporarily unavailable',
+    title: 'Service Unavailable',
+    status: '503',
+  },
+};
@@ -0,0 +1,184 @@
+/**
+ * Helper utilities for setting up realistic FedEx API mocks
+ * Mirrors ups-mock-helper.ts: OAuth token lifecycle plus Rate API behavior
+ */
+
+import { StubHttpClient } from '../http/stub-client';
+import {
+  successfulFedExRateResponse,
+  fedExErrorResponseInvalidRequest,
+  fedExMalformedResponse,
+  fedExHttp401Unauthorized,
+  fedExHttp429RateLimited,
+  fedExHttp503ServiceUnavailable,
+  fedExOAuth401InvalidCredentials,
+} from './fedex-responses';
+
+export interface FedExMockConfig {
+  oauthTokenUrl?: string | RegExp;
+  ratingApiUrl?: string | RegExp;
+  tokenExpirySeconds?: number;
+}
+
+const DEFAULT_OAUTH_URL = /fedex\.com\/oauth\/token/;
+const DEFAULT_RATING_URL = /\/rate\/v1\/rates\/quotes/;
+
+function matchesUrl(url: string, pattern: string | RegExp): boolean {
+  return typeof pattern === 'string' ? url === pattern : pattern.test(url);
+}
+
+/**
+ * Setup FedEx OAuth token endpoint mock
+ */
+export class FedExOAuthMock {
+  private tokenExpirySeconds: number;
+  private urlPattern: string | RegExp;
+
+  constructor(private stubClient: StubHttpClient, config: FedExMockConfig = {}) {
+    this.tokenExpirySeconds = config.tokenExpirySeconds || 3600;
+    this.urlPattern = config.oauthTokenUrl || DEFAULT_OAUTH_URL;
+    this.setupOAuthEndpoint();
+  }
+
+  private setupOAuthEndpoint(): void {
+    this.stubClient.onRequest((req) => {
+      if (!matchesUrl(req.url, this.urlPattern) || req.method !== 'POST') {
+        return null;
+      }
+
+      const body = req.body as string;
+      if (
+        typeof body !== 'string' ||
+        !body.includes('test-client-id') ||
+        !body.includes('test-client-secret')
+      ) {
+        return {
+          status: 401,
+          headers: fedExOAuth401InvalidCredentials.headers,
+          body: fedExOAuth401InvalidCredentials.body,
+        };
+      }
+
+      return {
+        status: 200,
+        headers: { 'content-type': 'application/json' },
+        body: {
+          access_token: `fedex-token-${Date.now()}-${Math.random().toString(36).substring(7)}`,
+          token_type: 'bearer',
+          expires_in: this.tokenExpirySeconds,
+          scope: 'CXS',
+        },
+      };
+    });
+  }
+
+  /**
+   * Setup OAuth error response
+   */
+  setupOAuthError(): void {
+    this.stubClient.onRequest((req) => {
+      if (!matchesUrl(req.url, this.urlPattern)) {
+        return null;
+      }
+      return {
+        status: 401,
+        headers: fedExOAuth401InvalidCredentials.headers,
+        body: fedExOAuth401InvalidCredentials.body,
+      };
+    });
+  }
+}
+
+/**
+ * Setup FedEx Rate API endpoint mocks
+ */
+export class FedExRatingApiMock {
+  private urlPattern: string | RegExp;
+
+  constructor(private stubClient: StubHttpClient, config: FedExMockConfig = {}) {
+    this.urlPattern = config.ratingApiUrl || DEFAULT_RATING_URL;
+    this.setupRatingEndpoint();
+  }
+
+  private setupRatingEndpoint(): void {
+    this.stubClient.onRequest((req) => {
+      if (!matchesUrl(req.url, this.urlPattern) || req.method !== 'POST') {
+        return null;
+      }
+
+      const authHeader = req.headers?.['Authorization'];
+      if (!authHeader || !authHeader.startsWith('Bearer ')) {
+        return {
+          status: 401,
+          headers: fedExHttp401Unauthorized.headers,
+          body: fedExHttp401Unauthorized.body,
+        };
+      }
+
+      return {
+        status: 200,
+        headers: { 'content-type': 'application/json' },
+        body: successfulFedExRateResponse,
+      };
+    });
+  }
+
+  setupSuccessResponse(): void {
+    this.stubClient.stubUrl(this.urlPattern, {
+      status: 200,
+      headers: { 'content-type': 'application/json' },
+      body: successfulFedExRateResponse,
+    });
+  }
+
+  setup429RateLimited(): void {
+    this.stubClient.stubUrl(this.urlPattern, {
+      status: 429,
+      headers: fedExHttp429RateLimited.headers,
+      body: fedExHttp429RateLimited.body,
+    });
+  }
+
+  setup503ServiceUnavailable(): void {
+    this.stubClient.stubUrl(this.urlPattern, {
+      status: 503,
+      headers: fedExHttp503ServiceUnavailable.headers,
+      body: fedExHttp503ServiceUnavailable.body,
+    });
+  }
+
+  /**
+   * Setup FedEx validation error (HTTP 400 with errors array)
+   */
+  setupFedExApiError(): void {
+    this.stubClient.stubUrl(this.urlPattern, {
+      status: 400,
+      headers: { 'content-type': 'application/json' },
+      body: fedExErrorResponseInvalidRequest,
+    });
+  }
+
+  setupMalformedResponse(): void {
+    this.stubClient.stubUrl(this.urlPattern, {
+      status: 200,
+      headers: { 'content-type': 'application/json' },
+      body: fedExMalformedResponse,
+    });
+  }
+}
+
+/**
+ * Setup complete FedEx API mocks for integration testing
+ */
+export function setupFedExMocks(
+  stubClient: StubHttpClient,
+  config: FedExMockConfig = {}
+): {
+  oauth: FedExOAuthMock;
+  ratingApi: FedExRatingApiMock;
+} {
+  const oauth = new FedExOAuthMock(stubClient, config);
+  const ratingApi = new FedExRatingApiMock(stubClient, config);
+
+  return { oauth, ratingApi };
+}
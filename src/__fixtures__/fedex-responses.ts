@@ -0,0 +1,205 @@
+/**
+ * Realistic FedEx API response fixtures based on the FedEx Rate and Transit Times API documentation
+ */
+
+import { FedExRateResponse } from '../carriers/fedex/types';
+
+/**
+ * Successful FedEx Rate API response with account and list rates
+ */
+export const successfulFedExRateResponse: FedExRateResponse = {
+  transactionId: '624deea6-b709-470c-8c39-4b5511281492',
+  customerTransactionId: 'AnyCo_order123456789',
+  output: {
+    alerts: [
+      {
+        code: 'VIRTUAL.RESPONSE',
+        message: 'This is a Virtual Response.',
+        alertType: 'NOTE',
+      },
+    ],
+    rateReplyDetails: [
+      {
+        serviceType: 'FEDEX_GROUND',
+        serviceName: 'FedEx Ground',
+        packagingType: 'YOUR_PACKAGING',
+        ratedShipmentDetails: [
+          {
+            rateType: 'ACCOUNT',
+            ratedWeightMethod: 'ACTUAL',
+            totalBaseCharge: 21.1,
+            totalNetCharge: 23.4,
+            totalNetFedExCharge: 23.4,
+            currency: 'USD',
+            shipmentRateDetail: {
+              currency: 'USD',
+              totalSurcharges: 2.3,
+              surCharges: [
+                {
+                  type: 'FUEL',
+                  description: 'Fuel Surcharge',
+                  amount: 2.3,
+                },
+              ],
+            },
+          },
+          {
+            rateType: 'LIST',
+            ratedWeightMethod: 'ACTUAL',
+            totalBaseCharge: 24.6,
+            totalNetCharge: 27.15,
+            totalNetFedExCharge: 27.15,
+            currency: 'USD',
+          },
+        ],
+        commit: {
+          transitDays: {
+            description: '4 Business Days',
+            minimumTransitTime: 'FOUR_DAYS',
+          },
+        },
+      },
+      {
+        serviceType: 'FEDEX_2_DAY',
+        serviceName: 'FedEx 2Day®',
+        packagingType: 'YOUR_PACKAGING',
+        ratedShipmentDetails: [
+          {
+            rateType: 'ACCOUNT',
+            ratedWeightMethod: 'ACTUAL',
+            totalBaseCharge: 36.4,
+            totalNetCharge: 39.82,
+            totalNetFedExCharge: 39.82,
+            currency: 'USD',
+          },
+        ],
+        commit: {
+          transitDays: {
+            description: '2 Business Days',
+            minimumTransitTime: 'TWO_DAYS',
+          },
+        },
+      },
+      {
+        serviceType: 'PRIORITY_OVERNIGHT',
+        serviceName: 'FedEx Priority Overnight®',
+        packagingType: 'YOUR_PACKAGING',
+        ratedShipmentDetails: [
+          {
+            rateType: 'ACCOUNT',
+            ratedWeightMethod: 'ACTUAL',
+            totalBaseCharge: 61.05,
+            totalNetCharge: 66.9,
+            totalNetFedExCharge: 66.9,
+            currency: 'USD',
+          },
+        ],
+        commit: {
+          transitDays: {
+            description: '1 Business Day',
+            minimumTransitTime: 'ONE_DAY',
+          },
+        },
+      },
+    ],
+  },
+};
+
+/**
+ * FedEx API error response - validation failure (returned with HTTP 400)
+ */
+export const fedExErrorResponseInvalidRequest: FedExRateResponse = {
+  transactionId: '624deea6-b709-470c-8c39-4b5511281492',
+  errors: [
+    {
+      code: 'ACCOUNT.NUMBER.MISMATCH',
+      message:
+        'When payment Type is SENDER, ShippingChargesPayment Payor AccountNumber should match the shipper account number.',
+    },
+  ],
+};
+
+/**
+ * Malformed response - missing output
+ */
+export const fedExMalformedResponse = {
+  transactionId: '624deea6-b709-470c-8c39-4b5511281492',
+  unexpected: 'structure',
+};
+
+/**
+ * HTTP 401 Unauthorized response (OAuth token invalid/expired)
+ */
+export const fedExHttp401Unauthorized = {
+  status: 401,
+  headers: {
+    'content-type': 'application/json',
+  },
+  body: {
+    transactionId: '624deea6-b709-470c-8c39-4b5511281492',
+    errors: [
+      {
+        code: 'NOT.AUTHORIZED.ERROR',
+        message: 'Access token expired. Please modify your request and try again.',
+      },
+    ],
+  },
+};
+
+/**
+ * HTTP 429 Rate Limited response
+ */
+export const fedExHttp429RateLimited = {
+  status: 429,
+  headers: {
+    'content-type': 'application/json',
+    'retry-after': '10',
+  },
+  body: {
+    transactionId: '624deea6-b709-470c-8c39-4b5511281492',
+    errors: [
+      {
+        code: 'TOO.MANY.REQUESTS.ERROR',
+        message: 'We have received too many requests in a short duration.',
+      },
+    ],
+  },
+};
+
+/**
+ * HTTP 503 Service Unavailable
+ */
+export const fedExHttp503ServiceUnavailable = {
+  status: 503,
+  headers: {
+    'content-type': 'application/json',
+  },
+  body: {
+    transactionId: '624deea6-b709-470c-8c39-4b5511281492',
+    errors: [
+      {
+        code: 'SERVICE.UNAVAILABLE.ERROR',
+        message: 'The service is currently unavailable.',
+      },
+    ],
+  },
+};
+
+/**
+ * OAuth 401 Invalid Credentials
+ */
+export const fedExOAuth401InvalidCredentials = {
+  status: 401,
+  headers: {
+    'content-type': 'application/json',
+  },
+  body: {
+    transactionId: '624deea6-b709-470c-8c39-4b5511281492',
+    errors: [
+      {
+        code: 'NOT.AUTHORIZED.ERROR',
+        message: 'The given client credentials were not valid.',
+      },
+    ],
+  },
+};
@@ -3,11 +3,32 @@
  * Handles OAuth token lifecycle and realistic response behavior
  */
 
-import { StubHttpClient } from '../http/stub-client';
+import { StubHttpClient, StubResponse } from '../http/stub-client';
+import {
+  UPSPickupCreationRequest,
+  UPSPickupPendingStatus,
+} from '../carriers/ups/types';
 import {
   oauthTokenResponse,
   oauthTokenResponseExpired,
   successfulUPSRateResponse,
+  upsRateResponseWithSurcharges,
+  upsRateResponseWithNegotiatedRates,
+  successfulUPSTimeInTransitResponse,
+  successfulUPSShipmentResponse,
+  upsShipmentErrorInvalidService,
+  successfulUPSVoidResponse,
+  upsVoidErrorInTransit,
+  upsVoidErrorWindowExpired,
+  successfulUPSPickupCreationResponse,
+  upsPickupPendingStatusResponse,
+  successfulUPSPickupCancelResponse,
+  upsPickupCancelErrorNotFound,
+  successfulUPSTrackResponse,
+  upsTrackResponseNotFound,
+  upsAddressValidationValid,
+  upsAddressValidationAmbiguous,
+  upsAddressValidationNoCandidates,
   upsErrorResponseInvalidRequest,
   upsMalformedResponse,
   http401Unauthorized,
@@ -23,6 +44,11 @@ export interface UPSMockConfig {
   baseUrl?: string;
   oauthTokenUrl?: string;
   ratingApiUrl?: string;
+  transitApiUrl?: string;
+  shippingApiUrl?: string;
+  trackingApiUrl?: string;
+  pickupApiUrl?: string;
+  addressValidationApiUrl?: string;
   tokenExpirySeconds?: number;
   simulateTokenExpiry?: boolean;
 }
@@ -145,7 +171,7 @@ export class UPSOAuthMock {
 export class UPSRatingApiMock {
   constructor(private stubClient: StubHttpClient, config: UPSMockConfig = {}) {
     this.setupRatingEndpoint(
-      config.ratingApiUrl || /\/api\/rating\/v1\/Rate/,
+      config.ratingApiUrl || /\/api\/rating\/v1\/(Rate|Shop)/,
       config.baseUrl
     );
   }
@@ -187,18 +213,40 @@ export class UPSRatingApiMock {
    * Setup successful rate response
    */
   setupSuccessResponse(): void {
-    this.stubClient.stubUrl(/\/api\/rating\/v1\/Rate/, {
+    this.stubClient.stubUrl(/\/api\/rating\/v1\/(Rate|Shop)/, {
       status: 200,
       headers: { 'content-type': 'application/json' },
       body: successfulUPSRateResponse,
     });
   }
 
+  /**
+   * Setup rate response itemizing base charges and surcharges
+   */
+  setupSurchargedResponse(): void {
+    this.stubClient.stubUrl(/\/api\/rating\/v1\/(Rate|Shop)/, {
+      status: 200,
+      headers: { 'content-type': 'application/json' },
+      body: upsRateResponseWithSurcharges,
+    });
+  }
+
+  /**
+   * Setup rate response with negotiated (contract) charges
+   */
+  setupNegotiatedRatesResponse(): void {
+    this.stubClient.stubUrl(/\/api\/rating\/v1\/(Rate|Shop)/, {
+      status: 200,
+      headers: { 'content-type': 'application/json' },
+      body: upsRateResponseWithNegotiatedRates,
+    });
+  }
+
   /**
    * Setup 401 Unauthorized response (for testing token refresh)
    */
   setup401Unauthorized(): void {
-    this.stubClient.stubUrl(/\/api\/rating\/v1\/Rate/, {
+    this.stubClient.stubUrl(/\/api\/rating\/v1\/(Rate|Shop)/, {
       status: 401,
       headers: http401Unauthorized.headers,
       body: http401Unauthorized.body,
@@ -209,7 +257,7 @@ export class UPSRatingApiMock {
    * Setup 429 Rate Limited response
    */
   setup429RateLimited(): void {
-    this.stubClient.stubUrl(/\/api\/rating\/v1\/Rate/, {
+    this.stubClient.stubUrl(/\/api\/rating\/v1\/(Rate|Shop)/, {
       status: 429,
       headers: http429RateLimited.headers,
       body: http429RateLimited.body,
@@ -220,7 +268,7 @@ export class UPSRatingApiMock {
    * Setup 5xx Server Error responses
    */
   setup500ServerError(): void {
-    this.stubClient.stubUrl(/\/api\/rating\/v1\/Rate/, {
+    this.stubClient.stubUrl(/\/api\/rating\/v1\/(Rate|Shop)/, {
       status: 500,
       headers: http500ServerError.headers,
       body: http500ServerError.body,
@@ -228,7 +276,7 @@ export class UPSRatingApiMock {
   }
 
   setup503ServiceUnavailable(): void {
-    this.stubClient.stubUrl(/\/api\/rating\/v1\/Rate/, {
+    this.stubClient.stubUrl(/\/api\/rating\/v1\/(Rate|Shop)/, {
       status: 503,
       headers: http503ServiceUnavailable.headers,
       body: http503ServiceUnavailable.body,
@@ -239,7 +287,7 @@ export class UPSRatingApiMock {
    * Setup UPS API error response (200 status but error in body)
    */
   setupUPSApiError(): void {
-    this.stubClient.stubUrl(/\/api\/rating\/v1\/Rate/, {
+    this.stubClient.stubUrl(/\/api\/rating\/v1\/(Rate|Shop)/, {
       status: 200,
       headers: { 'content-type': 'application/json' },
       body: upsErrorResponseInvalidRequest,
@@ -250,7 +298,7 @@ export class UPSRatingApiMock {
    * Setup malformed response
    */
   setupMalformedResponse(): void {
-    this.stubClient.stubUrl(/\/api\/rating\/v1\/Rate/, {
+    this.stubClient.stubUrl(/\/api\/rating\/v1\/(Rate|Shop)/, {
       status: 200,
       headers: { 'content-type': 'application/json' },
       body: upsMalformedResponse,
@@ -261,7 +309,7 @@ export class UPSRatingApiMock {
    * Setup invalid JSON response
    */
   setupInvalidJsonResponse(): void {
-    this.stubClient.stubUrl(/\/api\/rating\/v1\/Rate/, {
+    this.stubClient.stubUrl(/\/api\/rating\/v1\/(Rate|Shop)/, {
       status: 200,
       headers: { 'content-type': 'application/json' },
       body: 'invalid json{',
@@ -276,6 +324,386 @@ export class UPSRatingApiMock {
   }
 }
 
+/**
+ * Setup realistic UPS Time in Transit API endpoint mocks
+ */
+export class UPSTimeInTransitApiMock {
+  private urlPattern: string | RegExp;
+
+  constructor(private stubClient: StubHttpClient, config: UPSMockConfig = {}) {
+    this.urlPattern = config.transitApiUrl || /\/api\/shipments\/v1\/transittimes/;
+    this.setupTransitEndpoint();
+  }
+
+  private setupTransitEndpoint(): void {
+    this.stubClient.onRequest((req) => {
+      const matches =
+        typeof this.urlPattern === 'string'
+          ? req.url === this.urlPattern
+          : this.urlPattern.test(req.url);
+
+      if (!matches || req.method !== 'POST') {
+        return null;
+      }
+
+      const authHeader = req.headers?.['Authorization'];
+      if (!authHeader || !authHeader.startsWith('Bearer ')) {
+        return {
+          status: 401,
+          headers: http401Unauthorized.headers,
+          body: http401Unauthorized.body,
+        };
+      }
+
+      return {
+        status: 200,
+        headers: { 'content-type': 'application/json' },
+        body: successfulUPSTimeInTransitResponse,
+      };
+    });
+  }
+
+  /**
+   * Setup 503 Service Unavailable
+   */
+  setup503ServiceUnavailable(): void {
+    this.stubClient.stubUrl(this.urlPattern, {
+      status: 503,
+      headers: http503ServiceUnavailable.headers,
+      body: http503ServiceUnavailable.body,
+    });
+  }
+}
+
+/**
+ * Setup realistic UPS Shipping API endpoint mocks
+ */
+export class UPSShippingApiMock {
+  private urlPattern: string | RegExp;
+  private voidUrlPattern = /\/api\/shipments\/v1\/void\/cancel\//;
+
+  constructor(private stubClient: StubHttpClient, config: UPSMockConfig = {}) {
+    this.urlPattern = config.shippingApiUrl || /\/api\/shipments\/v1\/ship/;
+    this.setupShippingEndpoint();
+    this.setupVoidEndpoint();
+  }
+
+  private setupVoidEndpoint(): void {
+    this.stubClient.onRequest((req) => {
+      if (!this.voidUrlPattern.test(req.url) || req.method !== 'DELETE') {
+        return null;
+      }
+
+      const authHeader = req.headers?.['Authorization'];
+      if (!authHeader || !authHeader.startsWith('Bearer ')) {
+        return {
+          status: 401,
+          headers: http401Unauthorized.headers,
+          body: http401Unauthorized.body,
+        };
+      }
+
+      return {
+        status: 200,
+        headers: { 'content-type': 'application/json' },
+        body: successfulUPSVoidResponse,
+      };
+    });
+  }
+
+  /**
+   * Setup void failure for a package that is already in transit
+   */
+  setupVoidInTransit(): void {
+    this.stubClient.stubUrl(this.voidUrlPattern, {
+      status: upsVoidErrorInTransit.status,
+      headers: upsVoidErrorInTransit.headers,
+      body: upsVoidErrorInTransit.body,
+    });
+  }
+
+  /**
+   * Setup void failure for a shipment outside the void window
+   */
+  setupVoidWindowExpired(): void {
+    this.stubClient.stubUrl(this.voidUrlPattern, {
+      status: upsVoidErrorWindowExpired.status,
+      headers: upsVoidErrorWindowExpired.headers,
+      body: upsVoidErrorWindowExpired.body,
+    });
+  }
+
+  private setupShippingEndpoint(): void {
+    this.stubClient.onRequest((req) => {
+      const matches =
+        typeof this.urlPattern === 'string'
+          ? req.url === this.urlPattern
+          : this.urlPattern.test(req.url);
+
+      if (!matches || req.method !== 'POST') {
+        return null;
+      }
+
+      const authHeader = req.headers?.['Authorization'];
+      if (!authHeader || !authHeader.startsWith('Bearer ')) {
+        return {
+          status: 401,
+          headers: http401Unauthorized.headers,
+          body: http401Unauthorized.body,
+        };
+      }
+
+      return {
+        status: 200,
+        headers: { 'content-type': 'application/json' },
+        body: successfulUPSShipmentResponse,
+      };
+    });
+  }
+
+  /**
+   * Setup a specific successful shipment response
+   */
+  setupSuccessResponse(body: unknown = successfulUPSShipmentResponse): void {
+    this.stubClient.stubUrl(this.urlPattern, {
+      status: 200,
+      headers: { 'content-type': 'application/json' },
+      body,
+    });
+  }
+
+  /**
+   * Setup UPS validation error (HTTP 400 with errors array)
+   */
+  setupInvalidServiceError(): void {
+    this.stubClient.stubUrl(this.urlPattern, {
+      status: upsShipmentErrorInvalidService.status,
+      headers: upsShipmentErrorInvalidService.headers,
+      body: upsShipmentErrorInvalidService.body,
+    });
+  }
+}
+
+/**
+ * Setup realistic UPS Pickup API endpoint mocks
+ * Keeps scheduled pickups in memory so create → query → cancel works end to end
+ */
+export class UPSPickupApiMock {
+  private urlPattern: string | RegExp;
+  private pendingPickups: Map<string, UPSPickupPendingStatus> = new Map();
+  private createdCount = 0;
+
+  constructor(private stubClient: StubHttpClient, config: UPSMockConfig = {}) {
+    this.urlPattern =
+      config.pickupApiUrl || /\/api\/(pickupcreation|shipments)\/v1\/pickup/;
+    this.setupPickupEndpoints();
+  }
+
+  private setupPickupEndpoints(): void {
+    this.stubClient.onRequest((req) => {
+      const matches =
+        typeof this.urlPattern === 'string'
+          ? req.url.startsWith(this.urlPattern)
+          : this.urlPattern.test(req.url);
+
+      if (!matches) {
+        return null;
+      }
+
+      const authHeader = req.headers?.['Authorization'];
+      if (!authHeader || !authHeader.startsWith('Bearer ')) {
+        return {
+          status: 401,
+          headers: http401Unauthorized.headers,
+          body: http401Unauthorized.body,
+        };
+      }
+
+      if (req.method === 'POST') {
+        return this.handleCreate(req.body as UPSPickupCreationRequest);
+      }
+      if (req.method === 'GET') {
+        return this.handlePendingStatus();
+      }
+      if (req.method === 'DELETE') {
+        return this.handleCancel(req.headers?.['Prn']);
+      }
+      return null;
+    });
+  }
+
+  private handleCreate(body: UPSPickupCreationRequest): StubResponse {
+    // The first pickup gets the fixture PRN; later ones get sequential PRNs
+    this.createdCount++;
+    const prn =
+      this.createdCount === 1
+        ? successfulUPSPickupCreationResponse.PickupCreationResponse!.PRN!
+        : `2929602E${this.createdCount.toString().padStart(3, '0')}`;
+
+    this.pendingPickups.set(prn, {
+      PickupType: '01',
+      ServiceDate: body?.PickupCreationRequest?.PickupDateInfo?.PickupDate,
+      PRN: prn,
+      OnCallStatusCode: '001',
+      PickupStatusMessage: 'Received at dispatch',
+    });
+
+    return {
+      status: 200,
+      headers: { 'content-type': 'application/json' },
+      body: {
+        PickupCreationResponse: {
+          ...successfulUPSPickupCreationResponse.PickupCreationResponse,
+          PRN: prn,
+        },
+      },
+    };
+  }
+
+  private handlePendingStatus(): StubResponse {
+    return {
+      status: 200,
+      headers: { 'content-type': 'application/json' },
+      body: {
+        PickupPendingStatusResponse: {
+          ...upsPickupPendingStatusResponse.PickupPendingStatusResponse,
+          PendingStatus: Array.from(this.pendingPickups.values()),
+        },
+      },
+    };
+  }
+
+  private handleCancel(prn?: string): StubResponse {
+    if (!prn || !this.pendingPickups.delete(prn)) {
+      return {
+        status: upsPickupCancelErrorNotFound.status,
+        headers: upsPickupCancelErrorNotFound.headers,
+        body: upsPickupCancelErrorNotFound.body,
+      };
+    }
+
+    return {
+      status: 200,
+      headers: { 'content-type': 'application/json' },
+      body: successfulUPSPickupCancelResponse,
+    };
+  }
+}
+
+/**
+ * Setup realistic UPS Tracking API endpoint mocks
+ */
+export class UPSTrackingApiMock {
+  private urlPattern: string | RegExp;
+
+  constructor(private stubClient: StubHttpClient, config: UPSMockConfig = {}) {
+    this.urlPattern = config.trackingApiUrl || /\/api\/track\/v1\/details\//;
+    this.setupTrackingEndpoint();
+  }
+
+  private setupTrackingEndpoint(): void {
+    this.stubClient.onRequest((req) => {
+      const matches =
+        typeof this.urlPattern === 'string'
+          ? req.url === this.urlPattern
+          : this.urlPattern.test(req.url);
+
+      if (!matches || req.method !== 'GET') {
+        return null;
+      }
+
+      const authHeader = req.headers?.['Authorization'];
+      if (!authHeader || !authHeader.startsWith('Bearer ')) {
+        return {
+          status: 401,
+          headers: http401Unauthorized.headers,
+          body: http401Unauthorized.body,
+        };
+      }
+
+      return {
+        status: 200,
+        headers: { 'content-type': 'application/json' },
+        body: successfulUPSTrackResponse,
+      };
+    });
+  }
+
+  /**
+   * Setup "tracking information not found" response
+   */
+  setupNotFound(): void {
+    this.stubClient.stubUrl(this.urlPattern, {
+      status: 200,
+      headers: { 'content-type': 'application/json' },
+      body: upsTrackResponseNotFound,
+    });
+  }
+}
+
+/**
+ * Setup realistic UPS Address Validation API endpoint mocks
+ */
+export class UPSAddressValidationApiMock {
+  private urlPattern: string | RegExp;
+
+  constructor(private stubClient: StubHttpClient, config: UPSMockConfig = {}) {
+    this.urlPattern =
+      config.addressValidationApiUrl || /\/api\/addressvalidation\/v1\//;
+    this.setupAddressValidationEndpoint();
+  }
+
+  private setupAddressValidationEndpoint(): void {
+    this.stubClient.onRequest((req) => {
+      const matches =
+        typeof this.urlPattern === 'string'
+          ? req.url === this.urlPattern
+          : this.urlPattern.test(req.url);
+
+      if (!matches || req.method !== 'POST') {
+        return null;
+      }
+
+      const authHeader = req.headers?.['Authorization'];
+      if (!authHeader || !authHeader.startsWith('Bearer ')) {
+        return {
+          status: 401,
+          headers: http401Unauthorized.headers,
+          body: http401Unauthorized.body,
+        };
+      }
+
+      return {
+        status: 200,
+        headers: { 'content-type': 'application/json' },
+        body: upsAddressValidationValid,
+      };
+    });
+  }
+
+  /**
+   * Setup ambiguous address response (multiple candidates)
+   */
+  setupAmbiguous(): void {
+    this.stubClient.stubUrl(this.urlPattern, {
+      status: 200,
+      headers: { 'content-type': 'application/json' },
+      body: upsAddressValidationAmbiguous,
+    });
+  }
+
+  /**
+   * Setup no-candidates response
+   */
+  setupNoCandidates(): void {
+    this.stubClient.stubUrl(this.urlPattern, {
+      status: 200,
+      headers: { 'content-type': 'application/json' },
+      body: upsAddressValidationNoCandidates,
+    });
+  }
+}
+
 /**
  * Setup complete UPS API mocks for integration testing
  */
@@ -285,9 +713,27 @@ export function setupUPSMocks(
 ): {
   oauth: UPSOAuthMock;
   ratingApi: UPSRatingApiMock;
+  transitApi: UPSTimeInTransitApiMock;
+  shippingApi: UPSShippingApiMock;
+  pickupApi: UPSPickupApiMock;
+  trackingApi: UPSTrackingApiMock;
+  addressValidationApi: UPSAddressValidationApiMock;
 } {
   const oauth = new UPSOAuthMock(stubClient, config);
   const ratingApi = new UPSRatingApiMock(stubClient, config);
-
-  return { oauth, ratingApi };
+  const transitApi = new UPSTimeInTransitApiMock(stubClient, config);
+  const shippingApi = new UPSShippingApiMock(stubClient, config);
+  const pickupApi = new UPSPickupApiMock(stubClient, config);
+  const trackingApi = new UPSTrackingApiMock(stubClient, config);
+  const addressValidationApi = new UPSAddressValidationApiMock(stubClient, config);
+
+  return {
+    oauth,
+    ratingApi,
+    transitApi,
+    shippingApi,
+    pickupApi,
+    trackingApi,
+    addressValidationApi,
+  };
 }
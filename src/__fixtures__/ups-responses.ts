@@ -3,7 +3,17 @@
  * These fixtures mirror actual UPS API responses for comprehensive testing
  */
 
-import { UPSRateResponse } from '../carriers/ups/types';
+import {
+  UPSRateResponse,
+  UPSShipmentResponse,
+  UPSTrackResponse,
+  UPSAddressValidationResponse,
+  UPSVoidShipmentResponse,
+  UPSPickupCreationResponse,
+  UPSPickupPendingStatusResponse,
+  UPSPickupCancelResponse,
+  UPSTimeInTransitResponse,
+} from '../carriers/ups/types';
 
 /**
  * Successful UPS OAuth token response
@@ -67,6 +77,7 @@ export const successfulUPSRateResponse: UPSRateResponse = {
           MonetaryValue: '25.50',
         },
         GuaranteedDelivery: {
+          BusinessDaysInTransit: '4',
           Date: '2026-02-12',
         },
         RatedPackage: [
@@ -97,6 +108,7 @@ export const successfulUPSRateResponse: UPSRateResponse = {
           MonetaryValue: '45.75',
         },
         GuaranteedDelivery: {
+          BusinessDaysInTransit: '1',
           Date: '2026-02-09',
           Time: '10:30:00',
         },
@@ -128,6 +140,7 @@ export const successfulUPSRateResponse: UPSRateResponse = {
           MonetaryValue: '35.25',
         },
         GuaranteedDelivery: {
+          BusinessDaysInTransit: '2',
           Date: '2026-02-10',
         },
         RatedPackage: [
@@ -158,6 +171,7 @@ export const successfulUPSRateResponse: UPSRateResponse = {
           MonetaryValue: '30.00',
         },
         GuaranteedDelivery: {
+          BusinessDaysInTransit: '3',
           Date: '2026-02-11',
         },
       },
@@ -165,6 +179,173 @@ export const successfulUPSRateResponse: UPSRateResponse = {
   },
 };
 
+/**
+ * UPS rate response for a shipper with contract pricing: Ground carries
+ * negotiated charges next to the published ones, Next Day Air has no
+ * contract rate and is published only
+ */
+export const upsRateResponseWithNegotiatedRates: UPSRateResponse = {
+  RateResponse: {
+    Response: {
+      ResponseStatus: {
+        Code: '1',
+        Description: 'Success',
+      },
+    },
+    RatedShipment: [
+      {
+        Service: {
+          Code: '03',
+          Description: 'Ground',
+        },
+        BaseServiceCharge: { CurrencyCode: 'USD', MonetaryValue: '22.40' },
+        TransportationCharges: { CurrencyCode: 'USD', MonetaryValue: '25.50' },
+        TotalCharges: { CurrencyCode: 'USD', MonetaryValue: '25.50' },
+        NegotiatedRateCharges: {
+          BaseServiceCharge: { CurrencyCode: 'USD', MonetaryValue: '16.80' },
+          TotalCharge: { CurrencyCode: 'USD', MonetaryValue: '19.12' },
+        },
+        GuaranteedDelivery: {
+          BusinessDaysInTransit: '4',
+        },
+        RatedPackage: [
+          {
+            BaseServiceCharge: { CurrencyCode: 'USD', MonetaryValue: '22.40' },
+            ItemizedCharges: [
+              { Code: '375', Description: 'FUEL SURCHARGE', CurrencyCode: 'USD', MonetaryValue: '3.10' },
+            ],
+            TransportationCharges: { CurrencyCode: 'USD', MonetaryValue: '25.50' },
+            TotalCharges: { CurrencyCode: 'USD', MonetaryValue: '25.50' },
+            NegotiatedCharges: {
+              BaseServiceCharge: { CurrencyCode: 'USD', MonetaryValue: '16.80' },
+              ItemizedCharges: [
+                { Code: '375', Description: 'FUEL SURCHARGE', CurrencyCode: 'USD', MonetaryValue: '2.32' },
+              ],
+              TotalCharge: { CurrencyCode: 'USD', MonetaryValue: '19.12' },
+            },
+          },
+        ],
+      },
+      {
+        Service: {
+          Code: '01',
+          Description: 'Next Day Air',
+        },
+        TransportationCharges: { CurrencyCode: 'USD', MonetaryValue: '45.75' },
+        TotalCharges: { CurrencyCode: 'USD', MonetaryValue: '45.75' },
+        GuaranteedDelivery: {
+          BusinessDaysInTransit: '1',
+        },
+      },
+    ],
+  },
+};
+
+/**
+ * UPS Ground rate for two packages to a residential address, itemizing
+ * surcharges on the shipment (residential) and per package (fuel, delivery
+ * area, additional handling)
+ */
+export const upsRateResponseWithSurcharges: UPSRateResponse = {
+  RateResponse: {
+    Response: {
+      ResponseStatus: {
+        Code: '1',
+        Description: 'Success',
+      },
+    },
+    RatedShipment: [
+      {
+        Service: {
+          Code: '03',
+          Description: 'Ground',
+        },
+        BaseServiceCharge: { CurrencyCode: 'USD', MonetaryValue: '30.40' },
+        ItemizedCharges: [
+          { Code: '270', Description: 'RESIDENTIAL ADDRESS', CurrencyCode: 'USD', MonetaryValue: '5.55' },
+        ],
+        ServiceOptionsCharges: { CurrencyCode: 'USD', MonetaryValue: '0.00' },
+        TransportationCharges: { CurrencyCode: 'USD', MonetaryValue: '50.88' },
+        TotalCharges: { CurrencyCode: 'USD', MonetaryValue: '50.88' },
+        GuaranteedDelivery: {
+          BusinessDaysInTransit: '4',
+        },
+        RatedPackage: [
+          {
+            BaseServiceCharge: { CurrencyCode: 'USD', MonetaryValue: '18.20' },
+            ItemizedCharges: [
+              { Code: '375', Description: 'FUEL SURCHARGE', CurrencyCode: 'USD', MonetaryValue: '2.58' },
+              { Code: '376', Description: 'DELIVERY AREA', CurrencyCode: 'USD', MonetaryValue: '1.20' },
+              { Code: '120', Description: 'DELIVERY CONFIRMATION', CurrencyCode: 'USD', MonetaryValue: '0.00' },
+            ],
+            TransportationCharges: { CurrencyCode: 'USD', MonetaryValue: '21.98' },
+            TotalCharges: { CurrencyCode: 'USD', MonetaryValue: '21.98' },
+          },
+          {
+            BaseServiceCharge: { CurrencyCode: 'USD', MonetaryValue: '12.20' },
+            ItemizedCharges: [
+              { Code: '375', Description: 'FUEL SURCHARGE', CurrencyCode: 'USD', MonetaryValue: '1.65' },
+              { Code: '100', Description: 'ADDITIONAL HANDLING', CurrencyCode: 'USD', MonetaryValue: '9.50' },
+            ],
+            TransportationCharges: { CurrencyCode: 'USD', MonetaryValue: '23.35' },
+            TotalCharges: { CurrencyCode: 'USD', MonetaryValue: '23.35' },
+          },
+        ],
+      },
+    ],
+  },
+};
+
+/**
+ * Successful UPS Time in Transit API response (NY 10001 → LA 90001)
+ */
+export const successfulUPSTimeInTransitResponse: UPSTimeInTransitResponse = {
+  validationList: {
+    invalidFieldList: [],
+  },
+  emsResponse: {
+    shipDate: '2026-02-09',
+    services: [
+      {
+        serviceLevel: '1DA',
+        serviceLevelDescription: 'UPS Next Day Air',
+        shipDate: '2026-02-09',
+        deliveryDate: '2026-02-10',
+        deliveryTime: '10:30:00',
+        commitTime: '10:30:00',
+        guaranteeIndicator: '1',
+        businessTransitDays: '1',
+        totalTransitDays: '1',
+        cstccutoffTime: '17:00:00',
+      },
+      {
+        serviceLevel: '2DA',
+        serviceLevelDescription: 'UPS 2nd Day Air',
+        shipDate: '2026-02-09',
+        deliveryDate: '2026-02-11',
+        deliveryTime: '23:00:00',
+        commitTime: '23:00:00',
+        guaranteeIndicator: '1',
+        businessTransitDays: '2',
+        totalTransitDays: '2',
+        cstccutoffTime: '17:00:00',
+      },
+      {
+        serviceLevel: 'GND',
+        serviceLevelDescription: 'UPS Ground',
+        shipDate: '2026-02-09',
+        deliveryDate: '2026-02-13',
+        deliveryTime: '23:00:00',
+        commitTime: '23:00:00',
+        guaranteeIndicator: '0',
+        businessTransitDays: '5',
+        totalTransitDays: '5',
+        cstccutoffTime: '16:30:00',
+      },
+    ],
+  },
+};
+
 /**
  * UPS API error response - Invalid Request
  * ResponseStatus Code '0' indicates failure
@@ -209,6 +390,453 @@ export const upsErrorResponseMissingField: UPSRateResponse = {
   },
 };
 
+/**
+ * 1x1 transparent GIF used as label image data in shipping fixtures
+ */
+export const sampleLabelGraphicImage =
+  'R0lGODlhAQABAIAAAAAAAP///yH5BAEAAAAALAAAAAABAAEAAAIBRAA7';
+
+/**
+ * Successful UPS Shipping API response for a two-package shipment
+ * Based on UPS Shipping API v1 documentation
+ */
+export const successfulUPSShipmentResponse: UPSShipmentResponse = {
+  ShipmentResponse: {
+    Response: {
+      ResponseStatus: {
+        Code: '1',
+        Description: 'Success',
+      },
+    },
+    ShipmentResults: {
+      ShipmentCharges: {
+        TotalCharges: {
+          CurrencyCode: 'USD',
+          MonetaryValue: '25.50',
+        },
+      },
+      ShipmentIdentificationNumber: '1Z12345E0205271688',
+      PackageResults: [
+        {
+          TrackingNumber: '1Z12345E0205271688',
+          ShippingLabel: {
+            ImageFormat: { Code: 'GIF' },
+            GraphicImage: sampleLabelGraphicImage,
+          },
+        },
+        {
+          TrackingNumber: '1Z12345E0205271697',
+          ShippingLabel: {
+            ImageFormat: { Code: 'GIF' },
+            GraphicImage: sampleLabelGraphicImage,
+          },
+        },
+      ],
+    },
+  },
+};
+
+/**
+ * Successful UPS Shipping API response for a single package
+ * (UPS returns PackageResults as an object rather than an array)
+ */
+export const successfulUPSSinglePackageShipmentResponse: UPSShipmentResponse = {
+  ShipmentResponse: {
+    Response: {
+      ResponseStatus: {
+        Code: '1',
+        Description: 'Success',
+      },
+    },
+    ShipmentResults: {
+      ShipmentCharges: {
+        TotalCharges: {
+          CurrencyCode: 'USD',
+          MonetaryValue: '18.25',
+        },
+      },
+      ShipmentIdentificationNumber: '1Z12345E0291980793',
+      PackageResults: {
+        TrackingNumber: '1Z12345E0291980793',
+        ShippingLabel: {
+          ImageFormat: { Code: 'GIF' },
+          GraphicImage: sampleLabelGraphicImage,
+        },
+      },
+    },
+  },
+};
+
+/**
+ * UPS Shipping API error - invalid service for lane (HTTP 400)
+ */
+export const upsShipmentErrorInvalidService = {
+  status: 400,
+  headers: {
+    'content-type': 'application/json',
+  },
+  body: {
+    response: {
+      errors: [
+        {
+          code: '120200',
+          message: 'The requested service is unavailable between the selected locations.',
+        },
+      ],
+    },
+  },
+};
+
+/**
+ * Successful UPS Void API response
+ */
+export const successfulUPSVoidResponse: UPSVoidShipmentResponse = {
+  VoidShipmentResponse: {
+    Response: {
+      ResponseStatus: {
+        Code: '1',
+        Description: 'Success',
+      },
+    },
+    SummaryResult: {
+      Status: {
+        Code: '1',
+        Description: 'Voided',
+      },
+    },
+  },
+};
+
+/**
+ * UPS Void API error - package already picked up / in transit (HTTP 400)
+ */
+export const upsVoidErrorInTransit = {
+  status: 400,
+  headers: {
+    'content-type': 'application/json',
+  },
+  body: {
+    response: {
+      errors: [
+        {
+          code: '190117',
+          message: 'The package has already been picked up and cannot be voided.',
+        },
+      ],
+    },
+  },
+};
+
+/**
+ * UPS Void API error - void window expired (HTTP 400)
+ */
+export const upsVoidErrorWindowExpired = {
+  status: 400,
+  headers: {
+    'content-type': 'application/json',
+  },
+  body: {
+    response: {
+      errors: [
+        {
+          code: '190101',
+          message: 'Time for voiding has expired.',
+        },
+      ],
+    },
+  },
+};
+
+/**
+ * Successful UPS Pickup Creation API response (rated pickup)
+ */
+export const successfulUPSPickupCreationResponse: UPSPickupCreationResponse = {
+  PickupCreationResponse: {
+    Response: {
+      ResponseStatus: {
+        Code: '1',
+        Description: 'Success',
+      },
+    },
+    PRN: '2929602E9CP',
+    RateStatus: {
+      Code: '01',
+      Description: 'Rate available',
+    },
+    RateResult: {
+      CurrencyCode: 'USD',
+      GrandTotalOfAllCharge: '8.25',
+    },
+  },
+};
+
+/**
+ * UPS Pickup Pending Status API response listing one on-call pickup
+ */
+export const upsPickupPendingStatusResponse: UPSPickupPendingStatusResponse = {
+  PickupPendingStatusResponse: {
+    Response: {
+      ResponseStatus: {
+        Code: '1',
+        Description: 'Success',
+      },
+    },
+    PendingStatus: {
+      PickupType: '01',
+      ServiceDate: '20260220',
+      PRN: '2929602E9CP',
+      OnCallStatusCode: '001',
+      PickupStatusMessage: 'Received at dispatch',
+    },
+  },
+};
+
+/**
+ * Successful UPS Pickup Cancel API response
+ */
+export const successfulUPSPickupCancelResponse: UPSPickupCancelResponse = {
+  PickupCancelResponse: {
+    Response: {
+      ResponseStatus: {
+        Code: '1',
+        Description: 'Success',
+      },
+    },
+    PickupType: '01',
+  },
+};
+
+/**
+ * UPS Pickup Cancel API error - unknown or already cancelled PRN (HTTP 400)
+ */
+export const upsPickupCancelErrorNotFound = {
+  status: 400,
+  headers: {
+    'content-type': 'application/json',
+  },
+  body: {
+    response: {
+      errors: [
+        {
+          code: '9510151',
+          message: 'No pickup request found for the PRN.',
+        },
+      ],
+    },
+  },
+};
+
+/**
+ * Successful UPS Tracking API response for a delivered package
+ * Based on UPS Tracking API v1 documentation (activities newest first)
+ */
+export const successfulUPSTrackResponse: UPSTrackResponse = {
+  trackResponse: {
+    shipment: [
+      {
+        inquiryNumber: '1Z12345E0205271688',
+        package: [
+          {
+            trackingNumber: '1Z12345E0205271688',
+            activity: [
+              {
+                location: {
+                  address: {
+                    city: 'Los Angeles',
+                    stateProvince: 'CA',
+                    postalCode: '90001',
+                    countryCode: 'US',
+                    country: 'US',
+                  },
+                },
+                status: {
+                  type: 'D',
+                  description: 'DELIVERED ',
+                  code: 'FS',
+                  statusCode: '011',
+                },
+                date: '20260212',
+                time: '143200',
+                gmtDate: '20260212',
+                gmtTime: '22:32:00',
+                gmtOffset: '-08:00',
+              },
+              {
+                location: {
+                  address: {
+                    city: 'Los Angeles',
+                    stateProvince: 'CA',
+                    countryCode: 'US',
+                    country: 'US',
+                  },
+                },
+                status: {
+                  type: 'I',
+                  description: 'Out For Delivery Today',
+                  code: 'OT',
+                  statusCode: '021',
+                },
+                date: '20260212',
+                time: '081500',
+                gmtDate: '20260212',
+                gmtTime: '16:15:00',
+                gmtOffset: '-08:00',
+              },
+              {
+                location: {
+                  address: {
+                    city: 'Hodgkins',
+                    stateProvince: 'IL',
+                    countryCode: 'US',
+                    country: 'US',
+                  },
+                },
+                status: {
+                  type: 'I',
+                  description: 'Departed from Facility',
+                  code: 'DP',
+                  statusCode: '005',
+                },
+                date: '20260210',
+                time: '031000',
+              },
+              {
+                location: {
+                  address: {
+                    countryCode: 'US',
+                    country: 'US',
+                  },
+                },
+                status: {
+                  type: 'M',
+                  description: 'Shipper created a label, UPS has not received the package yet. ',
+                  code: 'MP',
+                  statusCode: '003',
+                },
+                date: '20260208',
+                time: '170400',
+              },
+            ],
+          },
+        ],
+      },
+    ],
+  },
+};
+
+/**
+ * UPS Tracking API response for an unknown tracking number
+ * (HTTP 200 with a warning and no package)
+ */
+export const upsTrackResponseNotFound: UPSTrackResponse = {
+  trackResponse: {
+    shipment: [
+      {
+        inquiryNumber: '1Z0000000000000000',
+        warnings: [
+          {
+            code: 'TW0001',
+            message: 'Tracking Information Not Found',
+          },
+        ],
+      },
+    ],
+  },
+};
+
+/**
+ * UPS Address Validation response - single valid, residential match
+ * Based on UPS Address Validation (Street Level) API v1 documentation
+ */
+export const upsAddressValidationValid: UPSAddressValidationResponse = {
+  XAVResponse: {
+    Response: {
+      ResponseStatus: {
+        Code: '1',
+        Description: 'Success',
+      },
+    },
+    ValidAddressIndicator: '',
+    AddressClassification: {
+      Code: '2',
+      Description: 'Residential',
+    },
+    Candidate: {
+      AddressClassification: {
+        Code: '2',
+        Description: 'Residential',
+      },
+      AddressKeyFormat: {
+        AddressLine: '456 OAK AVE',
+        PoliticalDivision2: 'LOS ANGELES',
+        PoliticalDivision1: 'CA',
+        PostcodePrimaryLow: '90001',
+        PostcodeExtendedLow: '1234',
+        Region: 'LOS ANGELES CA 90001-1234',
+        CountryCode: 'US',
+      },
+    },
+  },
+};
+
+/**
+ * UPS Address Validation response - ambiguous address with several candidates
+ */
+export const upsAddressValidationAmbiguous: UPSAddressValidationResponse = {
+  XAVResponse: {
+    Response: {
+      ResponseStatus: {
+        Code: '1',
+        Description: 'Success',
+      },
+    },
+    AmbiguousAddressIndicator: '',
+    AddressClassification: {
+      Code: '0',
+      Description: 'Unknown',
+    },
+    Candidate: [
+      {
+        AddressClassification: { Code: '1', Description: 'Commercial' },
+        AddressKeyFormat: {
+          AddressLine: ['123 MAIN ST', 'STE 100'],
+          PoliticalDivision2: 'NEW YORK',
+          PoliticalDivision1: 'NY',
+          PostcodePrimaryLow: '10001',
+          PostcodeExtendedLow: '2001',
+          CountryCode: 'US',
+        },
+      },
+      {
+        AddressClassification: { Code: '2', Description: 'Residential' },
+        AddressKeyFormat: {
+          AddressLine: ['123 W MAIN ST'],
+          PoliticalDivision2: 'NEW YORK',
+          PoliticalDivision1: 'NY',
+          PostcodePrimaryLow: '10001',
+          PostcodeExtendedLow: '2015',
+          CountryCode: 'US',
+        },
+      },
+    ],
+  },
+};
+
+/**
+ * UPS Address Validation response - no candidates found
+ */
+export const upsAddressValidationNoCandidates: UPSAddressValidationResponse = {
+  XAVResponse: {
+    Response: {
+      ResponseStatus: {
+        Code: '1',
+        Description: 'Success',
+      },
+    },
+    NoCandidatesIndicator: '',
+  },
+};
+
 /**
  * Malformed response - missing RateResponse
  */
@@ -0,0 +1,192 @@
+/**
+ * Helper utilities for setting up realistic USPS API mocks
+ * Mirrors ups-mock-helper.ts: OAuth token lifecycle plus Prices API behavior
+ */
+
+import { StubHttpClient } from '../http/stub-client';
+import {
+  successfulUSPSDomesticRateResponse,
+  successfulUSPSInternationalRateResponse,
+  uspsErrorResponseInvalidRequest,
+  uspsMalformedResponse,
+  uspsHttp429RateLimited,
+  uspsHttp503ServiceUnavailable,
+  uspsOAuth401InvalidCredentials,
+} from './usps-responses';
+
+export interface USPSMockConfig {
+  oauthTokenUrl?: string | RegExp;
+  tokenExpirySeconds?: number;
+}
+
+const DEFAULT_OAUTH_URL = /\/oauth2\/v3\/token/;
+const DOMESTIC_PRICES_URL = /\/prices\/v3\/base-rates-list\/search/;
+const INTERNATIONAL_PRICES_URL = /\/international-prices\/v3\/base-rates-list\/search/;
+const ANY_PRICES_URL = /prices\/v3\/base-rates-list\/search/;
+
+function matchesUrl(url: string, pattern: string | RegExp): boolean {
+  return typeof pattern === 'string' ? url === pattern : pattern.test(url);
+}
+
+/**
+ * Setup USPS OAuth token endpoint mock
+ */
+export class USPSOAuthMock {
+  private tokenExpirySeconds: number;
+  private urlPattern: string | RegExp;
+
+  constructor(private stubClient: StubHttpClient, config: USPSMockConfig = {}) {
+    this.tokenExpirySeconds = config.tokenExpirySeconds || 28800;
+    this.urlPattern = config.oauthTokenUrl || DEFAULT_OAUTH_URL;
+    this.setupOAuthEndpoint();
+  }
+
+  private setupOAuthEndpoint(): void {
+    this.stubClient.onRequest((req) => {
+      if (!matchesUrl(req.url, this.urlPattern) || req.method !== 'POST') {
+        return null;
+      }
+
+      const body = req.body as string;
+      if (
+        typeof body !== 'string' ||
+        !body.includes('test-client-id') ||
+        !body.includes('test-client-secret')
+      ) {
+        return {
+          status: 401,
+          headers: uspsOAuth401InvalidCredentials.headers,
+          body: uspsOAuth401InvalidCredentials.body,
+        };
+      }
+
+      return {
+        status: 200,
+        headers: { 'content-type': 'application/json' },
+        body: {
+          access_token: `usps-token-${Date.now()}-${Math.random().toString(36).substring(7)}`,
+          token_type: 'Bearer',
+          expires_in: this.tokenExpirySeconds,
+          scope: 'prices international-prices',
+        },
+      };
+    });
+  }
+
+  /**
+   * Setup OAuth error response
+   */
+  setupOAuthError(): void {
+    this.stubClient.onRequest((req) => {
+      if (!matchesUrl(req.url, this.urlPattern)) {
+        return null;
+      }
+      return {
+        status: 401,
+        headers: uspsOAuth401InvalidCredentials.headers,
+        body: uspsOAuth401InvalidCredentials.body,
+      };
+    });
+  }
+}
+
+/**
+ * Setup USPS domestic and international Prices API mocks
+ */
+export class USPSPricesApiMock {
+  constructor(private stubClient: StubHttpClient) {
+    this.setupPricesEndpoints();
+  }
+
+  private setupPricesEndpoints(): void {
+    this.stubClient.onRequest((req) => {
+      if (req.method !== 'POST' || !ANY_PRICES_URL.test(req.url)) {
+        return null;
+      }
+
+      const authHeader = req.headers?.['Authorization'];
+      if (!authHeader || !authHeader.startsWith('Bearer ')) {
+        return {
+          status: 401,
+          headers: { 'content-type': 'application/json' },
+          body: { error: { code: '401', message: 'Unauthorized' } },
+        };
+      }
+
+      return {
+        status: 200,
+        headers: { 'content-type': 'application/json' },
+        body: INTERNATIONAL_PRICES_URL.test(req.url)
+          ? successfulUSPSInternationalRateResponse
+          : successfulUSPSDomesticRateResponse,
+      };
+    });
+  }
+
+  setupDomesticSuccessResponse(): void {
+    this.stubClient.stubUrl(DOMESTIC_PRICES_URL, {
+      status: 200,
+      headers: { 'content-type': 'application/json' },
+      body: successfulUSPSDomesticRateResponse,
+    });
+  }
+
+  setupInternationalSuccessResponse(): void {
+    this.stubClient.stubUrl(INTERNATIONAL_PRICES_URL, {
+      status: 200,
+      headers: { 'content-type': 'application/json' },
+      body: successfulUSPSInternationalRateResponse,
+    });
+  }
+
+  setup429RateLimited(): void {
+    this.stubClient.stubUrl(ANY_PRICES_URL, {
+      status: 429,
+      headers: uspsHttp429RateLimited.headers,
+      body: uspsHttp429RateLimited.body,
+    });
+  }
+
+  setup503ServiceUnavailable(): void {
+    this.stubClient.stubUrl(ANY_PRICES_URL, {
+      status: 503,
+      headers: uspsHttp503ServiceUnavailable.headers,
+      body: uspsHttp503ServiceUnavailable.body,
+    });
+  }
+
+  /**
+   * Setup USPS validation error (HTTP 400 with error body)
+   */
+  setupUSPSApiError(): void {
+    this.stubClient.stubUrl(ANY_PRICES_URL, {
+      status: 400,
+      headers: { 'content-type': 'application/json' },
+      body: uspsErrorResponseInvalidRequest,
+    });
+  }
+
+  setupMalformedResponse(): void {
+    this.stubClient.stubUrl(ANY_PRICES_URL, {
+      status: 200,
+      headers: { 'content-type': 'application/json' },
+      body: uspsMalformedResponse,
+    });
+  }
+}
+
+/**
+ * Setup complete USPS API mocks for integration testing
+ */
+export function setupUSPSMocks(
+  stubClient: StubHttpClient,
+  config: USPSMockConfig = {}
+): {
+  oauth: USPSOAuthMock;
+  pricesApi: USPSPricesApiMock;
+} {
+  const oauth = new USPSOAuthMock(stubClient, config);
+  const pricesApi = new USPSPricesApiMock(stubClient);
+
+  return { oauth, pricesApi };
+}
@@ -0,0 +1,191 @@
+/**
+ * Realistic USPS API response fixtures based on the USPS Domestic and International Prices v3 APIs
+ */
+
+import { USPSRateListResponse } from '../carriers/usps/types';
+
+/**
+ * Successful domestic base-rates-list response
+ */
+export const successfulUSPSDomesticRateResponse: USPSRateListResponse = {
+  rateOptions: [
+    {
+      totalBasePrice: 9.35,
+      rates: [
+        {
+          SKU: 'DVXR0XXXXC02050',
+          description: 'USPS Ground Advantage Machinable Single-piece',
+          priceType: 'RETAIL',
+          price: 9.35,
+          weight: 5,
+          mailClass: 'USPS_GROUND_ADVANTAGE',
+          zone: '08',
+          productName: 'USPS Ground Advantage',
+          processingCategory: 'MACHINABLE',
+          rateIndicator: 'SP',
+        },
+      ],
+    },
+    {
+      totalBasePrice: 14.8,
+      rates: [
+        {
+          SKU: 'DPXR0XXXXC02050',
+          description: 'Priority Mail Machinable Single-piece',
+          priceType: 'RETAIL',
+          price: 14.8,
+          weight: 5,
+          mailClass: 'PRIORITY_MAIL',
+          zone: '08',
+          productName: 'Priority Mail',
+          processingCategory: 'MACHINABLE',
+          rateIndicator: 'SP',
+        },
+      ],
+    },
+    {
+      totalBasePrice: 16.1,
+      rates: [
+        {
+          SKU: 'DPXR0XXXXC02051',
+          description: 'Priority Mail Nonstandard Single-piece',
+          priceType: 'RETAIL',
+          price: 16.1,
+          weight: 5,
+          mailClass: 'PRIORITY_MAIL',
+          zone: '08',
+          productName: 'Priority Mail',
+          processingCategory: 'NONSTANDARD',
+          rateIndicator: 'SP',
+        },
+      ],
+    },
+    {
+      totalBasePrice: 52.5,
+      rates: [
+        {
+          SKU: 'DEXR0XXXXC02050',
+          description: 'Priority Mail Express Single-piece',
+          priceType: 'RETAIL',
+          price: 52.5,
+          weight: 5,
+          mailClass: 'PRIORITY_MAIL_EXPRESS',
+          zone: '08',
+          productName: 'Priority Mail Express',
+          processingCategory: 'MACHINABLE',
+          rateIndicator: 'SP',
+        },
+      ],
+    },
+  ],
+};
+
+/**
+ * Successful international base-rates-list response
+ */
+export const successfulUSPSInternationalRateResponse: USPSRateListResponse = {
+  rateOptions: [
+    {
+      totalBasePrice: 42.95,
+      rates: [
+        {
+          SKU: 'IPXR0XXXXC05050',
+          description: 'Priority Mail International',
+          priceType: 'RETAIL',
+          price: 42.95,
+          weight: 5,
+          mailClass: 'PRIORITY_MAIL_INTERNATIONAL',
+          productName: 'Priority Mail International',
+          processingCategory: 'NONSTANDARD',
+        },
+      ],
+    },
+    {
+      totalBasePrice: 68.25,
+      rates: [
+        {
+          SKU: 'IEXR0XXXXC05050',
+          description: 'Priority Mail Express International',
+          priceType: 'RETAIL',
+          price: 68.25,
+          weight: 5,
+          mailClass: 'PRIORITY_MAIL_EXPRESS_INTERNATIONAL',
+          productName: 'Priority Mail Express International',
+          processingCategory: 'NONSTANDARD',
+        },
+      ],
+    },
+  ],
+};
+
+/**
+ * USPS API error response - invalid request (returned with HTTP 400)
+ */
+export const uspsErrorResponseInvalidRequest: USPSRateListResponse = {
+  error: {
+    code: '400',
+    message: 'OASValidation OpenAPI-Spec-Validation-Domestic-Prices with resource "oas://domestic-prices.yaml": failed with reason: "[ERROR - Instance failed to match exactly one schema]"',
+    errors: [
+      {
+        status: '400',
+        code: '010001',
+        title: 'Invalid destination ZIP Code',
+        detail: 'The destinationZIPCode 00000 is not a valid ZIP Code.',
+      },
+    ],
+  },
+};
+
+/**
+ * Malformed response - missing rateOptions
+ */
+export const uspsMalformedResponse = {
+  unexpected: 'structure',
+};
+
+/**
+ * HTTP 429 Rate Limited response
+ */
+export const uspsHttp429RateLimited = {
+  status: 429,
+  headers: {
+    'content-type': 'application/json',
+    'retry-after': '60',
+  },
+  body: {
+    error: {
+      code: '429',
+      message: 'Quota exceeded',
+    },
+  },
+};
+
+/**
+ * HTTP 503 Service Unavailable
+ */
+export const uspsHttp503ServiceUnavailable = {
+  status: 503,
+  headers: {
+    'content-type': 'application/json',
+  },
+  body: {
+    error: {
+      code: '503',
+      message: 'Service Unavailable',
+    },
+  },
+};
+
+/**
+ * OAuth 401 Invalid Credentials
+ */
+export const uspsOAuth401InvalidCredentials = {
+  status: 401,
+  headers: {
+    'content-type': 'application/json',
+  },
+  body: {
+    error: 'invalid_client',
+    error_description: 'Client authentication failed',
+  },
+};
@@ -0,0 +1,78 @@
+/**
+ * API keys for callers of the HTTP API, stored as SHA-256 hashes only
+ */
+
+import { createHash } from 'crypto';
+import { TokenBucketConfig } from '../resilience/rate-limiter';
+
+/**
+ * Scopes beyond the carrier API, which every valid key may call
+ */
+export type ApiScope = 'admin'; // operational routes (/metrics, /api/carriers)
+
+export interface ApiClientConfig {
+  id: string; // client name, used in logs and for rate limiting
+  keyHash: string; // hex SHA-256 of the API key (see hashApiKey)
+  scopes?: ApiScope[];
+  tenantId?: string; // binds the client to a tenant's carrier accounts
+  rateLimit?: Partial<TokenBucketConfig>; // overrides the server-wide limit
+}
+
+export interface ApiClient {
+  id: string;
+  scopes: ApiScope[];
+  tenantId?: string;
+  rateLimit?: Partial<TokenBucketConfig>;
+}
+
+const KEY_HASH_PATTERN = /^[0-9a-f]{64}$/;
+
+/**
+ * Hash an API key the way it is stored in API key configuration
+ */
+export function hashApiKey(apiKey: string): string {
+  return createHash('sha256').update(apiKey).digest('hex');
+}
+
+/**
+ * Looks callers up by the hash of the key they present, so plaintext keys
+ * never need to be configured or kept in memory
+ */
+export class ApiKeyStore {
+  private readonly clientsByHash = new Map<string, ApiClient>();
+
+  constructor(clients: ApiClientConfig[]) {
+    const ids = new Set<string>();
+    for (const client of clients) {
+      const keyHash = client.keyHash.toLowerCase();
+      if (!client.id) {
+        throw new Error('API clients require an id');
+      }
+      if (!KEY_HASH_PATTERN.test(keyHash)) {
+        throw new Error(`API client '${client.id}' keyHash must be a hex SHA-256 digest`);
+      }
+      if (ids.has(client.id) || this.clientsByHash.has(keyHash)) {
+        throw new Error(`Duplicate API client '${client.id}' or key`);
+      }
+
+      ids.add(client.id);
+      this.clientsByHash.set(keyHash, {
+        id: client.id,
+        scopes: client.scopes || [],
+        ...(client.tenantId !== undefined && { tenantId: client.tenantId }),
+        ...(client.rateLimit && { rateLimit: client.rateLimit }),
+      });
+    }
+  }
+
+  /**
+   * The client a key belongs to, if any
+   */
+  authenticate(apiKey: string): ApiClient | undefined {
+    return this.clientsByHash.get(hashApiKey(apiKey));
+  }
+
+  getClients(): ApiClient[] {
+    return [...this.clientsByHash.values()];
+  }
+}
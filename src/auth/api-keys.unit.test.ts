@@ -0,0 +1,57 @@
+/**
+ * Unit tests for hashed API key lookup
+ */
+
+import { ApiKeyStore, hashApiKey } from './api-keys';
+
+describe('ApiKeyStore Unit Tests', () => {
+  const checkoutKey = 'ck_live_8f2a61d0';
+  const opsKey = 'ops_live_4be9c7aa';
+
+  const store = new ApiKeyStore([
+    { id: 'checkout', keyHash: hashApiKey(checkoutKey), tenantId: 'brand-a' },
+    {
+      id: 'ops',
+      keyHash: hashApiKey(opsKey).toUpperCase(),
+      scopes: ['admin'],
+      rateLimit: { capacity: 5 },
+    },
+  ]);
+
+  it('should hash keys with SHA-256', () => {
+    expect(hashApiKey('secret')).toBe(
+      '2bb80d537b1da3e38bd30361aa855686bde0eacd7162fef6a25fe97bf527a25b'
+    );
+  });
+
+  it('should authenticate clients by the hash of their key', () => {
+    expect(store.authenticate(checkoutKey)).toEqual({
+      id: 'checkout',
+      scopes: [],
+      tenantId: 'brand-a',
+    });
+    expect(store.authenticate(opsKey)).toEqual({
+      id: 'ops',
+      scopes: ['admin'],
+      rateLimit: { capacity: 5 },
+    });
+    expect(store.authenticate('ck_live_wrong')).toBeUndefined();
+  });
+
+  it('should not keep plaintext keys', () => {
+    expect(JSON.stringify(store.getClients())).not.toContain(checkoutKey);
+  });
+
+  it('should reject malformed hashes and duplicate clients', () => {
+    expect(() => new ApiKeyStore([{ id: 'plain', keyHash: checkoutKey }])).toThrow(
+      "API client 'plain' keyHash must be a hex SHA-256 digest"
+    );
+    expect(
+      () =>
+        new ApiKeyStore([
+          { id: 'checkout', keyHash: hashApiKey('a') },
+          { id: 'checkout', keyHash: hashApiKey('b') },
+        ])
+    ).toThrow("Duplicate API client 'checkout' or key");
+  });
+});
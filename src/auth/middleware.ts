@@ -0,0 +1,87 @@
+/**
+ * Express middleware authenticating API callers and limiting their request rate
+ */
+
+import { Request, Response, NextFunction, RequestHandler } from 'express';
+import { ApiClient, ApiKeyStore, ApiScope } from './api-keys';
+import { RateLimiter } from '../resilience/rate-limiter';
+import { CarrierIntegrationError, ErrorCode } from '../domain/errors';
+
+/**
+ * The authenticated client of a request, set by authenticateApiKeys
+ */
+export function getApiClient(res: Response): ApiClient | undefined {
+  return res.locals.apiClient;
+}
+
+/**
+ * Require a valid X-API-Key header and record the caller for later middleware
+ */
+export function authenticateApiKeys(store: ApiKeyStore): RequestHandler {
+  return (req: Request, res: Response, next: NextFunction) => {
+    const apiKey = req.header('X-API-Key');
+    if (!apiKey) {
+      next(new CarrierIntegrationError(ErrorCode.AUTH_FAILED, 'Missing X-API-Key header'));
+      return;
+    }
+
+    const client = store.authenticate(apiKey);
+    if (!client) {
+      next(new CarrierIntegrationError(ErrorCode.AUTH_FAILED, 'Invalid API key'));
+      return;
+    }
+
+    res.locals.apiClient = client;
+    next();
+  };
+}
+
+/**
+ * Limit each authenticated client to its token bucket, reporting the budget
+ * in X-RateLimit-* headers and Retry-After once it is spent
+ */
+export function rateLimitClients(limiter: RateLimiter): RequestHandler {
+  return (req: Request, res: Response, next: NextFunction) => {
+    const client = getApiClient(res);
+    if (!client) {
+      next();
+      return;
+    }
+
+    const decision = limiter.take(client.id, client.rateLimit);
+    res.setHeader('X-RateLimit-Limit', decision.limit);
+    res.setHeader('X-RateLimit-Remaining', decision.remaining);
+
+    if (!decision.allowed) {
+      res.setHeader('Retry-After', Math.ceil(decision.retryAfterMs / 1000));
+      next(
+        new CarrierIntegrationError(
+          ErrorCode.RATE_LIMITED,
+          `Rate limit exceeded for API client '${client.id}'`
+        )
+      );
+      return;
+    }
+    next();
+  };
+}
+
+/**
+ * Restrict a route to clients holding the scope. Without authentication
+ * (no API keys configured) there is no client and every route is open.
+ */
+export function requireScope(scope: ApiScope): RequestHandler {
+  return (req: Request, res: Response, next: NextFunction) => {
+    const client = getApiClient(res);
+    if (client && !client.scopes.includes(scope)) {
+      next(
+        new CarrierIntegrationError(
+          ErrorCode.FORBIDDEN,
+          `API client '${client.id}' lacks the '${scope}' scope`
+        )
+      );
+      return;
+    }
+    next();
+  };
+}
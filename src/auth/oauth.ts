@@ -3,8 +3,10 @@
  * Handles token acquisition, caching, and refresh
  */
 
+import { Span } from '@opentelemetry/api';
 import { HttpClient, HttpRequest } from '../http/client';
 import { ErrorCode, CarrierIntegrationError } from '../domain/errors';
+import { withSpan } from '../tracing/tracing';
 
 export interface OAuthToken {
   accessToken: string;
@@ -19,6 +21,20 @@ export interface OAuthConfig {
   scope?: string;
 }
 
+export interface OAuthTokenRequestEvent {
+  tokenUrl: string;
+  outcome: 'success' | 'failure';
+  durationMs: number;
+  error?: CarrierIntegrationError;
+}
+
+export interface OAuthHooks {
+  /**
+   * Called after every token acquisition (initial fetch or refresh)
+   */
+  onTokenRequest?(event: OAuthTokenRequestEvent): void;
+}
+
 /**
  * OAuth client that handles token lifecycle
  */
@@ -28,30 +44,55 @@ export class OAuthClient {
 
   constructor(
     private readonly config: OAuthConfig,
-    private readonly httpClient: HttpClient
+    private readonly httpClient: HttpClient,
+    private readonly hooks: OAuthHooks = {}
   ) {}
 
   /**
    * Get a valid access token, refreshing if necessary
    */
-  async getAccessToken(): Promise<string> {
+  getAccessToken(): Promise<string> {
+    return withSpan('oauth.get_token', (span) => this.resolveAccessToken(span), {
+      attributes: { 'oauth.token_url': this.config.tokenUrl },
+    });
+  }
+
+  private async resolveAccessToken(span: Span): Promise<string> {
     // If we have a valid token, return it
     if (this.token && this.isTokenValid(this.token)) {
+      span.setAttribute('oauth.token_source', 'cache');
       return this.token.accessToken;
     }
 
     // If a refresh is already in progress, wait for it
     if (this.tokenRefreshPromise) {
+      span.setAttribute('oauth.token_source', 'in_flight');
       const refreshedToken = await this.tokenRefreshPromise;
       return refreshedToken.accessToken;
     }
 
+    span.setAttribute('oauth.token_source', 'token_endpoint');
+
     // Start a new token acquisition
+    const startedAt = Date.now();
     this.tokenRefreshPromise = this.acquireToken();
     try {
       const newToken = await this.tokenRefreshPromise;
       this.token = newToken;
+      this.hooks.onTokenRequest?.({
+        tokenUrl: this.config.tokenUrl,
+        outcome: 'success',
+        durationMs: Date.now() - startedAt,
+      });
       return newToken.accessToken;
+    } catch (error) {
+      this.hooks.onTokenRequest?.({
+        tokenUrl: this.config.tokenUrl,
+        outcome: 'failure',
+        durationMs: Date.now() - startedAt,
+        error: error as CarrierIntegrationError,
+      });
+      throw error;
     } finally {
       this.tokenRefreshPromise = null;
     }
@@ -203,4 +203,31 @@ describe('OAuthClient Unit Tests', () => {
       expect(callCount).toBe(1);
     });
   });
+
+  describe('Hooks', () => {
+    it('should report each token acquisition and failure', async () => {
+      const onTokenRequest = jest.fn();
+      oauthClient = new OAuthClient(config, stubClient, { onTokenRequest });
+      stubClient.stubUrl('https://api.ups.com/oauth/token', {
+        status: 200,
+        body: { access_token: 'hooked-token', token_type: 'Bearer', expires_in: 3600 },
+      });
+
+      await oauthClient.getAccessToken();
+      await oauthClient.getAccessToken(); // served from cache, no new acquisition
+
+      stubClient.stubUrl('https://api.ups.com/oauth/token', { status: 401, body: {} });
+      oauthClient.clearToken();
+      await expect(oauthClient.getAccessToken()).rejects.toThrow();
+
+      expect(onTokenRequest.mock.calls.map(([event]) => event.outcome)).toEqual([
+        'success',
+        'failure',
+      ]);
+      expect(onTokenRequest.mock.calls[1][0]).toMatchObject({
+        tokenUrl: config.tokenUrl,
+        error: { code: ErrorCode.AUTH_FAILED },
+      });
+    });
+  });
 });
@@ -0,0 +1,77 @@
+/**
+ * File-backed rate cache store - keeps cached rates across restarts
+ * The file is owned by a single process; entries are held in memory and
+ * the whole file is rewritten atomically on each change
+ */
+
+import { promises as fs } from 'fs';
+import path from 'path';
+import { CachedRates, RateCacheStore } from './rate-cache';
+
+export class FileRateCacheStore implements RateCacheStore {
+  private entries: Promise<Map<string, CachedRates>> | null = null;
+  private pendingWrite: Promise<void> = Promise.resolve();
+
+  constructor(private readonly filePath: string) {}
+
+  async get(key: string): Promise<CachedRates | undefined> {
+    const entries = await this.load();
+    return entries.get(key);
+  }
+
+  async set(key: string, entry: CachedRates): Promise<void> {
+    const entries = await this.load();
+
+    // Drop expired entries so the file does not grow without bound
+    const now = Date.now();
+    for (const [existingKey, existing] of entries) {
+      if (existing.expiresAt <= now) {
+        entries.delete(existingKey);
+      }
+    }
+
+    entries.set(key, entry);
+    await this.persist(entries);
+  }
+
+  async delete(key: string): Promise<void> {
+    const entries = await this.load();
+    if (entries.delete(key)) {
+      await this.persist(entries);
+    }
+  }
+
+  async clear(): Promise<void> {
+    const entries = await this.load();
+    entries.clear();
+    await this.persist(entries);
+  }
+
+  /**
+   * Read the cache file once; a missing or unreadable file starts empty
+   */
+  private load(): Promise<Map<string, CachedRates>> {
+    if (!this.entries) {
+      this.entries = fs
+        .readFile(this.filePath, 'utf8')
+        .then((contents) => new Map(Object.entries(JSON.parse(contents) as Record<string, CachedRates>)))
+        .catch(() => new Map<string, CachedRates>());
+    }
+    return this.entries;
+  }
+
+  /**
+   * Write via a temp file and rename, serializing concurrent writes
+   */
+  private persist(entries: Map<string, CachedRates>): Promise<void> {
+    this.pendingWrite = this.pendingWrite
+      .catch(() => undefined)
+      .then(async () => {
+        const tempPath = `${this.filePath}.${process.pid}.tmp`;
+        await fs.mkdir(path.dirname(this.filePath), { recursive: true });
+        await fs.writeFile(tempPath, JSON.stringify(Object.fromEntries(entries)), 'utf8');
+        await fs.rename(tempPath, this.filePath);
+      });
+    return this.pendingWrite;
+  }
+}
@@ -0,0 +1,43 @@
+/**
+ * In-memory rate cache store with least-recently-used eviction
+ */
+
+import { CachedRates, RateCacheStore } from './rate-cache';
+
+export class InMemoryRateCacheStore implements RateCacheStore {
+  // Map iteration order is insertion order, so the first key is the LRU entry
+  private entries: Map<string, CachedRates> = new Map();
+
+  constructor(private readonly maxEntries: number = 1000) {}
+
+  async get(key: string): Promise<CachedRates | undefined> {
+    const entry = this.entries.get(key);
+    if (entry) {
+      this.entries.delete(key);
+      this.entries.set(key, entry);
+    }
+    return entry;
+  }
+
+  async set(key: string, entry: CachedRates): Promise<void> {
+    this.entries.delete(key);
+    this.entries.set(key, entry);
+
+    while (this.entries.size > this.maxEntries) {
+      const oldestKey = this.entries.keys().next().value as string;
+      this.entries.delete(oldestKey);
+    }
+  }
+
+  async delete(key: string): Promise<void> {
+    this.entries.delete(key);
+  }
+
+  async clear(): Promise<void> {
+    this.entries.clear();
+  }
+
+  get size(): number {
+    return this.entries.size;
+  }
+}
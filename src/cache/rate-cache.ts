@@ -0,0 +1,122 @@
+/**
+ * Rate cache - memoizes carrier rate quotes per normalized rate request
+ */
+
+import { createHash } from 'crypto';
+import { Address, RateQuote, RateRequest } from '../domain/types';
+
+export interface CachedRates {
+  quotes: RateQuote[];
+  expiresAt: number; // Unix timestamp in milliseconds
+}
+
+/**
+ * Pluggable storage backend for cached rates
+ */
+export interface RateCacheStore {
+  get(key: string): Promise<CachedRates | undefined>;
+  set(key: string, entry: CachedRates): Promise<void>;
+  delete(key: string): Promise<void>;
+  clear(): Promise<void>;
+}
+
+export interface RateCacheConfig {
+  ttlMs: number;
+}
+
+/**
+ * TTL-based rate cache on top of a RateCacheStore
+ */
+export class RateCache {
+  constructor(
+    private readonly store: RateCacheStore,
+    private readonly config: RateCacheConfig
+  ) {}
+
+  /**
+   * Get unexpired quotes for a carrier and request, if cached
+   */
+  async get(
+    carrier: string,
+    request: RateRequest,
+    tenantId?: string
+  ): Promise<RateQuote[] | undefined> {
+    const key = buildRateCacheKey(carrier, request, tenantId);
+    const entry = await this.store.get(key);
+    if (!entry) {
+      return undefined;
+    }
+
+    if (entry.expiresAt <= Date.now()) {
+      await this.store.delete(key);
+      return undefined;
+    }
+
+    return entry.quotes;
+  }
+
+  /**
+   * Cache quotes for a carrier and request for the configured TTL
+   */
+  async set(
+    carrier: string,
+    request: RateRequest,
+    quotes: RateQuote[],
+    tenantId?: string
+  ): Promise<void> {
+    await this.store.set(buildRateCacheKey(carrier, request, tenantId), {
+      quotes,
+      expiresAt: Date.now() + this.config.ttlMs,
+    });
+  }
+}
+
+/**
+ * Build a cache key from the carrier and a normalized hash of the request,
+ * so formatting differences (case, whitespace, key order) share an entry.
+ * Tenants get their own keys since their accounts may be quoted differently.
+ */
+export function buildRateCacheKey(
+  carrier: string,
+  request: RateRequest,
+  tenantId?: string
+): string {
+  const normalized = {
+    origin: normalizeAddress(request.origin),
+    destination: normalizeAddress(request.destination),
+    packages: request.packages.map((pkg) => ({
+      weight: pkg.weight,
+      weightUnit: pkg.weightUnit ?? 'LB',
+      dimensions: pkg.dimensions
+        ? [
+            pkg.dimensions.length,
+            pkg.dimensions.width,
+            pkg.dimensions.height,
+            pkg.dimensions.unit ?? 'IN',
+          ]
+        : null,
+    })),
+    serviceLevel: request.serviceLevel ? normalizeText(request.serviceLevel) : null,
+    includeTransitTimes: request.includeTransitTimes === true,
+    negotiatedRates: request.negotiatedRates === true,
+    shipDate: request.shipDate ?? null,
+  };
+
+  const hash = createHash('sha256').update(JSON.stringify(normalized)).digest('hex');
+  const scope = tenantId !== undefined ? `tenant:${tenantId}:` : '';
+  return `rates:${scope}${carrier.toUpperCase()}:${hash}`;
+}
+
+function normalizeAddress(address: Address) {
+  return {
+    street: address.street.map(normalizeText),
+    city: normalizeText(address.city),
+    stateOrProvince: normalizeText(address.stateOrProvince),
+    postalCode: normalizeText(address.postalCode),
+    country: normalizeText(address.country),
+  };
+}
+
+function normalizeText(value: string): string {
+  return value.trim().replace(/\s+/g, ' ').toUpperCase();
+}
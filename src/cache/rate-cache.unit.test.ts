@@ -0,0 +1,166 @@
+/**
+ * Unit tests for the rate cache and its stores
+ */
+
+import { promises as fs } from 'fs';
+import os from 'os';
+import path from 'path';
+import { RateCache, buildRateCacheKey } from './rate-cache';
+import { InMemoryRateCacheStore } from './memory-store';
+import { FileRateCacheStore } from './file-store';
+import { RateQuote, RateRequest } from '../domain/types';
+
+describe('RateCache Unit Tests', () => {
+  const request: RateRequest = {
+    origin: {
+      street: ['123 Main Street'],
+      city: 'New York',
+      stateOrProvince: 'NY',
+      postalCode: '10001',
+      country: 'US',
+    },
+    destination: {
+      street: ['456 Oak Avenue'],
+      city: 'Los Angeles',
+      stateOrProvince: 'CA',
+      postalCode: '90001',
+      country: 'US',
+    },
+    packages: [{ weight: 5, dimensions: { length: 12, width: 10, height: 8 } }],
+  };
+
+  const quotes: RateQuote[] = [
+    {
+      carrier: 'UPS',
+      serviceLevel: '03',
+      serviceName: 'Ground',
+      totalCost: 25.5,
+      currency: 'USD',
+    },
+  ];
+
+  afterEach(() => {
+    jest.restoreAllMocks();
+  });
+
+  describe('Cache keys', () => {
+    it('should share keys across case, whitespace and carrier name formatting', () => {
+      const reformatted: RateRequest = {
+        ...request,
+        origin: { ...request.origin, street: ['  123  main street '], city: 'new york' },
+        destination: { ...request.destination, country: 'us' },
+      };
+
+      expect(buildRateCacheKey('ups', reformatted)).toBe(buildRateCacheKey('UPS', request));
+    });
+
+    it('should separate carriers, packages and transit time requests', () => {
+      const key = buildRateCacheKey('UPS', request);
+
+      expect(buildRateCacheKey('FEDEX', request)).not.toBe(key);
+      expect(buildRateCacheKey('UPS', { ...request, packages: [{ weight: 6 }] })).not.toBe(key);
+      expect(buildRateCacheKey('UPS', { ...request, includeTransitTimes: true })).not.toBe(key);
+      expect(buildRateCacheKey('UPS', { ...request, negotiatedRates: true })).not.toBe(key);
+    });
+
+    it('should treat default units as pounds and inches but separate metric packages', () => {
+      const key = buildRateCacheKey('UPS', request);
+      const explicit: RateRequest = {
+        ...request,
+        packages: [
+          { weight: 5, weightUnit: 'LB', dimensions: { length: 12, width: 10, height: 8, unit: 'IN' } },
+        ],
+      };
+
+      expect(buildRateCacheKey('UPS', explicit)).toBe(key);
+      expect(
+        buildRateCacheKey('UPS', { ...request, packages: [{ ...request.packages[0], weightUnit: 'KG' }] })
+      ).not.toBe(key);
+    });
+
+    it('should separate tenants from each other and from the default accounts', () => {
+      const key = buildRateCacheKey('UPS', request);
+
+      expect(buildRateCacheKey('UPS', request, 'brand-a')).not.toBe(key);
+      expect(buildRateCacheKey('UPS', request, 'brand-a')).not.toBe(
+        buildRateCacheKey('UPS', request, 'brand-b')
+      );
+    });
+  });
+
+  describe('TTL', () => {
+    it('should return quotes until the TTL expires', async () => {
+      const store = new InMemoryRateCacheStore();
+      const cache = new RateCache(store, { ttlMs: 60000 });
+      const now = Date.now();
+      const clock = jest.spyOn(Date, 'now').mockReturnValue(now);
+
+      await cache.set('UPS', request, quotes);
+      clock.mockReturnValue(now + 59999);
+      await expect(cache.get('UPS', request)).resolves.toEqual(quotes);
+
+      clock.mockReturnValue(now + 60000);
+      await expect(cache.get('UPS', request)).resolves.toBeUndefined();
+      expect(store.size).toBe(0);
+    });
+  });
+
+  describe('InMemoryRateCacheStore', () => {
+    it('should evict the least recently used entry when full', async () => {
+      const store = new InMemoryRateCacheStore(2);
+      const entry = { quotes, expiresAt: Date.now() + 60000 };
+
+      await store.set('a', entry);
+      await store.set('b', entry);
+      await store.get('a'); // "b" is now least recently used
+      await store.set('c', entry);
+
+      await expect(store.get('a')).resolves.toEqual(entry);
+      await expect(store.get('b')).resolves.toBeUndefined();
+      await expect(store.get('c')).resolves.toEqual(entry);
+    });
+  });
+
+  describe('FileRateCacheStore', () => {
+    let dir: string;
+
+    beforeEach(async () => {
+      dir = await fs.mkdtemp(path.join(os.tmpdir(), 'rate-cache-'));
+    });
+
+    afterEach(async () => {
+      await fs.rm(dir, { recursive: true, force: true });
+    });
+
+    it('should persist entries across store instances', async () => {
+      const filePath = path.join(dir, 'nested', 'rates.json');
+      const cache = new RateCache(new FileRateCacheStore(filePath), { ttlMs: 60000 });
+
+      await cache.set('UPS', request, quotes);
+
+      const reopened = new RateCache(new FileRateCacheStore(filePath), { ttlMs: 60000 });
+      await expect(reopened.get('UPS', request)).resolves.toEqual(quotes);
+    });
+
+    it('should drop expired entries when writing', async () => {
+      const filePath = path.join(dir, 'rates.json');
+      const store = new FileRateCacheStore(filePath);
+
+      await store.set('stale', { quotes, expiresAt: Date.now() - 1 });
+      await store.set('fresh', { quotes, expiresAt: Date.now() + 60000 });
+
+      const contents = JSON.parse(await fs.readFile(filePath, 'utf8'));
+      expect(Object.keys(contents)).toEqual(['fresh']);
+    });
+
+    it('should start empty when the cache file is missing or corrupt', async () => {
+      const filePath = path.join(dir, 'rates.json');
+      await fs.writeFile(filePath, 'not json', 'utf8');
+
+      await expect(new FileRateCacheStore(filePath).get('a')).resolves.toBeUndefined();
+      await expect(
+        new FileRateCacheStore(path.join(dir, 'missing.json')).get('a')
+      ).resolves.toBeUndefined();
+    });
+  });
+});
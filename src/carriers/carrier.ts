@@ -2,9 +2,30 @@
  * Carrier abstraction - Strategy pattern
  */
 
-import { RateRequest, RateQuote } from '../domain/types';
+import {
+  Address,
+  AddressValidationResult,
+  PickupCancellationResult,
+  PickupDetails,
+  PickupRequest,
+  PickupResult,
+  RateRequest,
+  RateQuote,
+  TransitTime,
+  ShipmentRequest,
+  ShipmentResult,
+  TrackingEvent,
+  VoidShipmentResult,
+} from '../domain/types';
 import { CarrierIntegrationError } from '../domain/errors';
 
+/**
+ * Per-call options for carrier operations
+ */
+export interface CarrierRequestOptions {
+  signal?: AbortSignal; // aborted when the caller's deadline passes
+}
+
 export interface Carrier {
   /**
    * Get carrier identifier (e.g., "UPS", "FEDEX")
@@ -14,5 +35,59 @@ export interface Carrier {
   /**
    * Get rate quotes for the given request
    */
-  getRates(request: RateRequest): Promise<RateQuote[]>;
+  getRates(request: RateRequest, options?: CarrierRequestOptions): Promise<RateQuote[]>;
+
+  /**
+   * Get business-day transit times per service (optional capability)
+   */
+  getTransitTimes?(
+    request: RateRequest,
+    options?: CarrierRequestOptions
+  ): Promise<TransitTime[]>;
+
+  /**
+   * Create a shipment and generate its labels (optional capability)
+   */
+  createShipment?(request: ShipmentRequest): Promise<ShipmentResult>;
+
+  /**
+   * Void (cancel) a shipment within the carrier's void window (optional capability)
+   */
+  voidShipment?(trackingNumber: string): Promise<VoidShipmentResult>;
+
+  /**
+   * Schedule a package pickup (optional capability)
+   */
+  schedulePickup?(request: PickupRequest): Promise<PickupResult>;
+
+  /**
+   * Get the status of a scheduled pickup (optional capability)
+   */
+  getPickup?(confirmationNumber: string): Promise<PickupDetails>;
+
+  /**
+   * Cancel a scheduled pickup (optional capability)
+   */
+  cancelPickup?(confirmationNumber: string): Promise<PickupCancellationResult>;
+
+  /**
+   * Get normalized tracking events, newest first (optional capability)
+   */
+  trackShipment?(trackingNumber: string): Promise<TrackingEvent[]>;
+
+  /**
+   * Verify the configured credentials work, e.g. by obtaining an OAuth token
+   * (optional capability; used by readiness checks)
+   */
+  checkCredentials?(): Promise<void>;
+}
+
+/**
+ * Address validation capability, offered by some carriers (e.g. UPS)
+ */
+export interface AddressValidator {
+  /**
+   * Validate and normalize an address, classifying it as residential or commercial
+   */
+  validateAddress(address: Address): Promise<AddressValidationResult>;
 }
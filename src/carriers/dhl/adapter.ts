@@ -0,0 +1,303 @@
+/**
+ * DHL Express adapter - transforms domain models to/from MyDHL API format
+ */
+
+import { Carrier, CarrierRequestOptions } from '../carrier';
+import {
+  ServiceLevelCodes,
+  filterQuotesByServiceCodes,
+  getRequestedServiceCodes,
+} from '../service-levels';
+import { RateRequest, RateQuote, Address } from '../../domain/types';
+import { ErrorCode, CarrierIntegrationError } from '../../domain/errors';
+import { toDecimal, toMoney } from '../../domain/money';
+import { convertPackage, getUnitSystemForCountry } from '../../domain/units';
+import { HttpClient, HttpRequest } from '../../http/client';
+import { withSpanSync } from '../../tracing/tracing';
+import { DHLAddress, DHLErrorResponse, DHLRateRequest, DHLRateResponse } from './types';
+
+export interface DHLConfig {
+  baseUrl: string;
+  apiKey: string;
+  apiSecret: string;
+  accountNumber: string;
+  /**
+   * Request the "Duties & Taxes Paid" (DD) service on cross-border shipments
+   * so quoted totals include the shipper-paid duty/tax charges
+   */
+  dutiesAndTaxesPaid?: boolean;
+}
+
+/**
+ * DHL Express global product codes and their names
+ */
+export const DHL_PRODUCT_CODES: Record<string, string> = {
+  N: 'EXPRESS DOMESTIC',
+  I: 'EXPRESS DOMESTIC 9:00',
+  '1': 'EXPRESS DOMESTIC 12:00',
+  P: 'EXPRESS WORLDWIDE',
+  U: 'EXPRESS WORLDWIDE (EU)',
+  D: 'EXPRESS WORLDWIDE (DOC)',
+  E: 'EXPRESS 9:00',
+  K: 'EXPRESS 9:00 (DOC)',
+  Y: 'EXPRESS 12:00',
+  T: 'EXPRESS 12:00 (DOC)',
+  W: 'ECONOMY SELECT',
+  H: 'ECONOMY SELECT (EU)',
+  X: 'EXPRESS ENVELOPE',
+};
+
+/**
+ * DHL product codes per service level; DHL Express has no ground service
+ */
+const DHL_SERVICE_CODES: ServiceLevelCodes = {
+  OVERNIGHT: ['N', 'I', '1'],
+  EXPRESS: ['P', 'U', 'D', 'E', 'K', 'Y', 'T', 'X'],
+  ECONOMY_INTL: ['W', 'H'],
+};
+
+/**
+ * Document-only products; never offered for parcel shipments
+ */
+const DOCUMENT_PRODUCT_CODES = new Set(['D', 'K', 'T', 'X']);
+
+/**
+ * Value-added service code for Duties & Taxes Paid (DDP)
+ */
+const DUTIES_TAXES_PAID_SERVICE = 'DD';
+
+/**
+ * DHL Express (MyDHL API) rating adapter
+ */
+export class DHLAdapter implements Carrier {
+  constructor(
+    private readonly config: DHLConfig,
+    private readonly httpClient: HttpClient
+  ) {}
+
+  getName(): string {
+    return 'DHL';
+  }
+
+  async getRates(
+    request: RateRequest,
+    options: CarrierRequestOptions = {}
+  ): Promise<RateQuote[]> {
+    const serviceCodes = getRequestedServiceCodes(DHL_SERVICE_CODES, request);
+    if (serviceCodes?.length === 0) {
+      return [];
+    }
+
+    const dhlRequest = this.transformRequest(request);
+    const httpRequest: HttpRequest = {
+      url: `${this.config.baseUrl}/rates`,
+      method: 'POST',
+      headers: {
+        Authorization: this.buildAuthorizationHeader(),
+        'Content-Type': 'application/json',
+        'Message-Reference': this.generateMessageReference(),
+      },
+      body: dhlRequest,
+      ...(options.signal && { signal: options.signal }),
+    };
+
+    try {
+      const response = await this.httpClient.request<
+        DHLRateResponse & DHLErrorResponse
+      >(httpRequest);
+
+      // DHL uses HTTP basic auth, so there is no token to refresh on 401
+      if (response.status === 401 || response.status === 403) {
+        throw new CarrierIntegrationError(
+          ErrorCode.AUTH_FAILED,
+          `DHL API rejected credentials: ${response.status}`
+        );
+      }
+
+      if (response.status === 429) {
+        throw new CarrierIntegrationError(
+          ErrorCode.RATE_LIMITED,
+          'DHL API rate limit exceeded'
+        );
+      }
+
+      if (response.status >= 500) {
+        throw new CarrierIntegrationError(
+          ErrorCode.CARRIER_UNAVAILABLE,
+          `DHL API returned server error: ${response.status}`
+        );
+      }
+
+      if (response.status !== 200) {
+        const detail = response.body?.detail || response.body?.message;
+        throw new CarrierIntegrationError(
+          ErrorCode.INVALID_REQUEST,
+          detail
+            ? `DHL API error: ${detail}`
+            : `DHL API returned error status: ${response.status}`
+        );
+      }
+
+      return withSpanSync(
+        'carrier.transform_response',
+        () =>
+          filterQuotesByServiceCodes(this.transformResponse(response.body), serviceCodes),
+        { attributes: { 'carrier.name': this.getName() } }
+      );
+    } catch (error) {
+      if (error instanceof CarrierIntegrationError) {
+        throw error;
+      }
+      if (error instanceof Error && error.message === 'Request timeout') {
+        throw new CarrierIntegrationError(
+          ErrorCode.TIMEOUT,
+          'DHL API request timed out',
+          error
+        );
+      }
+      throw new CarrierIntegrationError(
+        ErrorCode.NETWORK_ERROR,
+        'Network error communicating with DHL API',
+        error as Error
+      );
+    }
+  }
+
+  /**
+   * Transform domain RateRequest to MyDHL API format
+   */
+  private transformRequest(request: RateRequest): DHLRateRequest {
+    const isCrossBorder =
+      request.origin.country.toUpperCase() !==
+      request.destination.country.toUpperCase();
+    const unitSystem = getUnitSystemForCountry(request.origin.country);
+
+    return {
+      customerDetails: {
+        shipperDetails: this.transformAddress(request.origin),
+        receiverDetails: this.transformAddress(request.destination),
+      },
+      accounts: [
+        {
+          typeCode: 'shipper',
+          number: this.config.accountNumber,
+        },
+      ],
+      plannedShippingDateAndTime: this.formatShippingDate(new Date()),
+      unitOfMeasurement: unitSystem === 'METRIC' ? 'metric' : 'imperial',
+      isCustomsDeclarable: isCrossBorder,
+      ...(isCrossBorder &&
+        this.config.dutiesAndTaxesPaid && {
+          valueAddedServices: [{ serviceCode: DUTIES_TAXES_PAID_SERVICE }],
+        }),
+      packages: request.packages
+        .map((pkg) => convertPackage(pkg, unitSystem))
+        .map((pkg) => ({
+          weight: pkg.weight,
+          // DHL requires dimensions; fall back to a minimal box when unknown
+          dimensions: {
+            length: pkg.dimensions?.length ?? 1,
+            width: pkg.dimensions?.width ?? 1,
+            height: pkg.dimensions?.height ?? 1,
+          },
+        })),
+    };
+  }
+
+  /**
+   * Transform MyDHL API response to domain RateQuote[]
+   */
+  private transformResponse(response: DHLRateResponse): RateQuote[] {
+    if (!response?.products) {
+      throw new CarrierIntegrationError(
+        ErrorCode.MALFORMED_RESPONSE,
+        'DHL response missing products'
+      );
+    }
+
+    return response.products
+      .filter(
+        (product) =>
+          !product.productCode || !DOCUMENT_PRODUCT_CODES.has(product.productCode)
+      )
+      .map((product) => {
+        const productCode = product.productCode || 'UNKNOWN';
+        const serviceName =
+          product.productName ||
+          DHL_PRODUCT_CODES[productCode] ||
+          'Unknown Service';
+
+        // The billing-currency total already includes VAT and any value-added
+        // services requested (including duties & taxes paid)
+        const total =
+          product.totalPrice?.find((p) => p.currencyType === 'BILLC') ||
+          product.totalPrice?.[0];
+
+        if (total?.price === undefined || total.price === null) {
+          throw new CarrierIntegrationError(
+            ErrorCode.MALFORMED_RESPONSE,
+            'DHL response missing charge information'
+          );
+        }
+
+        const cost = Number(total.price);
+        if (isNaN(cost)) {
+          throw new CarrierIntegrationError(
+            ErrorCode.MALFORMED_RESPONSE,
+            `Invalid cost value: ${total.price}`
+          );
+        }
+
+        const price = toMoney(cost, total.priceCurrency || 'USD');
+        const transitDays = product.deliveryCapabilities?.totalTransitDays;
+
+        return {
+          carrier: 'DHL',
+          serviceLevel: productCode,
+          serviceName,
+          totalCost: toDecimal(price),
+          currency: price.currency,
+          estimatedDays: transitDays ? parseInt(transitDays, 10) : undefined,
+          carrierQuoteId: `${productCode}-${Date.now()}`,
+        };
+      });
+  }
+
+  /**
+   * Transform domain Address to DHL address format
+   */
+  private transformAddress(address: Address): DHLAddress {
+    const [addressLine1, addressLine2, addressLine3] = address.street;
+    return {
+      postalCode: address.postalCode,
+      cityName: address.city,
+      countryCode: address.country,
+      provinceCode: address.stateOrProvince,
+      ...(addressLine1 && { addressLine1 }),
+      ...(addressLine2 && { addressLine2 }),
+      ...(addressLine3 && { addressLine3 }),
+    };
+  }
+
+  /**
+   * Format a date the way MyDHL expects (e.g. "2026-02-09T13:00:00 GMT+00:00")
+   */
+  private formatShippingDate(date: Date): string {
+    return `${date.toISOString().substring(0, 19)} GMT+00:00`;
+  }
+
+  /**
+   * Build the HTTP basic auth header from the API key and secret
+   */
+  private buildAuthorizationHeader(): string {
+    const credentials = `${this.config.apiKey}:${this.config.apiSecret}`;
+    return `Basic ${Buffer.from(credentials).toString('base64')}`;
+  }
+
+  /**
+   * Generate a unique message reference (DHL requires 28-36 characters)
+   */
+  private generateMessageReference(): string {
+    return `MSG-${Date.now()}-${Math.random().toString(36).substring(2)}`.padEnd(28, '0');
+  }
+}
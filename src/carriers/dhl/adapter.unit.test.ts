@@ -0,0 +1,151 @@
+/**
+ * Unit tests for DHL Express adapter
+ * Exercises MyDHL request/response mapping against stubbed endpoints
+ */
+
+import { createDHLAdapter } from '../../config';
+import { StubHttpClient } from '../../http/stub-client';
+import { RateRequest } from '../../domain/types';
+import { ErrorCode } from '../../domain/errors';
+import { DHLAdapter } from './adapter';
+import { setupDHLMocks } from '../../__fixtures__/dhl-mock-helper';
+
+describe('DHLAdapter Unit Tests', () => {
+  let stubClient: StubHttpClient;
+  let adapter: DHLAdapter;
+  let dhlMocks: ReturnType<typeof setupDHLMocks>;
+
+  const internationalRequest: RateRequest = {
+    origin: {
+      street: ['123 Main Street', 'Suite 100'],
+      city: 'New York',
+      stateOrProvince: 'NY',
+      postalCode: '10001',
+      country: 'US',
+    },
+    destination: {
+      street: ['10 Downing Street'],
+      city: 'London',
+      stateOrProvince: 'LND',
+      postalCode: 'SW1A 2AA',
+      country: 'GB',
+    },
+    packages: [{ weight: 5, dimensions: { length: 12, width: 10, height: 8 } }, { weight: 2 }],
+  };
+
+  beforeEach(() => {
+    stubClient = new StubHttpClient();
+    dhlMocks = setupDHLMocks(stubClient);
+    adapter = createDHLAdapter(
+      stubClient,
+      { accountNumber: '123456789', dutiesAndTaxesPaid: true },
+      false
+    );
+  });
+
+  it('should map DHL products to quotes using billing-currency totals', async () => {
+    const quotes = await adapter.getRates(internationalRequest);
+
+    // Document-only product "D" is excluded for parcel shipments
+    expect(quotes.map((q) => q.serviceLevel)).toEqual(['P', 'Y', 'W']);
+    expect(quotes[0]).toMatchObject({
+      carrier: 'DHL',
+      serviceName: 'EXPRESS WORLDWIDE',
+      totalCost: 148.62, // includes fuel and duties & taxes paid service
+      currency: 'USD',
+      estimatedDays: 2,
+    });
+  });
+
+  it('should send basic auth and request duties & taxes paid for cross-border shipments', async () => {
+    await adapter.getRates(internationalRequest);
+
+    const [captured] = stubClient.getCapturedRequestsForUrl(/\/rates$/);
+    const body = captured.body as any;
+
+    expect(captured.headers?.Authorization).toBe(
+      `Basic ${Buffer.from('test-api-key:test-api-secret').toString('base64')}`
+    );
+    expect(body.accounts).toEqual([{ typeCode: 'shipper', number: '123456789' }]);
+    expect(body.isCustomsDeclarable).toBe(true);
+    expect(body.valueAddedServices).toEqual([{ serviceCode: 'DD' }]);
+    expect(body.customerDetails.receiverDetails).toMatchObject({
+      postalCode: 'SW1A 2AA',
+      cityName: 'London',
+      countryCode: 'GB',
+      addressLine1: '10 Downing Street',
+    });
+    expect(body.packages[1].dimensions).toEqual({ length: 1, width: 1, height: 1 });
+  });
+
+  it('should not request duties & taxes paid for domestic shipments', async () => {
+    await adapter.getRates({
+      ...internationalRequest,
+      destination: { ...internationalRequest.origin, postalCode: '90001' },
+    });
+
+    const [captured] = stubClient.getCapturedRequestsForUrl(/\/rates$/);
+    expect((captured.body as any).isCustomsDeclarable).toBe(false);
+    expect((captured.body as any).valueAddedServices).toBeUndefined();
+  });
+
+  it('should send metric measurements for shipments originating in metric countries', async () => {
+    await adapter.getRates({
+      ...internationalRequest,
+      origin: { ...internationalRequest.destination },
+      destination: { ...internationalRequest.origin },
+      packages: [{ weight: 11, dimensions: { length: 10, width: 10, height: 5 } }],
+    });
+
+    const [captured] = stubClient.getCapturedRequestsForUrl(/\/rates$/);
+    const body = captured.body as any;
+
+    expect(body.unitOfMeasurement).toBe('metric');
+    expect(body.packages).toEqual([
+      { weight: 4.99, dimensions: { length: 25.4, width: 25.4, height: 12.7 } },
+    ]);
+  });
+
+  it('should only quote products at the requested service level', async () => {
+    const quotes = await adapter.getRates({ ...internationalRequest, serviceLevel: 'ECONOMY_INTL' });
+    expect(quotes.map((q) => q.serviceLevel)).toEqual(['W']);
+
+    stubClient.clearCapturedRequests();
+    await expect(
+      adapter.getRates({ ...internationalRequest, serviceLevel: 'GROUND' })
+    ).resolves.toEqual([]);
+    expect(stubClient.getCapturedRequests()).toHaveLength(0);
+  });
+
+  it('should map HTTP and API errors to structured error codes', async () => {
+    dhlMocks.ratingApi.setup401Unauthorized();
+    await expect(adapter.getRates(internationalRequest)).rejects.toHaveProperty(
+      'code',
+      ErrorCode.AUTH_FAILED
+    );
+
+    dhlMocks.ratingApi.setup429RateLimited();
+    await expect(adapter.getRates(internationalRequest)).rejects.toHaveProperty(
+      'code',
+      ErrorCode.RATE_LIMITED
+    );
+
+    dhlMocks.ratingApi.setup503ServiceUnavailable();
+    await expect(adapter.getRates(internationalRequest)).rejects.toHaveProperty(
+      'code',
+      ErrorCode.CARRIER_UNAVAILABLE
+    );
+
+    dhlMocks.ratingApi.setupDHLApiError();
+    await expect(adapter.getRates(internationalRequest)).rejects.toMatchObject({
+      code: ErrorCode.INVALID_REQUEST,
+      message: expect.stringContaining('receiverDetails.postalCode'),
+    });
+
+    dhlMocks.ratingApi.setupMalformedResponse();
+    await expect(adapter.getRates(internationalRequest)).rejects.toHaveProperty(
+      'code',
+      ErrorCode.MALFORMED_RESPONSE
+    );
+  });
+});
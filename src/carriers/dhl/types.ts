@@ -0,0 +1,91 @@
+/**
+ * DHL Express (MyDHL API) specific types (internal to DHL adapter)
+ */
+
+export interface DHLAddress {
+  postalCode: string;
+  cityName: string;
+  countryCode: string;
+  provinceCode?: string;
+  addressLine1?: string;
+  addressLine2?: string;
+  addressLine3?: string;
+}
+
+export interface DHLRateRequest {
+  customerDetails: {
+    shipperDetails: DHLAddress;
+    receiverDetails: DHLAddress;
+  };
+  accounts: Array<{
+    typeCode: string;
+    number: string;
+  }>;
+  plannedShippingDateAndTime: string;
+  unitOfMeasurement: 'metric' | 'imperial';
+  isCustomsDeclarable: boolean;
+  valueAddedServices?: Array<{
+    serviceCode: string;
+  }>;
+  packages: Array<{
+    weight: number;
+    dimensions: {
+      length: number;
+      width: number;
+      height: number;
+    };
+  }>;
+}
+
+export interface DHLPrice {
+  currencyType?: string; // BILLC (billing), PULCL (pickup local), BASEC (base)
+  priceCurrency?: string;
+  price?: number;
+}
+
+export interface DHLRateResponse {
+  products?: Array<{
+    productName?: string;
+    productCode?: string;
+    localProductCode?: string;
+    networkTypeCode?: string;
+    isCustomerAgreement?: boolean;
+    totalPrice?: DHLPrice[];
+    totalPriceBreakdown?: Array<{
+      currencyType?: string;
+      priceCurrency?: string;
+      priceBreakdown?: Array<{
+        typeCode?: string;
+        price?: number;
+      }>;
+    }>;
+    detailedPriceBreakdown?: Array<{
+      currencyType?: string;
+      priceCurrency?: string;
+      breakdown?: Array<{
+        name?: string;
+        serviceCode?: string;
+        typeCode?: string;
+        price?: number;
+      }>;
+    }>;
+    deliveryCapabilities?: {
+      deliveryTypeCode?: string;
+      estimatedDeliveryDateAndTime?: string;
+      destinationServiceAreaCode?: string;
+      totalTransitDays?: string;
+    };
+  }>;
+}
+
+/**
+ * MyDHL API error body (RFC 7807 problem details)
+ */
+export interface DHLErrorResponse {
+  instance?: string;
+  detail?: string;
+  title?: string;
+  message?: string;
+  status?: string;
+  additionalDetails?: string[];
+}
@@ -0,0 +1,318 @@
+/**
+ * FedEx adapter - transforms domain models to/from FedEx API format
+ */
+
+import { Carrier, CarrierRequestOptions } from '../carrier';
+import {
+  ServiceLevelCodes,
+  filterQuotesByServiceCodes,
+  getRequestedServiceCodes,
+} from '../service-levels';
+import { RateRequest, RateQuote, Address } from '../../domain/types';
+import { ErrorCode, CarrierIntegrationError } from '../../domain/errors';
+import { toDecimal, toMoney } from '../../domain/money';
+import { UNIT_SYSTEMS, convertPackage, getUnitSystemForCountry } from '../../domain/units';
+import { HttpClient, HttpRequest } from '../../http/client';
+import { OAuthClient } from '../../auth/oauth';
+import { withSpanSync } from '../../tracing/tracing';
+import { FedExAddress, FedExRateRequest, FedExRateResponse } from './types';
+
+export interface FedExConfig {
+  baseUrl: string;
+  oauthClient: OAuthClient;
+  accountNumber: string;
+}
+
+/**
+ * FedEx transit time enum values (e.g. "TWO_DAYS") mapped to day counts
+ */
+const TRANSIT_DAYS: Record<string, number> = {
+  ONE_DAY: 1,
+  TWO_DAYS: 2,
+  THREE_DAYS: 3,
+  FOUR_DAYS: 4,
+  FIVE_DAYS: 5,
+  SIX_DAYS: 6,
+  SEVEN_DAYS: 7,
+  EIGHT_DAYS: 8,
+  NINE_DAYS: 9,
+  TEN_DAYS: 10,
+};
+
+/**
+ * FedEx service types per service level
+ */
+const FEDEX_SERVICE_CODES: ServiceLevelCodes = {
+  GROUND: ['FEDEX_GROUND', 'GROUND_HOME_DELIVERY'],
+  THREE_DAY: ['FEDEX_EXPRESS_SAVER'],
+  TWO_DAY: ['FEDEX_2_DAY', 'FEDEX_2_DAY_AM'],
+  OVERNIGHT: ['PRIORITY_OVERNIGHT', 'STANDARD_OVERNIGHT', 'FIRST_OVERNIGHT'],
+  EXPRESS: ['INTERNATIONAL_PRIORITY', 'FEDEX_INTERNATIONAL_PRIORITY'],
+  ECONOMY_INTL: ['INTERNATIONAL_ECONOMY'],
+};
+
+/**
+ * FedEx Rate and Transit Times API adapter
+ */
+export class FedExAdapter implements Carrier {
+  constructor(
+    private readonly config: FedExConfig,
+    private readonly httpClient: HttpClient
+  ) {}
+
+  getName(): string {
+    return 'FEDEX';
+  }
+
+  /**
+   * Verify the OAuth credentials by obtaining a token (served from the
+   * token cache while one is valid)
+   */
+  async checkCredentials(): Promise<void> {
+    await this.config.oauthClient.getAccessToken();
+  }
+
+  async getRates(
+    request: RateRequest,
+    options: CarrierRequestOptions = {}
+  ): Promise<RateQuote[]> {
+    // FedEx quotes every service; narrow to the requested level afterwards
+    const serviceCodes = getRequestedServiceCodes(FEDEX_SERVICE_CODES, request);
+    if (serviceCodes?.length === 0) {
+      return [];
+    }
+
+    const fedExRequest = this.transformRequest(request);
+    const accessToken = await this.config.oauthClient.getAccessToken();
+    const httpRequest: HttpRequest = {
+      url: `${this.config.baseUrl}/rate/v1/rates/quotes`,
+      method: 'POST',
+      headers: {
+        Authorization: `Bearer ${accessToken}`,
+        'Content-Type': 'application/json',
+        'X-locale': 'en_US',
+        'x-customer-transaction-id': this.generateTransactionId(),
+      },
+      body: fedExRequest,
+      ...(options.signal && { signal: options.signal }),
+    };
+
+    try {
+      const response = await this.httpClient.request<FedExRateResponse>(
+        httpRequest
+      );
+
+      // Handle HTTP-level errors
+      if (response.status === 401) {
+        // Token might be expired, clear it and retry once
+        this.config.oauthClient.clearToken();
+        const newToken = await this.config.oauthClient.getAccessToken();
+        httpRequest.headers = httpRequest.headers || {};
+        httpRequest.headers.Authorization = `Bearer ${newToken}`;
+        const retryResponse = await this.httpClient.request<FedExRateResponse>(
+          httpRequest
+        );
+        if (retryResponse.status !== 200) {
+          throw new CarrierIntegrationError(
+            ErrorCode.AUTH_FAILED,
+            `FedEx API rejected refreshed token: ${retryResponse.status}`
+          );
+        }
+        return withSpanSync(
+          'carrier.transform_response',
+          () =>
+            filterQuotesByServiceCodes(
+              this.transformResponse(retryResponse.body),
+              serviceCodes
+            ),
+          { attributes: { 'carrier.name': this.getName() } }
+        );
+      }
+
+      if (response.status === 429) {
+        throw new CarrierIntegrationError(
+          ErrorCode.RATE_LIMITED,
+          'FedEx API rate limit exceeded'
+        );
+      }
+
+      if (response.status >= 500) {
+        throw new CarrierIntegrationError(
+          ErrorCode.CARRIER_UNAVAILABLE,
+          `FedEx API returned server error: ${response.status}`
+        );
+      }
+
+      if (response.status !== 200) {
+        // FedEx reports validation failures as 4xx with an errors array
+        const detail = response.body?.errors?.[0]?.message;
+        throw new CarrierIntegrationError(
+          ErrorCode.INVALID_REQUEST,
+          detail
+            ? `FedEx API error: ${detail}`
+            : `FedEx API returned error status: ${response.status}`
+        );
+      }
+
+      return withSpanSync(
+        'carrier.transform_response',
+        () =>
+          filterQuotesByServiceCodes(this.transformResponse(response.body), serviceCodes),
+        { attributes: { 'carrier.name': this.getName() } }
+      );
+    } catch (error) {
+      if (error instanceof CarrierIntegrationError) {
+        throw error;
+      }
+      if (error instanceof Error && error.message === 'Request timeout') {
+        throw new CarrierIntegrationError(
+          ErrorCode.TIMEOUT,
+          'FedEx API request timed out',
+          error
+        );
+      }
+      throw new CarrierIntegrationError(
+        ErrorCode.NETWORK_ERROR,
+        'Network error communicating with FedEx API',
+        error as Error
+      );
+    }
+  }
+
+  /**
+   * Transform domain RateRequest to FedEx API format
+   */
+  private transformRequest(request: RateRequest): FedExRateRequest {
+    const unitSystem = getUnitSystemForCountry(request.origin.country);
+    const units = UNIT_SYSTEMS[unitSystem];
+
+    return {
+      accountNumber: {
+        value: this.config.accountNumber,
+      },
+      rateRequestControlParameters: {
+        returnTransitTimes: true,
+      },
+      requestedShipment: {
+        shipper: {
+          address: this.transformAddress(request.origin),
+        },
+        recipient: {
+          address: this.transformAddress(request.destination),
+        },
+        pickupType: 'DROPOFF_AT_FEDEX_LOCATION',
+        packagingType: 'YOUR_PACKAGING',
+        rateRequestType: ['ACCOUNT', 'LIST'],
+        requestedPackageLineItems: request.packages
+          .map((pkg) => convertPackage(pkg, unitSystem))
+          .map((pkg) => ({
+            weight: {
+              units: units.weight,
+              value: pkg.weight,
+            },
+            ...(pkg.dimensions && {
+              dimensions: {
+                length: pkg.dimensions.length,
+                width: pkg.dimensions.width,
+                height: pkg.dimensions.height,
+                units: units.dimension,
+              },
+            }),
+          })),
+      },
+    };
+  }
+
+  /**
+   * Transform FedEx API response to domain RateQuote[]
+   */
+  private transformResponse(response: FedExRateResponse): RateQuote[] {
+    if (response?.errors && response.errors.length > 0) {
+      throw new CarrierIntegrationError(
+        ErrorCode.INVALID_REQUEST,
+        `FedEx API error: ${response.errors[0].message || 'Unknown FedEx error'}`
+      );
+    }
+
+    if (!response?.output) {
+      throw new CarrierIntegrationError(
+        ErrorCode.MALFORMED_RESPONSE,
+        'FedEx response missing output'
+      );
+    }
+
+    const details = response.output.rateReplyDetails;
+    if (!details || details.length === 0) {
+      return [];
+    }
+
+    return details.map((detail) => {
+      const serviceCode = detail.serviceType || 'UNKNOWN';
+      const serviceName = detail.serviceName || 'Unknown Service';
+
+      // Prefer account (discounted) rates over list rates when both are returned
+      const rated =
+        detail.ratedShipmentDetails?.find((r) => r.rateType === 'ACCOUNT') ||
+        detail.ratedShipmentDetails?.[0];
+
+      if (rated?.totalNetCharge === undefined || rated.totalNetCharge === null) {
+        throw new CarrierIntegrationError(
+          ErrorCode.MALFORMED_RESPONSE,
+          'FedEx response missing charge information'
+        );
+      }
+
+      const cost = Number(rated.totalNetCharge);
+      if (isNaN(cost)) {
+        throw new CarrierIntegrationError(
+          ErrorCode.MALFORMED_RESPONSE,
+          `Invalid cost value: ${rated.totalNetCharge}`
+        );
+      }
+
+      const price = toMoney(cost, rated.currency || 'USD');
+      const list =
+        rated.rateType === 'ACCOUNT'
+          ? detail.ratedShipmentDetails?.find((r) => r.rateType === 'LIST')
+          : undefined;
+      const listCost = list?.totalNetCharge != null ? Number(list.totalNetCharge) : NaN;
+      const listPrice =
+        list && !isNaN(listCost) ? toMoney(listCost, list.currency || price.currency) : undefined;
+      const transitTime = detail.commit?.transitDays?.minimumTransitTime;
+
+      return {
+        carrier: 'FEDEX',
+        serviceLevel: serviceCode,
+        serviceName,
+        totalCost: toDecimal(price),
+        currency: price.currency,
+        ...(listPrice && {
+          publishedCost: toDecimal(listPrice),
+          ...(listPrice.currency !== price.currency && { publishedCurrency: listPrice.currency }),
+        }),
+        estimatedDays: transitTime ? TRANSIT_DAYS[transitTime] : undefined,
+        carrierQuoteId: `${serviceCode}-${Date.now()}`,
+      };
+    });
+  }
+
+  /**
+   * Transform domain Address to FedEx address format
+   */
+  private transformAddress(address: Address): FedExAddress {
+    return {
+      ...(address.street.length > 0 && { streetLines: address.street }),
+      city: address.city,
+      stateOrProvinceCode: address.stateOrProvince,
+      postalCode: address.postalCode,
+      countryCode: address.country,
+    };
+  }
+
+  /**
+   * Generate a unique transaction ID
+   */
+  private generateTransactionId(): string {
+    return `TXN-${Date.now()}-${Math.random().toString(36).substring(7)}`;
+  }
+}
@@ -0,0 +1,174 @@
+/**
+ * Unit tests for FedEx adapter
+ * Exercises request/response mapping against stubbed FedEx endpoints
+ */
+
+import { createFedExAdapter } from '../../config';
+import { StubHttpClient } from '../../http/stub-client';
+import { RateRequest } from '../../domain/types';
+import { ErrorCode } from '../../domain/errors';
+import { FedExAdapter } from './adapter';
+import { setupFedExMocks } from '../../__fixtures__/fedex-mock-helper';
+import { successfulFedExRateResponse } from '../../__fixtures__/fedex-responses';
+
+describe('FedExAdapter Unit Tests', () => {
+  let stubClient: StubHttpClient;
+  let adapter: FedExAdapter;
+  let fedExMocks: ReturnType<typeof setupFedExMocks>;
+
+  const rateRequest: RateRequest = {
+    origin: {
+      street: ['123 Main Street'],
+      city: 'Memphis',
+      stateOrProvince: 'TN',
+      postalCode: '38116',
+      country: 'US',
+    },
+    destination: {
+      street: ['456 Oak Avenue'],
+      city: 'Los Angeles',
+      stateOrProvince: 'CA',
+      postalCode: '90001',
+      country: 'US',
+    },
+    packages: [
+      { weight: 5.5, dimensions: { length: 12, width: 10, height: 8 } },
+      { weight: 3.2 },
+    ],
+  };
+
+  beforeEach(() => {
+    stubClient = new StubHttpClient();
+    fedExMocks = setupFedExMocks(stubClient);
+    adapter = createFedExAdapter(
+      stubClient,
+      { accountNumber: '740561073' },
+      false
+    );
+  });
+
+  it('should map FedEx rate reply details to normalized quotes', async () => {
+    const quotes = await adapter.getRates(rateRequest);
+
+    expect(quotes).toHaveLength(3);
+    expect(quotes[0]).toMatchObject({
+      carrier: 'FEDEX',
+      serviceLevel: 'FEDEX_GROUND',
+      serviceName: 'FedEx Ground',
+      totalCost: 23.4, // ACCOUNT rate preferred over LIST
+      publishedCost: 27.15,
+      currency: 'USD',
+      estimatedDays: 4,
+    });
+    expect(quotes[2]).toMatchObject({
+      serviceLevel: 'PRIORITY_OVERNIGHT',
+      totalCost: 66.9,
+      estimatedDays: 1,
+    });
+  });
+
+  it('should report the list rate in its own currency', async () => {
+    const response = JSON.parse(JSON.stringify(successfulFedExRateResponse));
+    response.output.rateReplyDetails[0].ratedShipmentDetails[1].currency = 'CAD';
+    stubClient.stubUrl(/\/rate\/v1\/rates\/quotes/, {
+      status: 200,
+      headers: { 'content-type': 'application/json' },
+      body: response,
+    });
+
+    const [ground, express] = await adapter.getRates(rateRequest);
+
+    expect(ground).toMatchObject({
+      totalCost: 23.4,
+      currency: 'USD',
+      publishedCost: 27.15,
+      publishedCurrency: 'CAD',
+    });
+    expect(express.publishedCurrency).toBeUndefined();
+  });
+
+  it('should transform domain request to FedEx API format', async () => {
+    await adapter.getRates(rateRequest);
+
+    const [captured] = stubClient.getCapturedRequestsForUrl(/\/rate\/v1\/rates\/quotes/);
+    const body = captured.body as any;
+
+    expect(captured.headers?.Authorization).toMatch(/^Bearer fedex-token-/);
+    expect(body.accountNumber).toEqual({ value: '740561073' });
+    expect(body.requestedShipment.shipper.address).toEqual({
+      streetLines: ['123 Main Street'],
+      city: 'Memphis',
+      stateOrProvinceCode: 'TN',
+      postalCode: '38116',
+      countryCode: 'US',
+    });
+    expect(body.requestedShipment.requestedPackageLineItems).toEqual([
+      {
+        weight: { units: 'LB', value: 5.5 },
+        dimensions: { length: 12, width: 10, height: 8, units: 'IN' },
+      },
+      { weight: { units: 'LB', value: 3.2 } },
+    ]);
+  });
+
+  it('should send metric units for shipments originating outside the US', async () => {
+    await adapter.getRates({
+      ...rateRequest,
+      origin: { ...rateRequest.origin, city: 'Toronto', stateOrProvince: 'ON', postalCode: 'M5V 2T6', country: 'CA' },
+      packages: [
+        { weight: 2, weightUnit: 'KG', dimensions: { length: 30, width: 20, height: 10, unit: 'CM' } },
+        { weight: 10 }, // pounds by default
+      ],
+    });
+
+    const [captured] = stubClient.getCapturedRequestsForUrl(/\/rate\/v1\/rates\/quotes/);
+    expect((captured.body as any).requestedShipment.requestedPackageLineItems).toEqual([
+      {
+        weight: { units: 'KG', value: 2 },
+        dimensions: { length: 30, width: 20, height: 10, units: 'CM' },
+      },
+      { weight: { units: 'KG', value: 4.54 } },
+    ]);
+  });
+
+  it('should only quote services at the requested service level', async () => {
+    const quotes = await adapter.getRates({ ...rateRequest, serviceLevel: 'OVERNIGHT' });
+
+    expect(quotes.map((q) => q.serviceLevel)).toEqual(['PRIORITY_OVERNIGHT']);
+  });
+
+  it('should map HTTP and API errors to structured error codes', async () => {
+    fedExMocks.ratingApi.setup429RateLimited();
+    await expect(adapter.getRates(rateRequest)).rejects.toHaveProperty(
+      'code',
+      ErrorCode.RATE_LIMITED
+    );
+
+    fedExMocks.ratingApi.setup503ServiceUnavailable();
+    await expect(adapter.getRates(rateRequest)).rejects.toHaveProperty(
+      'code',
+      ErrorCode.CARRIER_UNAVAILABLE
+    );
+
+    fedExMocks.ratingApi.setupFedExApiError();
+    await expect(adapter.getRates(rateRequest)).rejects.toMatchObject({
+      code: ErrorCode.INVALID_REQUEST,
+      message: expect.stringContaining('ShippingChargesPayment'),
+    });
+
+    fedExMocks.ratingApi.setupMalformedResponse();
+    await expect(adapter.getRates(rateRequest)).rejects.toHaveProperty(
+      'code',
+      ErrorCode.MALFORMED_RESPONSE
+    );
+  });
+
+  it('should propagate OAuth failures as AUTH_FAILED', async () => {
+    fedExMocks.oauth.setupOAuthError();
+
+    await expect(adapter.getRates(rateRequest)).rejects.toHaveProperty(
+      'code',
+      ErrorCode.AUTH_FAILED
+    );
+  });
+});
@@ -0,0 +1,93 @@
+/**
+ * FedEx API-specific types (internal to FedEx adapter)
+ */
+
+export interface FedExAddress {
+  streetLines?: string[];
+  city: string;
+  stateOrProvinceCode: string;
+  postalCode: string;
+  countryCode: string;
+  residential?: boolean;
+}
+
+export interface FedExRateRequest {
+  accountNumber: {
+    value: string;
+  };
+  rateRequestControlParameters?: {
+    returnTransitTimes?: boolean;
+  };
+  requestedShipment: {
+    shipper: {
+      address: FedExAddress;
+    };
+    recipient: {
+      address: FedExAddress;
+    };
+    serviceType?: string;
+    pickupType: string;
+    packagingType?: string;
+    rateRequestType: string[];
+    requestedPackageLineItems: Array<{
+      weight: {
+        units: string;
+        value: number;
+      };
+      dimensions?: {
+        length: number;
+        width: number;
+        height: number;
+        units: string;
+      };
+    }>;
+  };
+}
+
+export interface FedExRateResponse {
+  transactionId?: string;
+  customerTransactionId?: string;
+  output?: {
+    alerts?: Array<{
+      code?: string;
+      message?: string;
+      alertType?: string;
+    }>;
+    rateReplyDetails?: Array<{
+      serviceType?: string;
+      serviceName?: string;
+      packagingType?: string;
+      ratedShipmentDetails?: Array<{
+        rateType?: string;
+        ratedWeightMethod?: string;
+        totalBaseCharge?: number;
+        totalNetCharge?: number;
+        totalNetFedExCharge?: number;
+        currency?: string;
+        shipmentRateDetail?: {
+          currency?: string;
+          totalSurcharges?: number;
+          surCharges?: Array<{
+            type?: string;
+            description?: string;
+            amount?: number;
+          }>;
+        };
+      }>;
+      commit?: {
+        transitDays?: {
+          description?: string;
+          minimumTransitTime?: string;
+        };
+        dateDetail?: {
+          dayOfWeek?: string;
+          dayFormat?: string;
+        };
+      };
+    }>;
+  };
+  errors?: Array<{
+    code?: string;
+    message?: string;
+  }>;
+}
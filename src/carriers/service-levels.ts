@@ -0,0 +1,32 @@
+/**
+ * Service levels - mapping the domain taxonomy to carrier service codes
+ */
+
+import { RateQuote, RateRequest, ServiceLevel } from '../domain/types';
+
+/**
+ * Carrier service codes at each service level; a carrier with no codes for
+ * a level has no service at that level
+ */
+export type ServiceLevelCodes = Partial<Record<ServiceLevel, readonly string[]>>;
+
+/**
+ * Service codes a rate request is limited to, or undefined when it asks for
+ * every service. An empty list means the carrier cannot serve the request.
+ */
+export function getRequestedServiceCodes(
+  codes: ServiceLevelCodes,
+  request: RateRequest
+): readonly string[] | undefined {
+  return request.serviceLevel ? codes[request.serviceLevel] ?? [] : undefined;
+}
+
+/**
+ * Keep only quotes for the requested service codes
+ */
+export function filterQuotesByServiceCodes(
+  quotes: RateQuote[],
+  serviceCodes: readonly string[] | undefined
+): RateQuote[] {
+  return serviceCodes ? quotes.filter((quote) => serviceCodes.includes(quote.serviceLevel)) : quotes;
+}
@@ -2,12 +2,64 @@
  * UPS adapter - transforms domain models to/from UPS API format
  */
 
-import { Carrier } from '../carrier';
-import { RateRequest, RateQuote, Address, Package } from '../../domain/types';
+import { Carrier, AddressValidator, CarrierRequestOptions } from '../carrier';
+import {
+  ServiceLevelCodes,
+  filterQuotesByServiceCodes,
+  getRequestedServiceCodes,
+} from '../service-levels';
+import {
+  RateRequest,
+  RateQuote,
+  Address,
+  Charge,
+  ChargeType,
+  Money,
+  Package,
+  ShipmentRequest,
+  ShipmentResult,
+  LabelFormat,
+  TrackingEvent,
+  TrackingStatus,
+  AddressValidationResult,
+  AddressClassification,
+  VoidShipmentResult,
+  PickupRequest,
+  PickupResult,
+  PickupDetails,
+  PickupStatus,
+  PickupCancellationResult,
+  TransitTime,
+} from '../../domain/types';
 import { ErrorCode, CarrierIntegrationError } from '../../domain/errors';
+import { UnitSystem, convertPackage, getUnitSystemForCountry } from '../../domain/units';
+import { formatDateInTimeZone, getTimeZoneForAddress } from '../../domain/time-zones';
+import { addMoney, parseMoney, toDecimal } from '../../domain/money';
 import { HttpClient, HttpRequest } from '../../http/client';
 import { OAuthClient } from '../../auth/oauth';
-import { UPSRateRequest, UPSRateResponse } from './types';
+import { withSpanSync } from '../../tracing/tracing';
+import {
+  UPSRateRequest,
+  UPSRateResponse,
+  UPSRatedPackage,
+  UPSCharge,
+  UPSShipmentRequest,
+  UPSShipmentResponse,
+  UPSErrorResponse,
+  UPSTrackActivity,
+  UPSTrackResponse,
+  UPSAddressKeyFormat,
+  UPSAddressClassification,
+  UPSAddressValidationRequest,
+  UPSAddressValidationResponse,
+  UPSVoidShipmentResponse,
+  UPSPickupCreationRequest,
+  UPSPickupCreationResponse,
+  UPSPickupPendingStatusResponse,
+  UPSPickupCancelResponse,
+  UPSTimeInTransitRequest,
+  UPSTimeInTransitResponse,
+} from './types';
 
 export interface UPSConfig {
   baseUrl: string;
@@ -16,9 +68,147 @@ export interface UPSConfig {
 }
 
 /**
- * UPS Rating API adapter
+ * UPS activity status types mapped to normalized tracking statuses
  */
-export class UPSAdapter implements Carrier {
+const TRACKING_STATUS_BY_TYPE: Record<string, TrackingStatus> = {
+  M: TrackingStatus.LABEL_CREATED,
+  MV: TrackingStatus.LABEL_CREATED,
+  P: TrackingStatus.PICKED_UP,
+  I: TrackingStatus.IN_TRANSIT,
+  D: TrackingStatus.DELIVERED,
+  X: TrackingStatus.EXCEPTION,
+  RS: TrackingStatus.RETURNED,
+};
+
+/**
+ * UPS status code for "Out For Delivery" (reported with type I)
+ */
+const OUT_FOR_DELIVERY_STATUS_CODE = '021';
+
+/**
+ * UPS address classification codes
+ */
+const ADDRESS_CLASSIFICATION_BY_CODE: Record<string, AddressClassification> = {
+  '1': 'COMMERCIAL',
+  '2': 'RESIDENTIAL',
+};
+
+/**
+ * UPS itemized charge codes with a normalized charge type; other codes are
+ * reported as ACCESSORIAL with the UPS description
+ */
+const UPS_CHARGE_TYPES: Record<string, ChargeType> = {
+  '270': 'RESIDENTIAL',
+  '375': 'FUEL_SURCHARGE',
+  '376': 'DELIVERY_AREA',
+};
+
+/**
+ * Charge details UPS gives for shipments and packages, published or negotiated
+ */
+type UPSChargeDetails = Pick<
+  UPSRatedPackage,
+  'BaseServiceCharge' | 'ItemizedCharges' | 'ServiceOptionsCharges'
+> & { TotalCharge?: UPSCharge };
+
+interface ChargeLine {
+  type: ChargeType;
+  code?: string;
+  description?: string;
+  price: Money;
+}
+
+/**
+ * UPS unit of measurement codes per unit system
+ */
+const UPS_WEIGHT_UNITS: Record<UnitSystem, 'LBS' | 'KGS'> = {
+  IMPERIAL: 'LBS',
+  METRIC: 'KGS',
+};
+
+const UPS_DIMENSION_UNITS: Record<UnitSystem, string> = {
+  IMPERIAL: 'IN',
+  METRIC: 'CM',
+};
+
+/**
+ * Countries supported by UPS Address Validation (Street Level)
+ */
+const ADDRESS_VALIDATION_COUNTRIES = new Set(['US', 'PR']);
+
+/**
+ * UPS Void API error codes that have a structured domain equivalent
+ */
+const VOID_ERROR_CODES: Record<string, ErrorCode> = {
+  '190101': ErrorCode.VOID_WINDOW_EXPIRED, // Time for voiding has expired
+  '190102': ErrorCode.NOT_FOUND, // No shipment found
+  '190117': ErrorCode.SHIPMENT_IN_TRANSIT, // Package already picked up / in transit
+};
+
+/**
+ * Rating API service codes per service level. Rate mode quotes a single
+ * service, so each level maps to one code.
+ */
+const UPS_SERVICE_CODES: ServiceLevelCodes = {
+  GROUND: ['03'], // Ground
+  THREE_DAY: ['12'], // 3 Day Select
+  TWO_DAY: ['02'], // 2nd Day Air
+  OVERNIGHT: ['01'], // Next Day Air
+  EXPRESS: ['07'], // Worldwide Express
+  ECONOMY_INTL: ['08'], // Worldwide Expedited
+};
+
+/**
+ * UPS Time in Transit service levels mapped to Rating API service codes
+ */
+const RATING_SERVICE_CODE_BY_TRANSIT_LEVEL: Record<string, string> = {
+  GND: '03', // Ground
+  '3DS': '12', // 3 Day Select
+  '2DA': '02', // 2nd Day Air
+  '2DM': '59', // 2nd Day Air A.M.
+  '1DP': '13', // Next Day Air Saver
+  '1DA': '01', // Next Day Air
+  '1DM': '14', // Next Day Air Early
+};
+
+/**
+ * UPS on-call pickup status codes mapped to normalized pickup statuses
+ */
+const PICKUP_STATUS_BY_CODE: Record<string, PickupStatus> = {
+  '001': PickupStatus.SCHEDULED, // Received at dispatch
+  '002': PickupStatus.DISPATCHED, // Dispatched to driver
+  '003': PickupStatus.COMPLETED, // Order successfully completed
+  '004': PickupStatus.FAILED, // Order unsuccessfully completed
+  '005': PickupStatus.DISPATCHED, // Missed commit, updated ETA supplied by driver
+};
+
+/**
+ * Rating API service codes mapped to Pickup API service codes
+ */
+const PICKUP_SERVICE_CODE_BY_RATING_CODE: Record<string, string> = {
+  '01': '001', // Next Day Air
+  '02': '002', // 2nd Day Air
+  '03': '003', // Ground
+  '07': '007', // Worldwide Express
+  '08': '008', // Worldwide Expedited
+  '11': '011', // Standard
+  '12': '012', // 3 Day Select
+  '13': '013', // Next Day Air Saver
+  '14': '014', // Next Day Air Early
+  '54': '054', // Worldwide Express Plus
+  '59': '059', // 2nd Day Air A.M.
+  '65': '065', // Worldwide Saver
+};
+
+/**
+ * UPS pickup service code for Ground, used when no service level is given
+ */
+const DEFAULT_PICKUP_SERVICE_CODE = '003';
+
+/**
+ * UPS Rating, Shipping, Pickup, Tracking and Address Validation API adapter
+ */
+export class UPSAdapter implements Carrier, AddressValidator {
   constructor(
     private readonly config: UPSConfig,
     private readonly httpClient: HttpClient
@@ -28,23 +218,219 @@ export class UPSAdapter implements Carrier {
     return 'UPS';
   }
 
-  async getRates(request: RateRequest): Promise<RateQuote[]> {
-    const upsRequest = this.transformRequest(request);
+  /**
+   * Verify the OAuth credentials by obtaining a token (served from the
+   * token cache while one is valid)
+   */
+  async checkCredentials(): Promise<void> {
+    await this.config.oauthClient.getAccessToken();
+  }
+
+  async getRates(
+    request: RateRequest,
+    options: CarrierRequestOptions = {}
+  ): Promise<RateQuote[]> {
+    if (request.negotiatedRates && !this.config.shipperNumber) {
+      throw new CarrierIntegrationError(
+        ErrorCode.INVALID_REQUEST,
+        'UPS shipper number is required for negotiated rates'
+      );
+    }
+
+    // Rate mode quotes the requested service; Shop mode quotes every service
+    const serviceCodes = getRequestedServiceCodes(UPS_SERVICE_CODES, request);
+    if (serviceCodes?.length === 0) {
+      return [];
+    }
+
+    const serviceCode = serviceCodes?.[0];
+    const upsRequest = this.transformRequest(request, serviceCode);
+    const response = await this.sendRequest<UPSRateResponse>(
+      'POST',
+      `/api/rating/v1/${serviceCode ? 'Rate' : 'Shop'}`,
+      upsRequest,
+      {},
+      {},
+      options.signal
+    );
+    return withSpanSync(
+      'carrier.transform_response',
+      () => filterQuotesByServiceCodes(this.transformResponse(response), serviceCodes),
+      { attributes: { 'carrier.name': this.getName() } }
+    );
+  }
+
+  async getTransitTimes(
+    request: RateRequest,
+    options: CarrierRequestOptions = {}
+  ): Promise<TransitTime[]> {
+    const response = await this.sendRequest<UPSTimeInTransitResponse>(
+      'POST',
+      '/api/shipments/v1/transittimes',
+      this.transformTransitRequest(request),
+      {},
+      {},
+      options.signal
+    );
+    return this.transformTransitResponse(response);
+  }
+
+  async createShipment(request: ShipmentRequest): Promise<ShipmentResult> {
+    if (!this.config.shipperNumber) {
+      throw new CarrierIntegrationError(
+        ErrorCode.INVALID_REQUEST,
+        'UPS shipper number is required to create shipments'
+      );
+    }
+
+    const upsRequest = this.transformShipmentRequest(
+      request,
+      this.config.shipperNumber
+    );
+    const response = await this.sendRequest<UPSShipmentResponse>(
+      'POST',
+      '/api/shipments/v1/ship',
+      upsRequest
+    );
+    return this.transformShipmentResponse(
+      response,
+      request.labelFormat || 'GIF'
+    );
+  }
+
+  async voidShipment(trackingNumber: string): Promise<VoidShipmentResult> {
+    const response = await this.sendRequest<UPSVoidShipmentResponse>(
+      'DELETE',
+      `/api/shipments/v1/void/cancel/${encodeURIComponent(trackingNumber)}`,
+      undefined,
+      VOID_ERROR_CODES
+    );
+    return this.transformVoidResponse(response, trackingNumber);
+  }
+
+  async schedulePickup(request: PickupRequest): Promise<PickupResult> {
+    if (!this.config.shipperNumber) {
+      throw new CarrierIntegrationError(
+        ErrorCode.INVALID_REQUEST,
+        'UPS shipper number is required to schedule pickups'
+      );
+    }
+    if (!request.contact.phone) {
+      throw new CarrierIntegrationError(
+        ErrorCode.INVALID_REQUEST,
+        'A contact phone number is required to schedule UPS pickups'
+      );
+    }
+
+    const response = await this.sendRequest<UPSPickupCreationResponse>(
+      'POST',
+      '/api/pickupcreation/v1/pickup',
+      this.transformPickupRequest(request, this.config.shipperNumber)
+    );
+    return this.transformPickupResponse(response, request.pickupDate);
+  }
+
+  async getPickup(confirmationNumber: string): Promise<PickupDetails> {
+    if (!this.config.shipperNumber) {
+      throw new CarrierIntegrationError(
+        ErrorCode.INVALID_REQUEST,
+        'UPS shipper number is required to query pickups'
+      );
+    }
+
+    // UPS only lists all pending pickups for the account; find ours by PRN
+    const response = await this.sendRequest<UPSPickupPendingStatusResponse>(
+      'GET',
+      '/api/shipments/v1/pickup/oncall',
+      undefined,
+      {},
+      { AccountNumber: this.config.shipperNumber }
+    );
+    return this.transformPickupStatusResponse(response, confirmationNumber);
+  }
+
+  async cancelPickup(confirmationNumber: string): Promise<PickupCancellationResult> {
+    // Cancel by PRN (02); the PRN itself travels in a header
+    const response = await this.sendRequest<UPSPickupCancelResponse>(
+      'DELETE',
+      '/api/shipments/v1/pickup/02',
+      undefined,
+      {},
+      { Prn: confirmationNumber }
+    );
+
+    if (!response.PickupCancelResponse) {
+      throw new CarrierIntegrationError(
+        ErrorCode.MALFORMED_RESPONSE,
+        'UPS response missing PickupCancelResponse'
+      );
+    }
+
+    return {
+      carrier: 'UPS',
+      confirmationNumber,
+      cancelled:
+        response.PickupCancelResponse.Response?.ResponseStatus?.Code === '1',
+    };
+  }
+
+  async trackShipment(trackingNumber: string): Promise<TrackingEvent[]> {
+    const response = await this.sendRequest<UPSTrackResponse>(
+      'GET',
+      `/api/track/v1/details/${encodeURIComponent(trackingNumber)}?locale=en_US`
+    );
+    return this.transformTrackResponse(response, trackingNumber);
+  }
+
+  async validateAddress(address: Address): Promise<AddressValidationResult> {
+    if (!ADDRESS_VALIDATION_COUNTRIES.has(address.country.toUpperCase())) {
+      throw new CarrierIntegrationError(
+        ErrorCode.UNSUPPORTED_OPERATION,
+        `UPS address validation does not support country '${address.country}'`
+      );
+    }
+
+    // Request option 3 = street level validation + residential/commercial classification
+    const response = await this.sendRequest<UPSAddressValidationResponse>(
+      'POST',
+      '/api/addressvalidation/v1/3?maximumcandidatelistsize=5',
+      this.transformAddressValidationRequest(address)
+    );
+    return this.transformAddressValidationResponse(response);
+  }
+
+  /**
+   * Send an authenticated request to a UPS API and map HTTP-level errors
+   *
+   * @param errorCodes - UPS error codes to surface as specific domain error codes
+   * @param headers - Additional operation-specific headers
+   * @param signal - Aborts the request when the caller's deadline passes
+   */
+  private async sendRequest<T>(
+    method: HttpRequest['method'],
+    path: string,
+    body?: unknown,
+    errorCodes: Record<string, ErrorCode> = {},
+    headers: Record<string, string> = {},
+    signal?: AbortSignal
+  ): Promise<T> {
     const accessToken = await this.config.oauthClient.getAccessToken();
     const httpRequest: HttpRequest = {
-      url: `${this.config.baseUrl}/api/rating/v1/Rate`,
-      method: 'POST',
+      url: `${this.config.baseUrl}${path}`,
+      method,
       headers: {
         Authorization: `Bearer ${accessToken}`,
         'Content-Type': 'application/json',
         transId: this.generateTransactionId(),
         transactionSrc: 'carrier-integration-service',
+        ...headers,
       },
-      body: upsRequest,
+      ...(body !== undefined && { body }),
+      ...(signal && { signal }),
     };
 
     try {
-      const response = await this.httpClient.request<UPSRateResponse>(
+      let response = await this.httpClient.request<T & UPSErrorResponse>(
         httpRequest
       );
 
@@ -55,10 +441,22 @@ export class UPSAdapter implements Carrier {
         const newToken = await this.config.oauthClient.getAccessToken();
         httpRequest.headers = httpRequest.headers || {};
         httpRequest.headers.Authorization = `Bearer ${newToken}`;
-        const retryResponse = await this.httpClient.request<UPSRateResponse>(
+        response = await this.httpClient.request<T & UPSErrorResponse>(
           httpRequest
         );
-        return this.transformResponse(retryResponse.body);
+        if (response.status === 401) {
+          throw new CarrierIntegrationError(
+            ErrorCode.AUTH_FAILED,
+            `UPS API rejected refreshed token: ${response.status}`
+          );
+        }
+      }
+
+      if (response.status === 403) {
+        throw new CarrierIntegrationError(
+          ErrorCode.AUTH_FAILED,
+          `UPS API rejected credentials: ${response.status}`
+        );
       }
 
       if (response.status === 429) {
@@ -75,14 +473,33 @@ export class UPSAdapter implements Carrier {
         );
       }
 
-      if (response.status !== 200) {
+      const upsError = response.body?.response?.errors?.[0];
+      const detail = upsError?.message;
+
+      if (upsError?.code && errorCodes[upsError.code]) {
+        throw new CarrierIntegrationError(
+          errorCodes[upsError.code],
+          `UPS API error: ${detail || upsError.code}`
+        );
+      }
+
+      if (response.status === 404) {
+        throw new CarrierIntegrationError(
+          ErrorCode.NOT_FOUND,
+          detail ? `UPS API error: ${detail}` : 'UPS API resource not found'
+        );
+      }
+
+      if (response.status < 200 || response.status >= 300) {
         throw new CarrierIntegrationError(
           ErrorCode.INVALID_REQUEST,
-          `UPS API returned error status: ${response.status}`
+          detail
+            ? `UPS API error: ${detail}`
+            : `UPS API returned error status: ${response.status}`
         );
       }
 
-      return this.transformResponse(response.body);
+      return response.body;
     } catch (error) {
       if (error instanceof CarrierIntegrationError) {
         throw error;
@@ -103,13 +520,16 @@ export class UPSAdapter implements Carrier {
   }
 
   /**
-   * Transform domain RateRequest to UPS API format
+   * Transform domain RateRequest to UPS API format, in Rate mode for a
+   * single service or Shop mode for every service
    */
-  private transformRequest(request: RateRequest): UPSRateRequest {
+  private transformRequest(request: RateRequest, serviceCode?: string): UPSRateRequest {
+    const unitSystem = getUnitSystemForCountry(request.origin.country);
+
     return {
       RateRequest: {
         Request: {
-          RequestOption: 'Rate',
+          RequestOption: serviceCode ? 'Rate' : 'Shop',
         },
         Shipment: {
           Shipper: {
@@ -125,23 +545,12 @@ export class UPSAdapter implements Carrier {
             PackagingType: {
               Code: '02', // Customer Supplied Package
             },
-            ...(pkg.dimensions && {
-              Dimensions: {
-                UnitOfMeasurement: {
-                  Code: 'IN',
-                },
-                Length: pkg.dimensions.length.toString(),
-                Width: pkg.dimensions.width.toString(),
-                Height: pkg.dimensions.height.toString(),
-              },
-            }),
-            PackageWeight: {
-              UnitOfMeasurement: {
-                Code: 'LBS',
-              },
-              Weight: pkg.weight.toString(),
-            },
+            ...this.transformPackageMeasurements(pkg, unitSystem),
           })),
+          ...(serviceCode && { Service: { Code: serviceCode } }),
+          ...(request.negotiatedRates && {
+            ShipmentRatingOptions: { NegotiatedRatesIndicator: 'Y' },
+          }),
         },
       },
     };
@@ -189,34 +598,787 @@ export class UPSAdapter implements Carrier {
         );
       }
 
-      const cost = parseFloat(totalCharges.MonetaryValue);
-      if (isNaN(cost)) {
+      const price = parseMoney(totalCharges.MonetaryValue, totalCharges.CurrencyCode || 'USD');
+      if (!price) {
         throw new CarrierIntegrationError(
           ErrorCode.MALFORMED_RESPONSE,
           `Invalid cost value: ${totalCharges.MonetaryValue}`
         );
       }
 
-      // Estimate delivery days from GuaranteedDelivery if available
-      let estimatedDays: number | undefined;
-      if (shipment.GuaranteedDelivery?.Date) {
-        const deliveryDate = new Date(shipment.GuaranteedDelivery.Date);
-        const now = new Date();
-        const diffTime = deliveryDate.getTime() - now.getTime();
-        estimatedDays = Math.ceil(diffTime / (1000 * 60 * 60 * 24));
-        if (estimatedDays < 0) estimatedDays = undefined;
+      // The shipper pays the contract rate when UPS returns one; the
+      // published rate is kept alongside for comparison. Contract rates can
+      // be billed in the account's currency rather than the published one.
+      const negotiatedCharges = shipment.NegotiatedRateCharges;
+      const negotiatedValue = negotiatedCharges?.TotalCharge?.MonetaryValue;
+      const negotiatedCurrency = negotiatedCharges?.TotalCharge?.CurrencyCode || price.currency;
+      const negotiated = negotiatedValue ? parseMoney(negotiatedValue, negotiatedCurrency) : undefined;
+      if (negotiatedValue && !negotiated) {
+        throw new CarrierIntegrationError(
+          ErrorCode.MALFORMED_RESPONSE,
+          `Invalid negotiated cost value: ${negotiatedValue}`
+        );
       }
 
+      // Business days as reported by UPS; services without a guarantee have
+      // none, and callers can ask for time-in-transit to fill the gap
+      const businessDays = shipment.GuaranteedDelivery?.BusinessDaysInTransit;
+      const estimatedDays = businessDays ? parseInt(businessDays, 10) : undefined;
+
+      const packages = shipment.RatedPackage || [];
+      const charges =
+        negotiated && negotiatedCharges
+          ? this.transformCharges(
+              negotiatedCharges,
+              packages.map((pkg) => pkg.NegotiatedCharges),
+              negotiated.currency
+            )
+          : this.transformCharges(
+              shipment,
+              packages.map((pkg) => ({
+                ...pkg,
+                TotalCharge: pkg.TotalCharges ?? pkg.TransportationCharges,
+              })),
+              price.currency
+            );
+
       return {
         carrier: 'UPS',
         serviceLevel: serviceCode,
         serviceName,
-        totalCost: cost,
-        currency: totalCharges.CurrencyCode || 'USD',
+        totalCost: toDecimal(negotiated ?? price),
+        currency: (negotiated ?? price).currency,
+        ...(negotiated && {
+          publishedCost: toDecimal(price),
+          ...(price.currency !== negotiated.currency && { publishedCurrency: price.currency }),
+        }),
         estimatedDays,
         carrierQuoteId: `${serviceCode}-${Date.now()}`,
+        ...charges,
+      };
+    });
+  }
+
+  /**
+   * Normalize UPS charge details into a shipment breakdown and one per
+   * package. UPS itemizes some surcharges (e.g. fuel) on packages only, so
+   * package lines are summed into the shipment breakdown. Charges the
+   * shipment already reports in total (base, service options, itemized
+   * codes) are not added again from its packages. Per-package charges are
+   * left out unless UPS detailed every package.
+   */
+  private transformCharges(
+    shipment: UPSChargeDetails,
+    packages: Array<UPSChargeDetails | undefined>,
+    currency: string
+  ): Pick<RateQuote, 'charges' | 'packageCharges'> {
+    const itemized = packages.every((pkg) => pkg !== undefined)
+      ? (packages as UPSChargeDetails[])
+      : [];
+    const packageLines = itemized.map((pkg) => this.itemizeCharges(pkg, currency));
+    const shipmentLines = this.itemizeCharges(shipment, currency);
+    const shipmentKeys = new Set(shipmentLines.map((line) => this.chargeKey(line)));
+
+    const charges = this.mergeCharges([
+      ...shipmentLines,
+      ...packageLines.flat().filter((line) => !shipmentKeys.has(this.chargeKey(line))),
+    ]);
+    const packageCharges = itemized.map((pkg, index) => {
+      const total =
+        this.parseCharge(pkg.TotalCharge, currency) ??
+        packageLines[index].reduce((sum, line) => addMoney(sum, line.price), {
+          amount: 0,
+          currency,
+        });
+      return { total: toDecimal(total), charges: this.toCharges(packageLines[index]) };
+    });
+
+    return {
+      ...(charges.length > 0 && { charges: this.toCharges(charges) }),
+      ...(packageCharges.length > 0 && { packageCharges }),
+    };
+  }
+
+  private itemizeCharges(
+    source: UPSChargeDetails,
+    currency: string
+  ): ChargeLine[] {
+    const lines: ChargeLine[] = [];
+
+    const base = this.parseCharge(source.BaseServiceCharge, currency);
+    if (base) {
+      lines.push({ type: 'BASE', price: base });
+    }
+    for (const item of source.ItemizedCharges || []) {
+      const price = this.parseCharge(item, currency);
+      if (price) {
+        lines.push({
+          type: (item.Code && UPS_CHARGE_TYPES[item.Code]) || 'ACCESSORIAL',
+          ...(item.Code && { code: item.Code }),
+          ...(item.Description && { description: item.Description }),
+          price,
+        });
+      }
+    }
+    const serviceOptions = this.parseCharge(source.ServiceOptionsCharges, currency);
+    if (serviceOptions) {
+      lines.push({ type: 'ACCESSORIAL', description: 'Service options', price: serviceOptions });
+    }
+
+    return lines;
+  }
+
+  /**
+   * Sum lines of the same type and code (e.g. fuel surcharge per package)
+   */
+  private mergeCharges(lines: ChargeLine[]): ChargeLine[] {
+    const merged = new Map<string, ChargeLine>();
+    for (const line of lines) {
+      const key = this.chargeKey(line);
+      const existing = merged.get(key);
+      merged.set(key, existing ? { ...existing, price: addMoney(existing.price, line.price) } : line);
+    }
+    return [...merged.values()];
+  }
+
+  private chargeKey(line: ChargeLine): string {
+    return `${line.type}:${line.code ?? line.description ?? ''}`;
+  }
+
+  private toCharges(lines: ChargeLine[]): Charge[] {
+    return lines.map(({ price, ...line }) => ({ ...line, amount: toDecimal(price) }));
+  }
+
+  /**
+   * Charge amount in the quote's currency; zero and unparseable charges
+   * are left out of the breakdown
+   */
+  private parseCharge(charge: UPSCharge | undefined, currency: string): Money | undefined {
+    const price = charge?.MonetaryValue ? parseMoney(charge.MonetaryValue, currency) : undefined;
+    return price && price.amount !== 0 ? price : undefined;
+  }
+
+  /**
+   * Transform domain RateRequest to UPS Time in Transit API format
+   */
+  private transformTransitRequest(request: RateRequest): UPSTimeInTransitRequest {
+    const unitSystem = getUnitSystemForCountry(request.origin.country);
+    const totalWeight = request.packages.reduce(
+      (sum, pkg) => sum + convertPackage(pkg, unitSystem).weight,
+      0
+    );
+
+    return {
+      originCountryCode: request.origin.country,
+      originStateProvince: request.origin.stateOrProvince,
+      originCityName: request.origin.city,
+      originPostalCode: request.origin.postalCode,
+      destinationCountryCode: request.destination.country,
+      destinationStateProvince: request.destination.stateOrProvince,
+      destinationCityName: request.destination.city,
+      destinationPostalCode: request.destination.postalCode,
+      weight: (Math.round(totalWeight * 100) / 100).toString(),
+      weightUnitOfMeasure: UPS_WEIGHT_UNITS[unitSystem],
+      billType: '03', // Non-document
+      // Today at the origin; the server's UTC date is already tomorrow on US evenings
+      shipDate:
+        request.shipDate ??
+        formatDateInTimeZone(new Date(), getTimeZoneForAddress(request.origin)),
+      numberOfPackages: request.packages.length.toString(),
+    };
+  }
+
+  /**
+   * Transform UPS Time in Transit API response to domain TransitTime[]
+   */
+  private transformTransitResponse(response: UPSTimeInTransitResponse): TransitTime[] {
+    if (!response.emsResponse) {
+      // Unresolvable origins/destinations come back as a validation list
+      const invalidFields = response.validationList?.invalidFieldList;
+      if (invalidFields && invalidFields.length > 0) {
+        throw new CarrierIntegrationError(
+          ErrorCode.INVALID_REQUEST,
+          `UPS API error: invalid fields ${invalidFields.join(', ')}`
+        );
+      }
+      throw new CarrierIntegrationError(
+        ErrorCode.MALFORMED_RESPONSE,
+        'UPS response missing emsResponse'
+      );
+    }
+
+    return (response.emsResponse.services || [])
+      .filter((service) => service.serviceLevel && service.businessTransitDays)
+      .map((service) => ({
+        carrier: 'UPS',
+        serviceLevel:
+          RATING_SERVICE_CODE_BY_TRANSIT_LEVEL[service.serviceLevel!] ||
+          service.serviceLevel!,
+        serviceName: service.serviceLevelDescription || 'Unknown Service',
+        businessDays: parseInt(service.businessTransitDays!, 10),
+        ...(service.deliveryDate && { deliveryDate: service.deliveryDate }),
+        ...(service.deliveryTime && { deliveryTime: service.deliveryTime }),
+        ...(service.cstccutoffTime && { cutoffTime: service.cstccutoffTime }),
+        guaranteed: service.guaranteeIndicator === '1',
+      }));
+  }
+
+  /**
+   * Transform domain ShipmentRequest to UPS Shipping API format
+   */
+  private transformShipmentRequest(
+    request: ShipmentRequest,
+    shipperNumber: string
+  ): UPSShipmentRequest {
+    const unitSystem = getUnitSystemForCountry(request.shipper.address.country);
+
+    return {
+      ShipmentRequest: {
+        Request: {
+          RequestOption: 'nonvalidate',
+          ...(request.reference && {
+            TransactionReference: { CustomerContext: request.reference },
+          }),
+        },
+        Shipment: {
+          Shipper: {
+            Name: request.shipper.companyName || request.shipper.name,
+            AttentionName: request.shipper.name,
+            ShipperNumber: shipperNumber,
+            ...(request.shipper.phone && {
+              Phone: { Number: request.shipper.phone },
+            }),
+            ...(request.shipper.email && {
+              EMailAddress: request.shipper.email,
+            }),
+            Address: this.transformAddress(request.shipper.address),
+          },
+          ShipTo: {
+            Name: request.recipient.companyName || request.recipient.name,
+            AttentionName: request.recipient.name,
+            ...(request.recipient.phone && {
+              Phone: { Number: request.recipient.phone },
+            }),
+            ...(request.recipient.email && {
+              EMailAddress: request.recipient.email,
+            }),
+            Address: this.transformAddress(request.recipient.address),
+          },
+          PaymentInformation: {
+            ShipmentCharge: {
+              Type: '01', // Transportation
+              BillShipper: {
+                AccountNumber: shipperNumber,
+              },
+            },
+          },
+          Service: {
+            Code: request.serviceLevel,
+          },
+          ...(request.reference && {
+            ReferenceNumber: { Value: request.reference },
+          }),
+          Package: request.packages.map((pkg) => ({
+            Packaging: {
+              Code: '02', // Customer Supplied Package
+            },
+            ...this.transformPackageMeasurements(pkg, unitSystem),
+          })),
+        },
+        LabelSpecification: {
+          LabelImageFormat: {
+            Code: request.labelFormat || 'GIF',
+          },
+          // Thermal formats need an explicit 4x6 stock size
+          ...(request.labelFormat &&
+            ['ZPL', 'EPL'].includes(request.labelFormat) && {
+              LabelStockSize: { Height: '6', Width: '4' },
+            }),
+        },
+      },
+    };
+  }
+
+  /**
+   * Transform UPS Shipping API response to domain ShipmentResult
+   */
+  private transformShipmentResponse(
+    response: UPSShipmentResponse,
+    labelFormat: LabelFormat
+  ): ShipmentResult {
+    if (!response.ShipmentResponse) {
+      throw new CarrierIntegrationError(
+        ErrorCode.MALFORMED_RESPONSE,
+        'UPS response missing ShipmentResponse'
+      );
+    }
+
+    const shipmentResponse = response.ShipmentResponse;
+
+    if (shipmentResponse.Response?.ResponseStatus?.Code !== '1') {
+      const description =
+        shipmentResponse.Response?.Alert?.[0]?.Description ||
+        shipmentResponse.Response?.ResponseStatus?.Description ||
+        'Unknown UPS error';
+      throw new CarrierIntegrationError(
+        ErrorCode.INVALID_REQUEST,
+        `UPS API error: ${description}`
+      );
+    }
+
+    const results = shipmentResponse.ShipmentResults;
+    const trackingNumber = results?.ShipmentIdentificationNumber;
+    if (!trackingNumber) {
+      throw new CarrierIntegrationError(
+        ErrorCode.MALFORMED_RESPONSE,
+        'UPS response missing ShipmentIdentificationNumber'
+      );
+    }
+
+    const packageResults = Array.isArray(results.PackageResults)
+      ? results.PackageResults
+      : results.PackageResults
+        ? [results.PackageResults]
+        : [];
+
+    const packages = packageResults.map((pkg) => {
+      if (!pkg.TrackingNumber || !pkg.ShippingLabel?.GraphicImage) {
+        throw new CarrierIntegrationError(
+          ErrorCode.MALFORMED_RESPONSE,
+          'UPS response missing package tracking number or label'
+        );
+      }
+      return {
+        trackingNumber: pkg.TrackingNumber,
+        label: {
+          format: (pkg.ShippingLabel.ImageFormat?.Code as LabelFormat) || labelFormat,
+          data: pkg.ShippingLabel.GraphicImage,
+        },
       };
     });
+
+    const totalCharges = results.ShipmentCharges?.TotalCharges;
+    const price = totalCharges?.MonetaryValue
+      ? parseMoney(totalCharges.MonetaryValue, totalCharges.CurrencyCode || 'USD')
+      : undefined;
+
+    return {
+      carrier: 'UPS',
+      trackingNumber,
+      packages,
+      ...(price && {
+        totalCost: toDecimal(price),
+        currency: price.currency,
+      }),
+    };
+  }
+
+  /**
+   * Transform UPS Void API response to domain VoidShipmentResult
+   */
+  private transformVoidResponse(
+    response: UPSVoidShipmentResponse,
+    trackingNumber: string
+  ): VoidShipmentResult {
+    if (!response.VoidShipmentResponse) {
+      throw new CarrierIntegrationError(
+        ErrorCode.MALFORMED_RESPONSE,
+        'UPS response missing VoidShipmentResponse'
+      );
+    }
+
+    const voidResponse = response.VoidShipmentResponse;
+
+    if (voidResponse.Response?.ResponseStatus?.Code !== '1') {
+      throw new CarrierIntegrationError(
+        ErrorCode.INVALID_REQUEST,
+        `UPS API error: ${voidResponse.Response?.ResponseStatus?.Description || 'Unknown UPS error'}`
+      );
+    }
+
+    const status = voidResponse.SummaryResult?.Status;
+    return {
+      carrier: 'UPS',
+      trackingNumber,
+      voided: status?.Code === '1',
+      ...(status?.Description && { status: status.Description }),
+    };
+  }
+
+  /**
+   * Transform domain PickupRequest to UPS Pickup Creation API format
+   */
+  private transformPickupRequest(
+    request: PickupRequest,
+    shipperNumber: string
+  ): UPSPickupCreationRequest {
+    const { contact } = request;
+    const [addressLine, room] = contact.address.street;
+    const unitSystem = getUnitSystemForCountry(contact.address.country);
+    const totalWeight = convertPackage(
+      { weight: request.totalWeight, weightUnit: request.weightUnit },
+      unitSystem
+    ).weight;
+
+    return {
+      PickupCreationRequest: {
+        RatePickupIndicator: 'Y',
+        Shipper: {
+          Account: {
+            AccountNumber: shipperNumber,
+            AccountCountryCode: contact.address.country,
+          },
+        },
+        PickupDateInfo: {
+          CloseTime: request.closeTime.replace(':', ''),
+          ReadyTime: request.readyTime.replace(':', ''),
+          PickupDate: request.pickupDate.replace(/-/g, ''),
+        },
+        PickupAddress: {
+          CompanyName: contact.companyName || contact.name,
+          ContactName: contact.name,
+          AddressLine: addressLine,
+          ...(room && { Room: room }),
+          City: contact.address.city,
+          StateProvince: contact.address.stateOrProvince,
+          PostalCode: contact.address.postalCode,
+          CountryCode: contact.address.country,
+          // Pickups without a company name are treated as residential
+          ResidentialIndicator: contact.companyName ? 'N' : 'Y',
+          Phone: {
+            Number: contact.phone!,
+          },
+        },
+        AlternateAddressIndicator: 'N',
+        PickupPiece: [
+          {
+            ServiceCode: request.serviceLevel
+              ? this.toPickupServiceCode(request.serviceLevel)
+              : DEFAULT_PICKUP_SERVICE_CODE,
+            Quantity: request.packageCount.toString(),
+            DestinationCountryCode: contact.address.country,
+            ContainerCode: '01', // Package
+          },
+        ],
+        TotalWeight: {
+          Weight: totalWeight.toString(),
+          UnitOfMeasurement: UPS_WEIGHT_UNITS[unitSystem],
+        },
+        OverweightIndicator: 'N',
+        PaymentMethod: '01', // Bill the shipper account
+        ...(request.instructions && {
+          SpecialInstruction: request.instructions,
+        }),
+      },
+    };
+  }
+
+  private toPickupServiceCode(serviceLevel: string): string {
+    const serviceCode = PICKUP_SERVICE_CODE_BY_RATING_CODE[serviceLevel];
+    if (!serviceCode) {
+      throw new CarrierIntegrationError(
+        ErrorCode.INVALID_REQUEST,
+        `UPS pickups do not support service level '${serviceLevel}'`
+      );
+    }
+    return serviceCode;
+  }
+
+  /**
+   * Transform UPS Pickup Creation API response to domain PickupResult
+   */
+  private transformPickupResponse(
+    response: UPSPickupCreationResponse,
+    pickupDate: string
+  ): PickupResult {
+    if (!response.PickupCreationResponse) {
+      throw new CarrierIntegrationError(
+        ErrorCode.MALFORMED_RESPONSE,
+        'UPS response missing PickupCreationResponse'
+      );
+    }
+
+    const pickupResponse = response.PickupCreationResponse;
+
+    if (pickupResponse.Response?.ResponseStatus?.Code !== '1') {
+      throw new CarrierIntegrationError(
+        ErrorCode.INVALID_REQUEST,
+        `UPS API error: ${pickupResponse.Response?.ResponseStatus?.Description || 'Unknown UPS error'}`
+      );
+    }
+
+    if (!pickupResponse.PRN) {
+      throw new CarrierIntegrationError(
+        ErrorCode.MALFORMED_RESPONSE,
+        'UPS response missing pickup PRN'
+      );
+    }
+
+    const charge = pickupResponse.RateResult?.GrandTotalOfAllCharge;
+    const price = charge
+      ? parseMoney(charge, pickupResponse.RateResult?.CurrencyCode || 'USD')
+      : undefined;
+
+    return {
+      carrier: 'UPS',
+      confirmationNumber: pickupResponse.PRN,
+      pickupDate,
+      ...(price && {
+        totalCost: toDecimal(price),
+        currency: price.currency,
+      }),
+    };
+  }
+
+  /**
+   * Find a pickup in the UPS pending status response and normalize it
+   */
+  private transformPickupStatusResponse(
+    response: UPSPickupPendingStatusResponse,
+    confirmationNumber: string
+  ): PickupDetails {
+    if (!response.PickupPendingStatusResponse) {
+      throw new CarrierIntegrationError(
+        ErrorCode.MALFORMED_RESPONSE,
+        'UPS response missing PickupPendingStatusResponse'
+      );
+    }
+
+    const pending = response.PickupPendingStatusResponse.PendingStatus;
+    const pickups = Array.isArray(pending) ? pending : pending ? [pending] : [];
+    const pickup = pickups.find(
+      (p) => p.PRN?.toUpperCase() === confirmationNumber.toUpperCase()
+    );
+
+    if (!pickup) {
+      throw new CarrierIntegrationError(
+        ErrorCode.NOT_FOUND,
+        `No pending pickup found for ${confirmationNumber}`
+      );
+    }
+
+    const date = pickup.ServiceDate;
+    return {
+      carrier: 'UPS',
+      confirmationNumber: pickup.PRN!,
+      status:
+        (pickup.OnCallStatusCode && PICKUP_STATUS_BY_CODE[pickup.OnCallStatusCode]) ||
+        PickupStatus.UNKNOWN,
+      ...(date?.length === 8 && {
+        pickupDate: `${date.substring(0, 4)}-${date.substring(4, 6)}-${date.substring(6, 8)}`,
+      }),
+      ...(pickup.PickupStatusMessage && {
+        description: pickup.PickupStatusMessage,
+      }),
+    };
+  }
+
+  /**
+   * Transform UPS Tracking API response to domain TrackingEvent[] (newest first)
+   */
+  private transformTrackResponse(
+    response: UPSTrackResponse,
+    trackingNumber: string
+  ): TrackingEvent[] {
+    if (!response.trackResponse) {
+      throw new CarrierIntegrationError(
+        ErrorCode.MALFORMED_RESPONSE,
+        'UPS response missing trackResponse'
+      );
+    }
+
+    const shipment = response.trackResponse.shipment?.[0];
+    const pkg = shipment?.package?.[0];
+    if (!pkg) {
+      // Unknown tracking numbers come back as 200 with a warning and no package
+      const warning = shipment?.warnings?.[0]?.message;
+      throw new CarrierIntegrationError(
+        ErrorCode.NOT_FOUND,
+        warning
+          ? `UPS API error: ${warning}`
+          : `No tracking information found for ${trackingNumber}`
+      );
+    }
+
+    return (pkg.activity || [])
+      .filter((activity) => activity.date)
+      .map((activity) => {
+        const address = activity.location?.address;
+        const hasLocation =
+          address &&
+          (address.city || address.stateProvince || address.countryCode || address.country);
+
+        return {
+          status: this.mapTrackingStatus(activity.status),
+          description: activity.status?.description?.trim() || 'Unknown',
+          ...(hasLocation && {
+            location: {
+              ...(address.city && { city: address.city }),
+              ...(address.stateProvince && { stateOrProvince: address.stateProvince }),
+              ...(address.postalCode && { postalCode: address.postalCode }),
+              ...((address.countryCode || address.country) && {
+                country: address.countryCode || address.country,
+              }),
+            },
+          }),
+          timestamp: this.formatTrackingTimestamp(activity),
+          ...(activity.status?.statusCode && {
+            carrierStatusCode: activity.status.statusCode,
+          }),
+        };
+      });
+  }
+
+  /**
+   * Map a UPS activity status to a normalized tracking status
+   */
+  private mapTrackingStatus(status: UPSTrackActivity['status']): TrackingStatus {
+    if (status?.statusCode === OUT_FOR_DELIVERY_STATUS_CODE) {
+      return TrackingStatus.OUT_FOR_DELIVERY;
+    }
+    return (status?.type && TRACKING_STATUS_BY_TYPE[status.type]) || TrackingStatus.UNKNOWN;
+  }
+
+  /**
+   * Build an ISO 8601 timestamp, preferring the GMT fields when present
+   */
+  private formatTrackingTimestamp(activity: UPSTrackActivity): string {
+    const toIsoDate = (d: string) =>
+      `${d.substring(0, 4)}-${d.substring(4, 6)}-${d.substring(6, 8)}`;
+
+    if (activity.gmtDate && activity.gmtTime) {
+      return `${toIsoDate(activity.gmtDate)}T${activity.gmtTime}Z`;
+    }
+
+    const time = activity.time || '000000';
+    return `${toIsoDate(activity.date!)}T${time.substring(0, 2)}:${time.substring(2, 4)}:${time.substring(4, 6)}`;
+  }
+
+  /**
+   * Transform domain Address to UPS Address Validation (XAV) format
+   */
+  private transformAddressValidationRequest(
+    address: Address
+  ): UPSAddressValidationRequest {
+    const [primary, extended] = address.postalCode.trim().split('-');
+    return {
+      XAVRequest: {
+        AddressKeyFormat: {
+          AddressLine: address.street,
+          PoliticalDivision2: address.city,
+          PoliticalDivision1: address.stateOrProvince,
+          PostcodePrimaryLow: primary,
+          ...(extended && { PostcodeExtendedLow: extended }),
+          CountryCode: address.country,
+        },
+      },
+    };
+  }
+
+  /**
+   * Transform UPS Address Validation response to domain AddressValidationResult
+   */
+  private transformAddressValidationResponse(
+    response: UPSAddressValidationResponse
+  ): AddressValidationResult {
+    if (!response.XAVResponse) {
+      throw new CarrierIntegrationError(
+        ErrorCode.MALFORMED_RESPONSE,
+        'UPS response missing XAVResponse'
+      );
+    }
+
+    const xav = response.XAVResponse;
+
+    if (xav.Response?.ResponseStatus?.Code !== '1') {
+      throw new CarrierIntegrationError(
+        ErrorCode.INVALID_REQUEST,
+        `UPS API error: ${xav.Response?.ResponseStatus?.Description || 'Unknown UPS error'}`
+      );
+    }
+
+    const rawCandidates = Array.isArray(xav.Candidate)
+      ? xav.Candidate
+      : xav.Candidate
+        ? [xav.Candidate]
+        : [];
+    const candidates = rawCandidates
+      .filter((c) => c.AddressKeyFormat)
+      .map((c) => this.transformAddressKeyFormat(c.AddressKeyFormat!));
+
+    // Indicators are present (as empty strings) when set
+    const valid = xav.ValidAddressIndicator !== undefined && candidates.length > 0;
+    const ambiguous = xav.AmbiguousAddressIndicator !== undefined;
+    const classification = this.mapAddressClassification(
+      (valid && rawCandidates[0].AddressClassification) || xav.AddressClassification
+    );
+
+    return {
+      valid,
+      ambiguous,
+      ...(valid && { correctedAddress: candidates[0] }),
+      classification,
+      candidates,
+    };
+  }
+
+  /**
+   * Transform a UPS AddressKeyFormat to a domain Address
+   */
+  private transformAddressKeyFormat(key: UPSAddressKeyFormat): Address {
+    const street = Array.isArray(key.AddressLine)
+      ? key.AddressLine
+      : key.AddressLine
+        ? [key.AddressLine]
+        : [];
+    return {
+      street,
+      city: key.PoliticalDivision2 || '',
+      stateOrProvince: key.PoliticalDivision1 || '',
+      postalCode: key.PostcodeExtendedLow
+        ? `${key.PostcodePrimaryLow}-${key.PostcodeExtendedLow}`
+        : key.PostcodePrimaryLow || '',
+      country: key.CountryCode || '',
+    };
+  }
+
+  /**
+   * Map a UPS address classification to the domain classification
+   */
+  private mapAddressClassification(
+    classification?: UPSAddressClassification
+  ): AddressClassification {
+    return (
+      (classification?.Code && ADDRESS_CLASSIFICATION_BY_CODE[classification.Code]) ||
+      'UNKNOWN'
+    );
+  }
+
+  /**
+   * Package weight and dimensions in the unit system used at the origin,
+   * shared by the Rating and Shipping APIs
+   */
+  private transformPackageMeasurements(pkg: Package, unitSystem: UnitSystem) {
+    const converted = convertPackage(pkg, unitSystem);
+
+    return {
+      ...(converted.dimensions && {
+        Dimensions: {
+          UnitOfMeasurement: {
+            Code: UPS_DIMENSION_UNITS[unitSystem],
+          },
+          Length: converted.dimensions.length.toString(),
+          Width: converted.dimensions.width.toString(),
+          Height: converted.dimensions.height.toString(),
+        },
+      }),
+      PackageWeight: {
+        UnitOfMeasurement: {
+          Code: UPS_WEIGHT_UNITS[unitSystem],
+        },
+        Weight: converted.weight.toString(),
+      },
+    };
   }
 
   /**
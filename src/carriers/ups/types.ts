@@ -64,6 +64,13 @@ export interface UPSRateRequest {
           Weight: string;
         };
       }>;
+      Service?: {
+        Code: string;
+        Description?: string;
+      };
+      ShipmentRatingOptions?: {
+        NegotiatedRatesIndicator?: string; // "Y" for the shipper's contract rates
+      };
     };
   };
 }
@@ -83,43 +90,439 @@ export interface UPSRateResponse {
         CustomerContext?: string;
       };
     };
-    RatedShipment?: Array<{
-      Service?: {
-        Code?: string;
-        Description?: string;
+    RatedShipment?: UPSRatedShipment[];
+  };
+}
+
+export interface UPSCharge {
+  CurrencyCode?: string;
+  MonetaryValue?: string;
+}
+
+export interface UPSItemizedCharge {
+  Code?: string; // e.g. 375 fuel surcharge, 270 residential, 376 delivery area
+  Description?: string;
+  CurrencyCode?: string;
+  MonetaryValue?: string;
+  SubType?: string;
+}
+
+/**
+ * Contract-rate charges, returned when negotiated rates were requested and
+ * the shipper account has them
+ */
+export interface UPSNegotiatedCharges {
+  BaseServiceCharge?: UPSCharge;
+  ItemizedCharges?: UPSItemizedCharge[];
+  TotalCharge?: UPSCharge;
+}
+
+export interface UPSRatedPackage {
+  TransportationCharges?: UPSCharge;
+  BaseServiceCharge?: UPSCharge;
+  ServiceOptionsCharges?: UPSCharge;
+  TotalCharges?: UPSCharge;
+  ItemizedCharges?: UPSItemizedCharge[];
+  NegotiatedCharges?: UPSNegotiatedCharges;
+}
+
+export interface UPSRatedShipment {
+  Service?: {
+    Code?: string;
+    Description?: string;
+  };
+  RatedShipmentAlert?: Array<{
+    Code?: string;
+    Description?: string;
+  }>;
+  TransportationCharges?: UPSCharge;
+  BaseServiceCharge?: UPSCharge;
+  ServiceOptionsCharges?: UPSCharge;
+  ItemizedCharges?: UPSItemizedCharge[];
+  TotalCharges?: UPSCharge;
+  NegotiatedRateCharges?: UPSNegotiatedCharges;
+  GuaranteedDelivery?: {
+    BusinessDaysInTransit?: string;
+    DeliveryByTime?: string;
+    Date?: string;
+    Time?: string;
+  };
+  ScheduledDeliveryTime?: string;
+  RatedPackage?: UPSRatedPackage[];
+}
+
+export interface UPSShipmentRequest {
+  ShipmentRequest: {
+    Request: {
+      RequestOption: string;
+      TransactionReference?: {
+        CustomerContext?: string;
       };
-      RatedShipmentAlert?: Array<{
-        Code?: string;
+    };
+    Shipment: {
+      Description?: string;
+      Shipper: {
+        Name: string;
+        AttentionName?: string;
+        ShipperNumber: string;
+        Phone?: {
+          Number: string;
+        };
+        EMailAddress?: string;
+        Address: {
+          AddressLine?: string[];
+          City: string;
+          StateProvinceCode: string;
+          PostalCode: string;
+          CountryCode: string;
+        };
+      };
+      ShipTo: {
+        Name: string;
+        AttentionName?: string;
+        Phone?: {
+          Number: string;
+        };
+        EMailAddress?: string;
+        Address: {
+          AddressLine?: string[];
+          City: string;
+          StateProvinceCode: string;
+          PostalCode: string;
+          CountryCode: string;
+        };
+      };
+      PaymentInformation: {
+        ShipmentCharge: {
+          Type: string;
+          BillShipper: {
+            AccountNumber: string;
+          };
+        };
+      };
+      Service: {
+        Code: string;
         Description?: string;
+      };
+      ReferenceNumber?: {
+        Value: string;
+      };
+      Package: Array<{
+        Packaging: {
+          Code: string;
+          Description?: string;
+        };
+        Dimensions?: {
+          UnitOfMeasurement: {
+            Code: string;
+          };
+          Length: string;
+          Width: string;
+          Height: string;
+        };
+        PackageWeight: {
+          UnitOfMeasurement: {
+            Code: string;
+          };
+          Weight: string;
+        };
       }>;
-      TransportationCharges?: {
-        CurrencyCode?: string;
-        MonetaryValue?: string;
+    };
+    LabelSpecification: {
+      LabelImageFormat: {
+        Code: string;
       };
-      TotalCharges?: {
-        CurrencyCode?: string;
-        MonetaryValue?: string;
+      LabelStockSize?: {
+        Height: string;
+        Width: string;
       };
-      GuaranteedDelivery?: {
-        Date?: string;
-        Time?: string;
+    };
+  };
+}
+
+export interface UPSPackageResult {
+  TrackingNumber?: string;
+  ShippingLabel?: {
+    ImageFormat?: {
+      Code?: string;
+    };
+    GraphicImage?: string;
+  };
+}
+
+export interface UPSShipmentResponse {
+  ShipmentResponse?: {
+    Response?: {
+      ResponseStatus?: {
+        Code?: string;
+        Description?: string;
       };
-      ScheduledDeliveryTime?: string;
-      RatedPackage?: Array<{
-        TransportationCharges?: {
-          CurrencyCode?: string;
-          MonetaryValue?: string;
-        };
-        BaseServiceCharge?: {
+      Alert?: Array<{
+        Code?: string;
+        Description?: string;
+      }>;
+    };
+    ShipmentResults?: {
+      ShipmentCharges?: {
+        TotalCharges?: {
           CurrencyCode?: string;
           MonetaryValue?: string;
         };
-        ItemizedCharges?: Array<{
-          Code?: string;
-          Description?: string;
-          MonetaryValue?: string;
-        }>;
+      };
+      ShipmentIdentificationNumber?: string;
+      // UPS returns a single object for one package and an array for several
+      PackageResults?: UPSPackageResult | UPSPackageResult[];
+    };
+  };
+}
+
+/**
+ * Error body returned by UPS REST APIs with non-2xx statuses
+ */
+export interface UPSErrorResponse {
+  response?: {
+    errors?: Array<{
+      code?: string;
+      message?: string;
+    }>;
+  };
+}
+
+export interface UPSTrackActivity {
+  location?: {
+    address?: {
+      city?: string;
+      stateProvince?: string;
+      postalCode?: string;
+      country?: string;
+      countryCode?: string;
+    };
+  };
+  status?: {
+    type?: string; // M (manifest), P (pickup), I (in transit), D (delivered), X (exception), RS (returned)
+    description?: string;
+    code?: string;
+    statusCode?: string;
+  };
+  date?: string; // YYYYMMDD (local)
+  time?: string; // HHMMSS (local)
+  gmtDate?: string; // YYYYMMDD
+  gmtTime?: string; // HH:MM:SS
+  gmtOffset?: string;
+}
+
+export interface UPSTrackResponse {
+  trackResponse?: {
+    shipment?: Array<{
+      inquiryNumber?: string;
+      package?: Array<{
+        trackingNumber?: string;
+        activity?: UPSTrackActivity[];
+      }>;
+      warnings?: Array<{
+        code?: string;
+        message?: string;
       }>;
     }>;
   };
 }
+
+export interface UPSAddressKeyFormat {
+  ConsigneeName?: string;
+  AddressLine?: string | string[];
+  PoliticalDivision2?: string; // city
+  PoliticalDivision1?: string; // state/province
+  PostcodePrimaryLow?: string;
+  PostcodeExtendedLow?: string;
+  Region?: string;
+  CountryCode?: string;
+}
+
+export interface UPSAddressClassification {
+  Code?: string; // 0 = unknown, 1 = commercial, 2 = residential
+  Description?: string;
+}
+
+export interface UPSAddressValidationRequest {
+  XAVRequest: {
+    AddressKeyFormat: UPSAddressKeyFormat;
+  };
+}
+
+export interface UPSAddressValidationResponse {
+  XAVResponse?: {
+    Response?: {
+      ResponseStatus?: {
+        Code?: string;
+        Description?: string;
+      };
+    };
+    ValidAddressIndicator?: string;
+    AmbiguousAddressIndicator?: string;
+    NoCandidatesIndicator?: string;
+    AddressClassification?: UPSAddressClassification;
+    // UPS returns a single object for one candidate and an array for several
+    Candidate?:
+      | {
+          AddressClassification?: UPSAddressClassification;
+          AddressKeyFormat?: UPSAddressKeyFormat;
+        }
+      | Array<{
+          AddressClassification?: UPSAddressClassification;
+          AddressKeyFormat?: UPSAddressKeyFormat;
+        }>;
+  };
+}
+
+export interface UPSVoidShipmentResponse {
+  VoidShipmentResponse?: {
+    Response?: {
+      ResponseStatus?: {
+        Code?: string;
+        Description?: string;
+      };
+    };
+    SummaryResult?: {
+      Status?: {
+        Code?: string; // 1 = voided, 2 = partially voided
+        Description?: string;
+      };
+    };
+  };
+}
+
+export interface UPSPickupCreationRequest {
+  PickupCreationRequest: {
+    RatePickupIndicator: 'Y' | 'N';
+    Shipper: {
+      Account: {
+        AccountNumber: string;
+        AccountCountryCode: string;
+      };
+    };
+    PickupDateInfo: {
+      CloseTime: string; // HHmm
+      ReadyTime: string; // HHmm
+      PickupDate: string; // YYYYMMDD
+    };
+    PickupAddress: {
+      CompanyName: string;
+      ContactName: string;
+      AddressLine: string;
+      Room?: string;
+      City: string;
+      StateProvince: string;
+      PostalCode: string;
+      CountryCode: string;
+      ResidentialIndicator: 'Y' | 'N';
+      Phone: {
+        Number: string;
+      };
+    };
+    AlternateAddressIndicator: 'Y' | 'N';
+    PickupPiece: Array<{
+      ServiceCode: string;
+      Quantity: string;
+      DestinationCountryCode: string;
+      ContainerCode: string;
+    }>;
+    TotalWeight: {
+      Weight: string;
+      UnitOfMeasurement: string;
+    };
+    OverweightIndicator: 'Y' | 'N';
+    PaymentMethod: string;
+    SpecialInstruction?: string;
+  };
+}
+
+export interface UPSPickupCreationResponse {
+  PickupCreationResponse?: {
+    Response?: {
+      ResponseStatus?: {
+        Code?: string;
+        Description?: string;
+      };
+    };
+    PRN?: string;
+    RateStatus?: {
+      Code?: string;
+      Description?: string;
+    };
+    RateResult?: {
+      CurrencyCode?: string;
+      GrandTotalOfAllCharge?: string;
+    };
+  };
+}
+
+export interface UPSPickupPendingStatus {
+  PickupType?: string; // 01 = on-call, 02 = smart pickup
+  ServiceDate?: string; // YYYYMMDD
+  PRN?: string;
+  OnCallStatusCode?: string;
+  PickupStatusMessage?: string;
+}
+
+export interface UPSPickupPendingStatusResponse {
+  PickupPendingStatusResponse?: {
+    Response?: {
+      ResponseStatus?: {
+        Code?: string;
+        Description?: string;
+      };
+    };
+    PendingStatus?: UPSPickupPendingStatus | UPSPickupPendingStatus[];
+  };
+}
+
+export interface UPSPickupCancelResponse {
+  PickupCancelResponse?: {
+    Response?: {
+      ResponseStatus?: {
+        Code?: string;
+        Description?: string;
+      };
+    };
+    PickupType?: string;
+  };
+}
+
+export interface UPSTimeInTransitRequest {
+  originCountryCode: string;
+  originStateProvince?: string;
+  originCityName?: string;
+  originPostalCode?: string;
+  destinationCountryCode: string;
+  destinationStateProvince?: string;
+  destinationCityName?: string;
+  destinationPostalCode?: string;
+  weight: string;
+  weightUnitOfMeasure: 'LBS' | 'KGS';
+  billType: string; // 03 = non-document
+  shipDate: string; // YYYY-MM-DD
+  numberOfPackages: string;
+}
+
+export interface UPSTimeInTransitService {
+  serviceLevel?: string; // e.g. GND, 1DA, 2DA
+  serviceLevelDescription?: string;
+  shipDate?: string;
+  deliveryDate?: string; // YYYY-MM-DD
+  deliveryTime?: string; // HH:mm:ss
+  commitTime?: string;
+  guaranteeIndicator?: string; // "1" when the delivery date is guaranteed
+  businessTransitDays?: string;
+  totalTransitDays?: string;
+  cstccutoffTime?: string; // customer service cutoff, HH:mm:ss
+}
+
+export interface UPSTimeInTransitResponse {
+  validationList?: {
+    invalidFieldList?: string[];
+  };
+  emsResponse?: {
+    shipDate?: string;
+    services?: UPSTimeInTransitService[];
+  };
+}
@@ -0,0 +1,340 @@
+/**
+ * USPS adapter - transforms domain models to/from USPS Prices API format
+ */
+
+import { Carrier, CarrierRequestOptions } from '../carrier';
+import {
+  ServiceLevelCodes,
+  filterQuotesByServiceCodes,
+  getRequestedServiceCodes,
+} from '../service-levels';
+import { RateRequest, RateQuote, Package } from '../../domain/types';
+import { ErrorCode, CarrierIntegrationError } from '../../domain/errors';
+import { convertPackage } from '../../domain/units';
+import { addMoney, toDecimal, toMoney } from '../../domain/money';
+import { HttpClient, HttpRequest } from '../../http/client';
+import { OAuthClient } from '../../auth/oauth';
+import { withSpanSync } from '../../tracing/tracing';
+import {
+  USPSDomesticRateListRequest,
+  USPSInternationalRateListRequest,
+  USPSRateListResponse,
+} from './types';
+
+export interface USPSConfig {
+  baseUrl: string;
+  oauthClient: OAuthClient;
+  priceType?: 'RETAIL' | 'COMMERCIAL';
+}
+
+interface MailClassPrice {
+  mailClass: string;
+  serviceName: string;
+  price: number;
+}
+
+/**
+ * USPS mail classes per service level; USPS has no three-day service
+ */
+const USPS_SERVICE_CODES: ServiceLevelCodes = {
+  GROUND: ['USPS_GROUND_ADVANTAGE'],
+  TWO_DAY: ['PRIORITY_MAIL'],
+  OVERNIGHT: ['PRIORITY_MAIL_EXPRESS'],
+  EXPRESS: ['PRIORITY_MAIL_EXPRESS_INTERNATIONAL'],
+  ECONOMY_INTL: ['PRIORITY_MAIL_INTERNATIONAL', 'FIRST-CLASS_PACKAGE_INTERNATIONAL_SERVICE'],
+};
+
+/**
+ * USPS Domestic / International Prices v3 API adapter
+ *
+ * The USPS pricing APIs rate a single piece at a time, so multi-package
+ * requests are priced per package and summed per mail class.
+ */
+export class USPSAdapter implements Carrier {
+  constructor(
+    private readonly config: USPSConfig,
+    private readonly httpClient: HttpClient
+  ) {}
+
+  getName(): string {
+    return 'USPS';
+  }
+
+  /**
+   * Verify the OAuth credentials by obtaining a token (served from the
+   * token cache while one is valid)
+   */
+  async checkCredentials(): Promise<void> {
+    await this.config.oauthClient.getAccessToken();
+  }
+
+  async getRates(
+    request: RateRequest,
+    options: CarrierRequestOptions = {}
+  ): Promise<RateQuote[]> {
+    // USPS only accepts mail that originates in the US
+    if (request.origin.country.toUpperCase() !== 'US') {
+      return [];
+    }
+
+    const serviceCodes = getRequestedServiceCodes(USPS_SERVICE_CODES, request);
+    if (serviceCodes?.length === 0) {
+      return [];
+    }
+
+    const isDomestic = request.destination.country.toUpperCase() === 'US';
+    const perPackagePrices = await Promise.all(
+      request.packages.map((pkg) =>
+        isDomestic
+          ? this.searchRates(
+              '/prices/v3/base-rates-list/search',
+              this.transformDomesticRequest(request, pkg),
+              options.signal
+            )
+          : this.searchRates(
+              '/international-prices/v3/base-rates-list/search',
+              this.transformInternationalRequest(request, pkg),
+              options.signal
+            )
+      )
+    );
+
+    return withSpanSync(
+      'carrier.transform_response',
+      () =>
+        filterQuotesByServiceCodes(
+          this.combinePackagePrices(
+            perPackagePrices.map((response) => this.transformResponse(response))
+          ),
+          serviceCodes
+        ),
+      { attributes: { 'carrier.name': this.getName() } }
+    );
+  }
+
+  /**
+   * POST a rate-list search, handling auth and HTTP-level errors
+   */
+  private async searchRates(
+    path: string,
+    body: USPSDomesticRateListRequest | USPSInternationalRateListRequest,
+    signal?: AbortSignal
+  ): Promise<USPSRateListResponse> {
+    const accessToken = await this.config.oauthClient.getAccessToken();
+    const httpRequest: HttpRequest = {
+      url: `${this.config.baseUrl}${path}`,
+      method: 'POST',
+      headers: {
+        Authorization: `Bearer ${accessToken}`,
+        'Content-Type': 'application/json',
+      },
+      body,
+      ...(signal && { signal }),
+    };
+
+    try {
+      let response = await this.httpClient.request<USPSRateListResponse>(
+        httpRequest
+      );
+
+      if (response.status === 401) {
+        // Token might be expired, clear it and retry once
+        this.config.oauthClient.clearToken();
+        const newToken = await this.config.oauthClient.getAccessToken();
+        httpRequest.headers = httpRequest.headers || {};
+        httpRequest.headers.Authorization = `Bearer ${newToken}`;
+        response = await this.httpClient.request<USPSRateListResponse>(
+          httpRequest
+        );
+      }
+
+      if (response.status === 401 || response.status === 403) {
+        throw new CarrierIntegrationError(
+          ErrorCode.AUTH_FAILED,
+          `USPS API rejected credentials: ${response.status}`
+        );
+      }
+
+      if (response.status === 429) {
+        throw new CarrierIntegrationError(
+          ErrorCode.RATE_LIMITED,
+          'USPS API rate limit exceeded'
+        );
+      }
+
+      if (response.status >= 500) {
+        throw new CarrierIntegrationError(
+          ErrorCode.CARRIER_UNAVAILABLE,
+          `USPS API returned server error: ${response.status}`
+        );
+      }
+
+      if (response.status !== 200) {
+        const detail =
+          response.body?.error?.errors?.[0]?.detail ||
+          response.body?.error?.message;
+        throw new CarrierIntegrationError(
+          ErrorCode.INVALID_REQUEST,
+          detail
+            ? `USPS API error: ${detail}`
+            : `USPS API returned error status: ${response.status}`
+        );
+      }
+
+      return response.body;
+    } catch (error) {
+      if (error instanceof CarrierIntegrationError) {
+        throw error;
+      }
+      if (error instanceof Error && error.message === 'Request timeout') {
+        throw new CarrierIntegrationError(
+          ErrorCode.TIMEOUT,
+          'USPS API request timed out',
+          error
+        );
+      }
+      throw new CarrierIntegrationError(
+        ErrorCode.NETWORK_ERROR,
+        'Network error communicating with USPS API',
+        error as Error
+      );
+    }
+  }
+
+  /**
+   * Transform domain request + package to a USPS domestic rate-list search
+   */
+  private transformDomesticRequest(
+    request: RateRequest,
+    pkg: Package
+  ): USPSDomesticRateListRequest {
+    return {
+      originZIPCode: this.toZip5(request.origin.postalCode),
+      destinationZIPCode: this.toZip5(request.destination.postalCode),
+      ...this.transformPackage(pkg),
+      priceType: this.config.priceType || 'RETAIL',
+    };
+  }
+
+  /**
+   * Transform domain request + package to a USPS international rate-list search
+   */
+  private transformInternationalRequest(
+    request: RateRequest,
+    pkg: Package
+  ): USPSInternationalRateListRequest {
+    return {
+      originZIPCode: this.toZip5(request.origin.postalCode),
+      foreignPostalCode: request.destination.postalCode,
+      destinationCountryCode: request.destination.country.toUpperCase(),
+      ...this.transformPackage(pkg),
+      priceType: this.config.priceType || 'RETAIL',
+    };
+  }
+
+  /**
+   * USPS expects pounds and inches whatever units the package was given in;
+   * unknown dimensions are sent as 0
+   */
+  private transformPackage(pkg: Package): {
+    weight: number;
+    length: number;
+    width: number;
+    height: number;
+  } {
+    const imperial = convertPackage(pkg, 'IMPERIAL');
+
+    return {
+      weight: imperial.weight,
+      length: imperial.dimensions?.length ?? 0,
+      width: imperial.dimensions?.width ?? 0,
+      height: imperial.dimensions?.height ?? 0,
+    };
+  }
+
+  /**
+   * Transform a USPS rate-list response to the cheapest price per mail class
+   */
+  private transformResponse(response: USPSRateListResponse): MailClassPrice[] {
+    if (!response?.rateOptions) {
+      throw new CarrierIntegrationError(
+        ErrorCode.MALFORMED_RESPONSE,
+        'USPS response missing rateOptions'
+      );
+    }
+
+    const byMailClass = new Map<string, MailClassPrice>();
+    for (const option of response.rateOptions) {
+      const rate = option.rates?.[0];
+      const price = option.totalBasePrice ?? rate?.price;
+      if (!rate?.mailClass || price === undefined) {
+        continue;
+      }
+      if (typeof price !== 'number' || isNaN(price)) {
+        throw new CarrierIntegrationError(
+          ErrorCode.MALFORMED_RESPONSE,
+          `Invalid cost value: ${price}`
+        );
+      }
+
+      const existing = byMailClass.get(rate.mailClass);
+      if (!existing || price < existing.price) {
+        byMailClass.set(rate.mailClass, {
+          mailClass: rate.mailClass,
+          serviceName: rate.productName || rate.description || rate.mailClass,
+          price,
+        });
+      }
+    }
+
+    return [...byMailClass.values()];
+  }
+
+  /**
+   * Sum per-package prices into quotes, keeping only mail classes
+   * that are available for every package in the shipment
+   */
+  private combinePackagePrices(perPackage: MailClassPrice[][]): RateQuote[] {
+    if (perPackage.length === 0) {
+      return [];
+    }
+
+    const [first, ...rest] = perPackage;
+    const quotes: RateQuote[] = [];
+
+    for (const candidate of first) {
+      // Sum in cents to avoid floating point drift across packages
+      let total = toMoney(candidate.price, 'USD');
+      let availableForAll = true;
+      for (const prices of rest) {
+        const match = prices.find((p) => p.mailClass === candidate.mailClass);
+        if (!match) {
+          availableForAll = false;
+          break;
+        }
+        total = addMoney(total, toMoney(match.price, 'USD'));
+      }
+      if (!availableForAll) {
+        continue;
+      }
+
+      quotes.push({
+        carrier: 'USPS',
+        serviceLevel: candidate.mailClass,
+        serviceName: candidate.serviceName,
+        totalCost: toDecimal(total),
+        currency: total.currency,
+        carrierQuoteId: `${candidate.mailClass}-${Date.now()}`,
+      });
+    }
+
+    return quotes;
+  }
+
+  /**
+   * USPS pricing APIs accept 5-digit ZIP codes only
+   */
+  private toZip5(postalCode: string): string {
+    return postalCode.trim().substring(0, 5);
+  }
+}
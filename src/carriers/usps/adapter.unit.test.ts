@@ -0,0 +1,162 @@
+/**
+ * Unit tests for USPS adapter
+ * Exercises domestic/international pricing against stubbed USPS endpoints
+ */
+
+import { createUSPSAdapter } from '../../config';
+import { StubHttpClient } from '../../http/stub-client';
+import { RateRequest } from '../../domain/types';
+import { ErrorCode } from '../../domain/errors';
+import { USPSAdapter } from './adapter';
+import { setupUSPSMocks } from '../../__fixtures__/usps-mock-helper';
+
+describe('USPSAdapter Unit Tests', () => {
+  let stubClient: StubHttpClient;
+  let adapter: USPSAdapter;
+  let uspsMocks: ReturnType<typeof setupUSPSMocks>;
+
+  const domesticRequest: RateRequest = {
+    origin: {
+      street: ['123 Main Street'],
+      city: 'New York',
+      stateOrProvince: 'NY',
+      postalCode: '10001-1234',
+      country: 'US',
+    },
+    destination: {
+      street: ['456 Oak Avenue'],
+      city: 'Los Angeles',
+      stateOrProvince: 'CA',
+      postalCode: '90001',
+      country: 'US',
+    },
+    packages: [{ weight: 5, dimensions: { length: 12, width: 10, height: 8 } }],
+  };
+
+  beforeEach(() => {
+    stubClient = new StubHttpClient();
+    uspsMocks = setupUSPSMocks(stubClient);
+    adapter = createUSPSAdapter(stubClient, undefined, false);
+  });
+
+  it('should return the cheapest price per mail class for domestic shipments', async () => {
+    const quotes = await adapter.getRates(domesticRequest);
+
+    expect(quotes.map((q) => q.serviceLevel)).toEqual([
+      'USPS_GROUND_ADVANTAGE',
+      'PRIORITY_MAIL',
+      'PRIORITY_MAIL_EXPRESS',
+    ]);
+    expect(quotes[1]).toMatchObject({
+      carrier: 'USPS',
+      serviceName: 'Priority Mail',
+      totalCost: 14.8, // machinable option, not the nonstandard 16.10
+      currency: 'USD',
+    });
+
+    const [captured] = stubClient.getCapturedRequestsForUrl(/\/prices\/v3\/base-rates-list\/search/);
+    expect(captured.headers?.Authorization).toMatch(/^Bearer usps-token-/);
+    expect(captured.body).toEqual({
+      originZIPCode: '10001',
+      destinationZIPCode: '90001',
+      weight: 5,
+      length: 12,
+      width: 10,
+      height: 8,
+      priceType: 'RETAIL',
+    });
+  });
+
+  it('should price each package separately and sum per mail class', async () => {
+    const quotes = await adapter.getRates({
+      ...domesticRequest,
+      packages: [{ weight: 5 }, { weight: 2 }],
+    });
+
+    const requests = stubClient.getCapturedRequestsForUrl(/base-rates-list\/search/);
+    expect(requests).toHaveLength(2);
+    expect(quotes.find((q) => q.serviceLevel === 'USPS_GROUND_ADVANTAGE')?.totalCost).toBe(18.7);
+  });
+
+  it('should convert metric packages to pounds and inches', async () => {
+    await adapter.getRates({
+      ...domesticRequest,
+      packages: [{ weight: 2, weightUnit: 'KG', dimensions: { length: 30, width: 20, height: 10, unit: 'CM' } }],
+    });
+
+    const [captured] = stubClient.getCapturedRequestsForUrl(/base-rates-list\/search/);
+    expect(captured.body).toMatchObject({ weight: 4.41, length: 11.81, width: 7.87, height: 3.94 });
+  });
+
+  it('should use the international prices API for non-US destinations', async () => {
+    const quotes = await adapter.getRates({
+      ...domesticRequest,
+      destination: {
+        street: ['10 Downing Street'],
+        city: 'London',
+        stateOrProvince: 'LND',
+        postalCode: 'SW1A 2AA',
+        country: 'GB',
+      },
+    });
+
+    expect(quotes.map((q) => q.serviceLevel)).toEqual([
+      'PRIORITY_MAIL_INTERNATIONAL',
+      'PRIORITY_MAIL_EXPRESS_INTERNATIONAL',
+    ]);
+    const [captured] = stubClient.getCapturedRequestsForUrl(/\/international-prices\/v3\//);
+    expect(captured.body).toMatchObject({
+      foreignPostalCode: 'SW1A 2AA',
+      destinationCountryCode: 'GB',
+    });
+  });
+
+  it('should return no quotes for non-US origins without calling USPS', async () => {
+    const quotes = await adapter.getRates({
+      ...domesticRequest,
+      origin: { ...domesticRequest.origin, country: 'CA' },
+    });
+
+    expect(quotes).toEqual([]);
+    expect(stubClient.getCapturedRequests()).toHaveLength(0);
+  });
+
+  it('should only quote mail classes at the requested service level', async () => {
+    const quotes = await adapter.getRates({ ...domesticRequest, serviceLevel: 'TWO_DAY' });
+
+    expect(quotes.map((q) => q.serviceLevel)).toEqual(['PRIORITY_MAIL']);
+  });
+
+  it('should return no quotes without calling USPS when no mail class has the service level', async () => {
+    const quotes = await adapter.getRates({ ...domesticRequest, serviceLevel: 'THREE_DAY' });
+
+    expect(quotes).toEqual([]);
+    expect(stubClient.getCapturedRequests()).toHaveLength(0);
+  });
+
+  it('should map HTTP and API errors to structured error codes', async () => {
+    uspsMocks.pricesApi.setup429RateLimited();
+    await expect(adapter.getRates(domesticRequest)).rejects.toHaveProperty(
+      'code',
+      ErrorCode.RATE_LIMITED
+    );
+
+    uspsMocks.pricesApi.setup503ServiceUnavailable();
+    await expect(adapter.getRates(domesticRequest)).rejects.toHaveProperty(
+      'code',
+      ErrorCode.CARRIER_UNAVAILABLE
+    );
+
+    uspsMocks.pricesApi.setupUSPSApiError();
+    await expect(adapter.getRates(domesticRequest)).rejects.toMatchObject({
+      code: ErrorCode.INVALID_REQUEST,
+      message: expect.stringContaining('not a valid ZIP Code'),
+    });
+
+    uspsMocks.pricesApi.setupMalformedResponse();
+    await expect(adapter.getRates(domesticRequest)).rejects.toHaveProperty(
+      'code',
+      ErrorCode.MALFORMED_RESPONSE
+    );
+  });
+});
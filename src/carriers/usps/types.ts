@@ -0,0 +1,58 @@
+/**
+ * USPS API-specific types (internal to USPS adapter)
+ * Based on the USPS Domestic and International Prices v3 APIs
+ */
+
+export interface USPSDomesticRateListRequest {
+  originZIPCode: string;
+  destinationZIPCode: string;
+  weight: number;
+  length: number;
+  width: number;
+  height: number;
+  priceType: string;
+  mailingDate?: string;
+}
+
+export interface USPSInternationalRateListRequest {
+  originZIPCode: string;
+  foreignPostalCode: string;
+  destinationCountryCode: string;
+  weight: number;
+  length: number;
+  width: number;
+  height: number;
+  priceType: string;
+  mailingDate?: string;
+}
+
+export interface USPSRate {
+  SKU?: string;
+  description?: string;
+  priceType?: string;
+  price?: number;
+  weight?: number;
+  dimWeight?: number;
+  mailClass?: string;
+  zone?: string;
+  productName?: string;
+  processingCategory?: string;
+  rateIndicator?: string;
+}
+
+export interface USPSRateListResponse {
+  rateOptions?: Array<{
+    totalBasePrice?: number;
+    rates?: USPSRate[];
+  }>;
+  error?: {
+    code?: string;
+    message?: string;
+    errors?: Array<{
+      status?: string;
+      code?: string;
+      title?: string;
+      detail?: string;
+    }>;
+  };
+}
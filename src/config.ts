@@ -3,8 +3,25 @@
  */
 
 import { UPSAdapter, UPSConfig } from './carriers/ups/adapter';
-import { OAuthClient, OAuthConfig } from './auth/oauth';
+import { FedExAdapter } from './carriers/fedex/adapter';
+import { USPSAdapter, USPSConfig } from './carriers/usps/adapter';
+import { DHLAdapter } from './carriers/dhl/adapter';
+import { OAuthClient, OAuthConfig, OAuthHooks } from './auth/oauth';
 import { HttpClient } from './http/client';
+import { RetryingHttpClient, RetryPolicy } from './http/retry';
+import { RateCache, RateCacheStore } from './cache/rate-cache';
+import { InMemoryRateCacheStore } from './cache/memory-store';
+import { FileRateCacheStore } from './cache/file-store';
+import { CircuitBreakerConfig } from './resilience/circuit-breaker';
+import { RateShopTimeouts } from './service';
+import { TenantConfig } from './tenancy/registry';
+import { ApiClientConfig, ApiKeyStore } from './auth/api-keys';
+import { TokenBucketConfig } from './resilience/rate-limiter';
+import { StaticExchangeRateProvider } from './currency/exchange-rates';
+import { readFileSync } from 'fs';
+import { Carrier } from './carriers/carrier';
+import type { SpanExporter } from '@opentelemetry/sdk-trace-base';
+import { loadTracingPackage } from './tracing/tracing';
 
 export interface ServiceConfig {
   ups?: {
@@ -12,6 +29,93 @@ export interface ServiceConfig {
     oauth: OAuthConfig;
     shipperNumber?: string;
   };
+  fedex?: {
+    baseUrl: string;
+    oauth: OAuthConfig;
+    accountNumber: string;
+  };
+  usps?: {
+    baseUrl: string;
+    oauth: OAuthConfig;
+    priceType?: USPSConfig['priceType'];
+  };
+  dhl?: {
+    baseUrl: string;
+    apiKey: string;
+    apiSecret: string;
+    accountNumber: string;
+    dutiesAndTaxesPaid?: boolean;
+  };
+}
+
+/**
+ * Read a numeric setting from the environment, rejecting anything that is
+ * not a positive number (or zero, where allowed) so a typo fails at startup
+ * instead of silently disabling a limit. Returns undefined when unset.
+ */
+export function readNumberEnv(
+  name: string,
+  options: { integer?: boolean; allowZero?: boolean } = {}
+): number | undefined {
+  const raw = process.env[name];
+  if (raw === undefined || raw.trim() === '') {
+    return undefined;
+  }
+
+  const { integer = true, allowZero = false } = options;
+  const value = Number(raw.trim());
+  const valid =
+    Number.isFinite(value) &&
+    (!integer || Number.isInteger(value)) &&
+    (allowZero ? value >= 0 : value > 0);
+  if (!valid) {
+    const kind = integer ? 'integer' : 'number';
+    throw new Error(
+      `${name} must be a ${allowZero ? 'non-negative' : 'positive'} ${kind}, got '${raw}'`
+    );
+  }
+  return value;
+}
+
+/**
+ * UPS endpoints that create resources; replaying them after a timeout or 5xx
+ * could create duplicate shipments or pickups
+ */
+const UPS_NON_IDEMPOTENT_URLS = [
+  /\/api\/shipments\/v1\/ship$/,
+  /\/api\/pickupcreation\//,
+];
+
+/**
+ * Wrap an HTTP client with a carrier's retry policy
+ *
+ * Retries are enabled when a policy override is passed or
+ * <PREFIX>_RETRY_MAX_ATTEMPTS is set; <PREFIX>_RETRY_BASE_DELAY_MS and
+ * <PREFIX>_RETRY_MAX_DELAY_MS tune the backoff.
+ */
+function withCarrierRetry(
+  httpClient: HttpClient,
+  envPrefix: string,
+  retry?: Partial<RetryPolicy>,
+  carrierDefaults: Partial<RetryPolicy> = {}
+): HttpClient {
+  const envPolicy: Partial<RetryPolicy> = {};
+  const maxAttempts = readNumberEnv(`${envPrefix}_RETRY_MAX_ATTEMPTS`);
+  const baseDelayMs = readNumberEnv(`${envPrefix}_RETRY_BASE_DELAY_MS`, { allowZero: true });
+  const maxDelayMs = readNumberEnv(`${envPrefix}_RETRY_MAX_DELAY_MS`, { allowZero: true });
+  if (maxAttempts !== undefined) envPolicy.maxAttempts = maxAttempts;
+  if (baseDelayMs !== undefined) envPolicy.baseDelayMs = baseDelayMs;
+  if (maxDelayMs !== undefined) envPolicy.maxDelayMs = maxDelayMs;
+
+  if (!retry && maxAttempts === undefined) {
+    return httpClient;
+  }
+
+  return new RetryingHttpClient(httpClient, {
+    ...carrierDefaults,
+    ...envPolicy,
+    ...retry,
+  });
 }
 
 /**
@@ -26,7 +130,10 @@ export function createUPSAdapter(
   config?: {
     baseUrl?: string;
     oauth?: OAuthConfig;
+    credentials?: { clientId: string; clientSecret: string }; // instead of UPS_CLIENT_*
     shipperNumber?: string;
+    retry?: Partial<RetryPolicy>;
+    oauthHooks?: OAuthHooks;
   },
   requireCredentials: boolean = true
 ): UPSAdapter {
@@ -34,8 +141,8 @@ export function createUPSAdapter(
     config?.baseUrl || process.env.UPS_BASE_URL || 'https://wwwcie.ups.com';
   const oauthConfig: OAuthConfig = config?.oauth || {
     tokenUrl: process.env.UPS_OAUTH_TOKEN_URL || `${baseUrl}/security/v1/oauth/token`,
-    clientId: process.env.UPS_CLIENT_ID || '',
-    clientSecret: process.env.UPS_CLIENT_SECRET || '',
+    clientId: config?.credentials?.clientId || process.env.UPS_CLIENT_ID || '',
+    clientSecret: config?.credentials?.clientSecret || process.env.UPS_CLIENT_SECRET || '',
     scope: process.env.UPS_OAUTH_SCOPE,
   };
 
@@ -54,14 +161,407 @@ export function createUPSAdapter(
     clientSecret: oauthConfig.clientSecret || 'test-client-secret',
   };
 
-  const oauthClient = new OAuthClient(finalOAuthConfig, httpClient);
+  const carrierHttpClient = withCarrierRetry(httpClient, 'UPS', config?.retry, {
+    nonIdempotentUrls: UPS_NON_IDEMPOTENT_URLS,
+  });
+  const oauthClient = new OAuthClient(finalOAuthConfig, carrierHttpClient, config?.oauthHooks);
+  const shipperNumber =
+    config?.shipperNumber ||
+    process.env.UPS_SHIPPER_NUMBER ||
+    (requireCredentials ? undefined : 'TEST01');
 
   return new UPSAdapter(
     {
       baseUrl,
       oauthClient,
-      shipperNumber: config?.shipperNumber || process.env.UPS_SHIPPER_NUMBER,
+      shipperNumber,
     },
-    httpClient
+    carrierHttpClient
   );
 }
+
+/**
+ * Create a FedEx adapter with configuration from environment variables
+ *
+ * @param httpClient - HTTP client implementation (real or stub)
+ * @param config - Optional configuration override
+ * @param requireCredentials - If true, validates credentials are present (default: true)
+ */
+export function createFedExAdapter(
+  httpClient: HttpClient,
+  config?: {
+    baseUrl?: string;
+    oauth?: OAuthConfig;
+    accountNumber?: string;
+    retry?: Partial<RetryPolicy>;
+    oauthHooks?: OAuthHooks;
+  },
+  requireCredentials: boolean = true
+): FedExAdapter {
+  const baseUrl =
+    config?.baseUrl ||
+    process.env.FEDEX_BASE_URL ||
+    'https://apis-sandbox.fedex.com';
+  const oauthConfig: OAuthConfig = config?.oauth || {
+    tokenUrl: process.env.FEDEX_OAUTH_TOKEN_URL || `${baseUrl}/oauth/token`,
+    clientId: process.env.FEDEX_API_KEY || '',
+    clientSecret: process.env.FEDEX_SECRET_KEY || '',
+  };
+  const accountNumber =
+    config?.accountNumber || process.env.FEDEX_ACCOUNT_NUMBER || '';
+
+  // Only validate credentials if required (production mode)
+  if (
+    requireCredentials &&
+    (!oauthConfig.clientId || !oauthConfig.clientSecret || !accountNumber)
+  ) {
+    throw new Error(
+      'FEDEX_API_KEY, FEDEX_SECRET_KEY and FEDEX_ACCOUNT_NUMBER environment variables are required. ' +
+      'Set CARRIER_MODE=mock to run without credentials.'
+    );
+  }
+
+  // Use default test credentials in mock mode if not provided
+  const finalOAuthConfig: OAuthConfig = {
+    ...oauthConfig,
+    clientId: oauthConfig.clientId || 'test-client-id',
+    clientSecret: oauthConfig.clientSecret || 'test-client-secret',
+  };
+
+  const carrierHttpClient = withCarrierRetry(httpClient, 'FEDEX', config?.retry);
+  const oauthClient = new OAuthClient(finalOAuthConfig, carrierHttpClient, config?.oauthHooks);
+
+  return new FedExAdapter(
+    {
+      baseUrl,
+      oauthClient,
+      accountNumber: accountNumber || 'test-account-number',
+    },
+    carrierHttpClient
+  );
+}
+
+/**
+ * Create a USPS adapter with configuration from environment variables
+ *
+ * @param httpClient - HTTP client implementation (real or stub)
+ * @param config - Optional configuration override
+ * @param requireCredentials - If true, validates credentials are present (default: true)
+ */
+export function createUSPSAdapter(
+  httpClient: HttpClient,
+  config?: {
+    baseUrl?: string;
+    oauth?: OAuthConfig;
+    priceType?: USPSConfig['priceType'];
+    retry?: Partial<RetryPolicy>;
+    oauthHooks?: OAuthHooks;
+  },
+  requireCredentials: boolean = true
+): USPSAdapter {
+  const baseUrl =
+    config?.baseUrl || process.env.USPS_BASE_URL || 'https://apis-tem.usps.com';
+  const oauthConfig: OAuthConfig = config?.oauth || {
+    tokenUrl: process.env.USPS_OAUTH_TOKEN_URL || `${baseUrl}/oauth2/v3/token`,
+    clientId: process.env.USPS_CLIENT_ID || '',
+    clientSecret: process.env.USPS_CLIENT_SECRET || '',
+  };
+
+  // Only validate credentials if required (production mode)
+  if (requireCredentials && (!oauthConfig.clientId || !oauthConfig.clientSecret)) {
+    throw new Error(
+      'USPS_CLIENT_ID and USPS_CLIENT_SECRET environment variables are required. ' +
+      'Set CARRIER_MODE=mock to run without credentials.'
+    );
+  }
+
+  // Use default test credentials in mock mode if not provided
+  const finalOAuthConfig: OAuthConfig = {
+    ...oauthConfig,
+    clientId: oauthConfig.clientId || 'test-client-id',
+    clientSecret: oauthConfig.clientSecret || 'test-client-secret',
+  };
+
+  const carrierHttpClient = withCarrierRetry(httpClient, 'USPS', config?.retry);
+  const oauthClient = new OAuthClient(finalOAuthConfig, carrierHttpClient, config?.oauthHooks);
+  const priceType =
+    config?.priceType ||
+    (process.env.USPS_PRICE_TYPE === 'COMMERCIAL' ? 'COMMERCIAL' : 'RETAIL');
+
+  return new USPSAdapter(
+    {
+      baseUrl,
+      oauthClient,
+      priceType,
+    },
+    carrierHttpClient
+  );
+}
+
+/**
+ * Create a DHL Express adapter with configuration from environment variables
+ *
+ * @param httpClient - HTTP client implementation (real or stub)
+ * @param config - Optional configuration override
+ * @param requireCredentials - If true, validates credentials are present (default: true)
+ */
+export function createDHLAdapter(
+  httpClient: HttpClient,
+  config?: {
+    baseUrl?: string;
+    apiKey?: string;
+    apiSecret?: string;
+    accountNumber?: string;
+    dutiesAndTaxesPaid?: boolean;
+    retry?: Partial<RetryPolicy>;
+  },
+  requireCredentials: boolean = true
+): DHLAdapter {
+  const baseUrl =
+    config?.baseUrl ||
+    process.env.DHL_BASE_URL ||
+    'https://express.api.dhl.com/mydhlapi/test';
+  const apiKey = config?.apiKey || process.env.DHL_API_KEY || '';
+  const apiSecret = config?.apiSecret || process.env.DHL_API_SECRET || '';
+  const accountNumber =
+    config?.accountNumber || process.env.DHL_ACCOUNT_NUMBER || '';
+
+  // Only validate credentials if required (production mode)
+  if (requireCredentials && (!apiKey || !apiSecret || !accountNumber)) {
+    throw new Error(
+      'DHL_API_KEY, DHL_API_SECRET and DHL_ACCOUNT_NUMBER environment variables are required. ' +
+      'Set CARRIER_MODE=mock to run without credentials.'
+    );
+  }
+
+  // Use default test credentials in mock mode if not provided
+  return new DHLAdapter(
+    {
+      baseUrl,
+      apiKey: apiKey || 'test-api-key',
+      apiSecret: apiSecret || 'test-api-secret',
+      accountNumber: accountNumber || 'test-account-number',
+      dutiesAndTaxesPaid:
+        config?.dutiesAndTaxesPaid ?? process.env.DHL_DUTIES_TAXES_PAID === 'true',
+    },
+    withCarrierRetry(httpClient, 'DHL', config?.retry)
+  );
+}
+
+/**
+ * Create a rate cache with configuration from environment variables
+ *
+ * Caching is opt-in: returns undefined unless a positive TTL is configured
+ * (RATE_CACHE_TTL_SECONDS or config.ttlSeconds).
+ *
+ * @param config - Optional configuration override
+ */
+export function createRateCache(config?: {
+  ttlSeconds?: number;
+  store?: 'memory' | 'file';
+  maxEntries?: number;
+  filePath?: string;
+}): RateCache | undefined {
+  const ttlSeconds =
+    config?.ttlSeconds ?? readNumberEnv('RATE_CACHE_TTL_SECONDS', { allowZero: true });
+  if (!ttlSeconds || ttlSeconds <= 0) {
+    return undefined;
+  }
+
+  const storeType = config?.store || process.env.RATE_CACHE_STORE || 'memory';
+  let store: RateCacheStore;
+  if (storeType === 'file') {
+    store = new FileRateCacheStore(
+      config?.filePath || process.env.RATE_CACHE_FILE || '.cache/rates.json'
+    );
+  } else {
+    store = new InMemoryRateCacheStore(
+      config?.maxEntries ?? readNumberEnv('RATE_CACHE_MAX_ENTRIES') ?? 1000
+    );
+  }
+
+  return new RateCache(store, { ttlMs: ttlSeconds * 1000 });
+}
+
+/**
+ * Create per-carrier circuit breaker settings from environment variables
+ *
+ * Enabled by default; set CIRCUIT_BREAKER_ENABLED=false to disable.
+ */
+export function createCircuitBreakerConfig(): Partial<CircuitBreakerConfig> | undefined {
+  if (process.env.CIRCUIT_BREAKER_ENABLED === 'false') {
+    return undefined;
+  }
+
+  const config: Partial<CircuitBreakerConfig> = {};
+  const failureThreshold = readNumberEnv('CIRCUIT_BREAKER_FAILURE_THRESHOLD');
+  const cooldownMs = readNumberEnv('CIRCUIT_BREAKER_COOLDOWN_MS');
+  if (failureThreshold !== undefined) {
+    config.failureThreshold = failureThreshold;
+  }
+  if (cooldownMs !== undefined) {
+    config.cooldownMs = cooldownMs;
+  }
+  return config;
+}
+
+/**
+ * Create rate shopping time budgets from environment variables
+ *
+ * RATE_SHOP_DEADLINE_MS caps the whole request, RATE_SHOP_CARRIER_TIMEOUT_MS
+ * each carrier, and <CARRIER>_RATE_TIMEOUT_MS overrides it per carrier.
+ * Returns undefined (wait for every carrier) when none are set.
+ */
+export function createRateShopTimeouts(): RateShopTimeouts | undefined {
+  const timeouts: RateShopTimeouts = {};
+  const deadlineMs = readNumberEnv('RATE_SHOP_DEADLINE_MS');
+  const carrierMs = readNumberEnv('RATE_SHOP_CARRIER_TIMEOUT_MS');
+  if (deadlineMs !== undefined) {
+    timeouts.deadlineMs = deadlineMs;
+  }
+  if (carrierMs !== undefined) {
+    timeouts.carrierMs = carrierMs;
+  }
+  for (const carrier of ['UPS', 'FEDEX', 'USPS', 'DHL']) {
+    const value = readNumberEnv(`${carrier}_RATE_TIMEOUT_MS`);
+    if (value !== undefined) {
+      timeouts.perCarrierMs = { ...timeouts.perCarrierMs, [carrier]: value };
+    }
+  }
+  return Object.keys(timeouts).length > 0 ? timeouts : undefined;
+}
+
+/**
+ * Create the span exporter selected by TRACING_EXPORTER ("console" or
+ * "memory"). Tracing stays disabled when unset, and the SDK is only loaded
+ * when it is set.
+ */
+export function createSpanExporter(): SpanExporter | undefined {
+  const exporter = (process.env.TRACING_EXPORTER || '').toLowerCase();
+  if (exporter !== 'console' && exporter !== 'memory') {
+    return undefined;
+  }
+
+  const sdk = loadTracingPackage<typeof import('@opentelemetry/sdk-trace-base')>(
+    '@opentelemetry/sdk-trace-base'
+  );
+  return exporter === 'console' ? new sdk.ConsoleSpanExporter() : new sdk.InMemorySpanExporter();
+}
+
+/**
+ * Read tenants from the environment: TENANTS lists tenant IDs, and each
+ * tenant's settings use the prefix TENANT_<ID>_ (ID upper-cased, other
+ * characters replaced by "_"), e.g. TENANT_BRAND_A_UPS_CLIENT_ID
+ */
+export function createTenantConfigs(): TenantConfig[] {
+  const tenantIds = (process.env.TENANTS || '')
+    .split(',')
+    .map((id) => id.trim())
+    .filter(Boolean);
+
+  return tenantIds.map((id) => {
+    const prefix = `TENANT_${id.toUpperCase().replace(/[^A-Z0-9]/g, '_')}`;
+    const env = (name: string) => process.env[`${prefix}_${name}`];
+    const tenant: TenantConfig = { id };
+
+    // A tenant's UPS account never falls back to the default shipper number
+    const upsClientId = env('UPS_CLIENT_ID');
+    const upsClientSecret = env('UPS_CLIENT_SECRET');
+    const upsShipperNumber = env('UPS_SHIPPER_NUMBER');
+    if (upsClientId || upsClientSecret || upsShipperNumber) {
+      if (!upsClientId || !upsClientSecret || !upsShipperNumber) {
+        throw new Error(
+          `${prefix}_UPS_CLIENT_ID, ${prefix}_UPS_CLIENT_SECRET and ` +
+            `${prefix}_UPS_SHIPPER_NUMBER must be set together`
+        );
+      }
+      tenant.ups = {
+        clientId: upsClientId,
+        clientSecret: upsClientSecret,
+        shipperNumber: upsShipperNumber,
+      };
+    }
+    return tenant;
+  });
+}
+
+/**
+ * Build the carriers a tenant has its own accounts for: a UPS adapter (own
+ * OAuth token cache and shipper number) when it has a UPS account. The
+ * service uses its default carriers for everything else.
+ *
+ * @param tenant - Tenant configuration
+ * @param httpClient - HTTP client implementation (real or stub)
+ * @param options - Optional UPS factory settings shared by all tenants
+ */
+export function createTenantCarriers(
+  tenant: TenantConfig,
+  httpClient: HttpClient,
+  options?: { baseUrl?: string; retry?: Partial<RetryPolicy>; oauthHooks?: OAuthHooks }
+): Carrier[] {
+  if (!tenant.ups) {
+    return [];
+  }
+
+  return [
+    createUPSAdapter(httpClient, {
+      ...options,
+      credentials: { clientId: tenant.ups.clientId, clientSecret: tenant.ups.clientSecret },
+      shipperNumber: tenant.ups.shipperNumber,
+    }),
+  ];
+}
+
+/**
+ * Load API clients from API_KEYS_FILE (a JSON file) or API_KEYS (the same JSON
+ * inline): an array of { id, keyHash, scopes?, tenantId?, rateLimit? } where
+ * keyHash is the hex SHA-256 of the key. Authentication is off when neither is set.
+ */
+export function createApiKeyStore(): ApiKeyStore | undefined {
+  const source = process.env.API_KEYS_FILE
+    ? readFileSync(process.env.API_KEYS_FILE, 'utf8')
+    : process.env.API_KEYS;
+  if (!source) {
+    return undefined;
+  }
+
+  const clients = JSON.parse(source) as ApiClientConfig[];
+  if (!Array.isArray(clients)) {
+    throw new Error('API key configuration must be a JSON array of clients');
+  }
+  return new ApiKeyStore(clients);
+}
+
+/**
+ * Default per-client rate limit from RATE_LIMIT_CAPACITY (burst) and
+ * RATE_LIMIT_REFILL_PER_SECOND (sustained rate)
+ */
+export function createRateLimitConfig(): Partial<TokenBucketConfig> {
+  const config: Partial<TokenBucketConfig> = {};
+  const capacity = readNumberEnv('RATE_LIMIT_CAPACITY');
+  const refillPerSecond = readNumberEnv('RATE_LIMIT_REFILL_PER_SECOND', { integer: false });
+  if (capacity !== undefined) {
+    config.capacity = capacity;
+  }
+  if (refillPerSecond !== undefined) {
+    config.refillPerSecond = refillPerSecond;
+  }
+  return config;
+}
+
+/**
+ * Static exchange rates from EXCHANGE_RATES, a JSON object of units per one
+ * EXCHANGE_RATES_BASE (default USD), e.g. {"EUR":0.92,"CAD":1.36}.
+ * Currency conversion is off when unset.
+ */
+export function createExchangeRateProvider(): StaticExchangeRateProvider | undefined {
+  if (!process.env.EXCHANGE_RATES) {
+    return undefined;
+  }
+
+  const rates = JSON.parse(process.env.EXCHANGE_RATES) as Record<string, number>;
+  if (typeof rates !== 'object' || rates === null || Array.isArray(rates)) {
+    throw new Error('EXCHANGE_RATES must be a JSON object of currency rates');
+  }
+  return new StaticExchangeRateProvider(rates, process.env.EXCHANGE_RATES_BASE || 'USD');
+}
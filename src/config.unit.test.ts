@@ -0,0 +1,76 @@
+/**
+ * Unit tests for reading settings from the environment
+ */
+
+import {
+  createCircuitBreakerConfig,
+  createRateCache,
+  createRateLimitConfig,
+  createRateShopTimeouts,
+} from './config';
+
+describe('Config Unit Tests', () => {
+  const VARIABLES = [
+    'RATE_CACHE_TTL_SECONDS',
+    'RATE_CACHE_MAX_ENTRIES',
+    'CIRCUIT_BREAKER_FAILURE_THRESHOLD',
+    'RATE_SHOP_CARRIER_TIMEOUT_MS',
+    'UPS_RATE_TIMEOUT_MS',
+    'RATE_LIMIT_CAPACITY',
+    'RATE_LIMIT_REFILL_PER_SECOND',
+  ];
+  const originalEnv: Record<string, string | undefined> = {};
+
+  beforeEach(() => {
+    for (const name of VARIABLES) {
+      originalEnv[name] = process.env[name];
+      delete process.env[name];
+    }
+  });
+
+  afterEach(() => {
+    for (const name of VARIABLES) {
+      if (originalEnv[name] === undefined) {
+        delete process.env[name];
+      } else {
+        process.env[name] = originalEnv[name];
+      }
+    }
+  });
+
+  it('should read numeric settings from the environment', () => {
+    process.env.CIRCUIT_BREAKER_FAILURE_THRESHOLD = '3';
+    process.env.RATE_SHOP_CARRIER_TIMEOUT_MS = '1500';
+    process.env.UPS_RATE_TIMEOUT_MS = '1800';
+    process.env.RATE_LIMIT_CAPACITY = '60';
+    process.env.RATE_LIMIT_REFILL_PER_SECOND = '0.5';
+
+    expect(createCircuitBreakerConfig()).toEqual({ failureThreshold: 3 });
+    expect(createRateShopTimeouts()).toEqual({ carrierMs: 1500, perCarrierMs: { UPS: 1800 } });
+    expect(createRateLimitConfig()).toEqual({ capacity: 60, refillPerSecond: 0.5 });
+  });
+
+  it('should reject non-numeric and non-positive settings at startup', () => {
+    process.env.RATE_CACHE_TTL_SECONDS = '300';
+    process.env.RATE_CACHE_MAX_ENTRIES = 'lots';
+    expect(() => createRateCache()).toThrow(
+      "RATE_CACHE_MAX_ENTRIES must be a positive integer, got 'lots'"
+    );
+
+    process.env.CIRCUIT_BREAKER_FAILURE_THRESHOLD = '0';
+    expect(() => createCircuitBreakerConfig()).toThrow('CIRCUIT_BREAKER_FAILURE_THRESHOLD');
+
+    process.env.UPS_RATE_TIMEOUT_MS = '1.5s';
+    expect(() => createRateShopTimeouts()).toThrow('UPS_RATE_TIMEOUT_MS');
+
+    process.env.RATE_LIMIT_REFILL_PER_SECOND = '-1';
+    expect(() => createRateLimitConfig()).toThrow(
+      "RATE_LIMIT_REFILL_PER_SECOND must be a positive number, got '-1'"
+    );
+  });
+
+  it('should keep the rate cache off when its TTL is zero', () => {
+    process.env.RATE_CACHE_TTL_SECONDS = '0';
+    expect(createRateCache()).toBeUndefined();
+  });
+});
@@ -0,0 +1,85 @@
+/**
+ * Exchange rates for converting quotes to a display currency
+ */
+
+import { Money } from '../domain/types';
+import { ErrorCode, CarrierIntegrationError } from '../domain/errors';
+import { getCurrencyExponent } from '../domain/money';
+
+/**
+ * Source of exchange rates; implement this to plug in a live rates feed
+ */
+export interface ExchangeRateProvider {
+  /**
+   * Units of `to` per one unit of `from`. Throws INVALID_REQUEST when
+   * either currency is unknown.
+   */
+  getRate(from: string, to: string): Promise<number>;
+  /**
+   * Whether the provider has rates for the currency, so requests for an
+   * unknown display currency fail before any carrier is called
+   */
+  hasCurrency(currency: string): Promise<boolean>;
+}
+
+/**
+ * Fixed rates relative to a base currency, for offline use and tests
+ */
+export class StaticExchangeRateProvider implements ExchangeRateProvider {
+  private readonly rates = new Map<string, number>();
+
+  /**
+   * @param rates units of each currency per one unit of base,
+   *   e.g. { EUR: 0.92, CAD: 1.36 } with base 'USD'
+   */
+  constructor(rates: Record<string, number>, base = 'USD') {
+    this.rates.set(base.toUpperCase(), 1);
+    for (const [currency, rate] of Object.entries(rates)) {
+      if (!Number.isFinite(rate) || rate <= 0) {
+        throw new Error(`Exchange rate for ${currency} must be a positive number`);
+      }
+      this.rates.set(currency.toUpperCase(), rate);
+    }
+  }
+
+  async getRate(from: string, to: string): Promise<number> {
+    return this.getBaseRate(to) / this.getBaseRate(from);
+  }
+
+  async hasCurrency(currency: string): Promise<boolean> {
+    return this.rates.has(currency.toUpperCase());
+  }
+
+  getCurrencies(): string[] {
+    return [...this.rates.keys()];
+  }
+
+  private getBaseRate(currency: string): number {
+    const rate = this.rates.get(currency.toUpperCase());
+    if (rate === undefined) {
+      throw new CarrierIntegrationError(
+        ErrorCode.INVALID_REQUEST,
+        `No exchange rate for currency '${currency}'`
+      );
+    }
+    return rate;
+  }
+}
+
+/**
+ * Convert an amount to another currency, rounding to its minor unit
+ */
+export async function convertMoney(
+  money: Money,
+  currency: string,
+  provider: ExchangeRateProvider
+): Promise<Money> {
+  const target = currency.toUpperCase();
+  if (money.currency === target) {
+    return money;
+  }
+
+  const rate = await provider.getRate(money.currency, target);
+  const scale = 10 ** (getCurrencyExponent(target) - getCurrencyExponent(money.currency));
+  return { amount: Math.round(money.amount * rate * scale), currency: target };
+}
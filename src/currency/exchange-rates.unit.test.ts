@@ -0,0 +1,44 @@
+/**
+ * Unit tests for exchange rates and money conversion
+ */
+
+import { StaticExchangeRateProvider, convertMoney } from './exchange-rates';
+import { ErrorCode } from '../domain/errors';
+
+describe('Exchange Rates Unit Tests', () => {
+  const provider = new StaticExchangeRateProvider({ EUR: 0.92, CAD: 1.36, JPY: 150 });
+
+  it('should derive cross rates from the base currency', async () => {
+    expect(await provider.getRate('USD', 'EUR')).toBe(0.92);
+    expect(await provider.getRate('EUR', 'USD')).toBeCloseTo(1 / 0.92, 10);
+    expect(await provider.getRate('CAD', 'EUR')).toBeCloseTo(0.92 / 1.36, 10);
+    expect(await provider.getRate('usd', 'usd')).toBe(1);
+    expect(provider.getCurrencies()).toEqual(['USD', 'EUR', 'CAD', 'JPY']);
+    expect(await provider.hasCurrency('eur')).toBe(true);
+    expect(await provider.hasCurrency('GBP')).toBe(false);
+  });
+
+  it('should reject unknown currencies and invalid rates', async () => {
+    await expect(provider.getRate('USD', 'GBP')).rejects.toMatchObject({
+      code: ErrorCode.INVALID_REQUEST,
+      message: "No exchange rate for currency 'GBP'",
+    });
+    expect(() => new StaticExchangeRateProvider({ EUR: 0 })).toThrow(
+      'Exchange rate for EUR must be a positive number'
+    );
+  });
+
+  it('should convert between minor units and round to the target currency', async () => {
+    expect(await convertMoney({ amount: 2550, currency: 'USD' }, 'EUR', provider)).toEqual({
+      amount: 2346,
+      currency: 'EUR',
+    });
+    expect(await convertMoney({ amount: 2550, currency: 'USD' }, 'jpy', provider)).toEqual({
+      amount: 3825,
+      currency: 'JPY',
+    });
+
+    const unchanged = { amount: 100, currency: 'EUR' };
+    expect(await convertMoney(unchanged, 'EUR', provider)).toBe(unchanged);
+  });
+});
@@ -4,12 +4,18 @@
 
 export enum ErrorCode {
   AUTH_FAILED = 'AUTH_FAILED',
+  FORBIDDEN = 'FORBIDDEN',
   RATE_LIMITED = 'RATE_LIMITED',
   INVALID_REQUEST = 'INVALID_REQUEST',
   CARRIER_UNAVAILABLE = 'CARRIER_UNAVAILABLE',
   MALFORMED_RESPONSE = 'MALFORMED_RESPONSE',
   NETWORK_ERROR = 'NETWORK_ERROR',
   TIMEOUT = 'TIMEOUT',
+  UNSUPPORTED_OPERATION = 'UNSUPPORTED_OPERATION',
+  NOT_FOUND = 'NOT_FOUND',
+  INVALID_ADDRESS = 'INVALID_ADDRESS',
+  SHIPMENT_IN_TRANSIT = 'SHIPMENT_IN_TRANSIT',
+  VOID_WINDOW_EXPIRED = 'VOID_WINDOW_EXPIRED',
 }
 
 export class CarrierIntegrationError extends Error {
@@ -0,0 +1,80 @@
+/**
+ * Money - integer minor-unit amounts and exact decimal parsing
+ */
+
+import { Money } from './types';
+
+/**
+ * ISO 4217 currencies whose minor unit is not hundredths
+ */
+const CURRENCY_EXPONENTS: Record<string, number> = {
+  CLP: 0,
+  ISK: 0,
+  JPY: 0,
+  KRW: 0,
+  VND: 0,
+  BHD: 3,
+  IQD: 3,
+  JOD: 3,
+  KWD: 3,
+  LYD: 3,
+  OMR: 3,
+  TND: 3,
+};
+
+const DECIMAL_PATTERN = /^(-)?(\d+)(?:\.(\d*))?$/;
+
+/**
+ * Number of decimal places in a currency's minor unit (2 unless listed)
+ */
+export function getCurrencyExponent(currency: string): number {
+  return CURRENCY_EXPONENTS[currency.toUpperCase()] ?? 2;
+}
+
+/**
+ * Parse a decimal string (e.g. UPS MonetaryValue) digit by digit, rounding
+ * half up to the currency's minor unit. Returns undefined when the value is
+ * not a plain decimal number.
+ */
+export function parseMoney(value: string, currency: string): Money | undefined {
+  const match = DECIMAL_PATTERN.exec(value.trim());
+  if (!match) {
+    return undefined;
+  }
+
+  const [, sign, whole, fraction = ''] = match;
+  const exponent = getCurrencyExponent(currency);
+  let amount = parseInt(whole + fraction.padEnd(exponent, '0').slice(0, exponent), 10);
+  if (fraction.length > exponent && fraction[exponent] >= '5') {
+    amount += 1;
+  }
+  if (!Number.isSafeInteger(amount)) {
+    return undefined;
+  }
+
+  return { amount: sign && amount !== 0 ? -amount : amount, currency: currency.toUpperCase() };
+}
+
+/**
+ * Money from a decimal number (e.g. a JSON price), rounded to the minor unit
+ */
+export function toMoney(value: number, currency: string): Money {
+  return {
+    amount: Math.round(value * 10 ** getCurrencyExponent(currency)),
+    currency: currency.toUpperCase(),
+  };
+}
+
+/**
+ * Decimal amount in major units (e.g. 2340 cents -> 23.4)
+ */
+export function toDecimal(money: Money): number {
+  return money.amount / 10 ** getCurrencyExponent(money.currency);
+}
+
+export function addMoney(a: Money, b: Money): Money {
+  if (a.currency !== b.currency) {
+    throw new Error(`Cannot add ${a.currency} to ${b.currency}`);
+  }
+  return { amount: a.amount + b.amount, currency: a.currency };
+}
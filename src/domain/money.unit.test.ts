@@ -0,0 +1,40 @@
+/**
+ * Unit tests for Money parsing and arithmetic
+ */
+
+import { addMoney, getCurrencyExponent, parseMoney, toDecimal, toMoney } from './money';
+
+describe('Money Unit Tests', () => {
+  it('should parse decimal strings exactly into minor units', () => {
+    expect(parseMoney('25.50', 'USD')).toEqual({ amount: 2550, currency: 'USD' });
+    expect(parseMoney(' 1.005 ', 'usd')).toEqual({ amount: 101, currency: 'USD' }); // half up
+    expect(parseMoney('1.004', 'USD')).toEqual({ amount: 100, currency: 'USD' });
+    expect(parseMoney('12', 'USD')).toEqual({ amount: 1200, currency: 'USD' });
+    expect(parseMoney('-3.10', 'USD')).toEqual({ amount: -310, currency: 'USD' });
+  });
+
+  it('should respect currencies without hundredths', () => {
+    expect(getCurrencyExponent('JPY')).toBe(0);
+    expect(getCurrencyExponent('KWD')).toBe(3);
+    expect(parseMoney('1500.6', 'JPY')).toEqual({ amount: 1501, currency: 'JPY' });
+    expect(parseMoney('2.125', 'KWD')).toEqual({ amount: 2125, currency: 'KWD' });
+    expect(toDecimal({ amount: 2125, currency: 'KWD' })).toBe(2.125);
+  });
+
+  it('should reject values that are not plain decimals', () => {
+    expect(parseMoney('', 'USD')).toBeUndefined();
+    expect(parseMoney('abc', 'USD')).toBeUndefined();
+    expect(parseMoney('1e3', 'USD')).toBeUndefined();
+    expect(parseMoney('$5.00', 'USD')).toBeUndefined();
+  });
+
+  it('should add without floating point drift', () => {
+    const total = [0.1, 0.2, 0.7]
+      .map((value) => toMoney(value, 'USD'))
+      .reduce((sum, money) => addMoney(sum, money));
+
+    expect(total).toEqual({ amount: 100, currency: 'USD' });
+    expect(toDecimal(total)).toBe(1);
+    expect(() => addMoney(total, toMoney(1, 'EUR'))).toThrow('Cannot add USD to EUR');
+  });
+});
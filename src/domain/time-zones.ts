@@ -0,0 +1,111 @@
+/**
+ * Time zones - the calendar date at a shipment's origin
+ */
+
+import { Address } from './types';
+
+// Countries spanning several zones, keyed by state or province code. Split
+// states use the zone most of the state follows.
+const SUBDIVISION_TIME_ZONES: Record<string, Record<string, string>> = {
+  US: {
+    ...zones('America/New_York', [
+      'CT', 'DC', 'DE', 'FL', 'GA', 'IN', 'KY', 'MA', 'MD', 'ME', 'MI', 'NC', 'NH',
+      'NJ', 'NY', 'OH', 'PA', 'RI', 'SC', 'VA', 'VT', 'WV',
+    ]),
+    ...zones('America/Chicago', [
+      'AL', 'AR', 'IA', 'IL', 'KS', 'LA', 'MN', 'MO', 'MS', 'ND', 'NE', 'OK', 'SD',
+      'TN', 'TX', 'WI',
+    ]),
+    ...zones('America/Denver', ['CO', 'ID', 'MT', 'NM', 'UT', 'WY']),
+    ...zones('America/Phoenix', ['AZ']),
+    ...zones('America/Los_Angeles', ['CA', 'NV', 'OR', 'WA']),
+    ...zones('America/Anchorage', ['AK']),
+    ...zones('Pacific/Honolulu', ['HI']),
+  },
+  CA: {
+    ...zones('America/Vancouver', ['BC']),
+    ...zones('America/Edmonton', ['AB', 'NT']),
+    ...zones('America/Regina', ['SK']),
+    ...zones('America/Winnipeg', ['MB']),
+    ...zones('America/Toronto', ['ON', 'QC']),
+    ...zones('America/Halifax', ['NB', 'NS', 'PE']),
+    ...zones('America/St_Johns', ['NL']),
+    ...zones('America/Whitehorse', ['YT']),
+    ...zones('America/Iqaluit', ['NU']),
+  },
+  AU: {
+    ...zones('Australia/Sydney', ['ACT', 'NSW']),
+    ...zones('Australia/Melbourne', ['VIC']),
+    ...zones('Australia/Brisbane', ['QLD']),
+    ...zones('Australia/Adelaide', ['SA']),
+    ...zones('Australia/Perth', ['WA']),
+    ...zones('Australia/Hobart', ['TAS']),
+    ...zones('Australia/Darwin', ['NT']),
+  },
+};
+
+// One zone per country; for the countries above, used when the state is unknown
+const COUNTRY_TIME_ZONES: Record<string, string> = {
+  US: 'America/New_York',
+  CA: 'America/Toronto',
+  AU: 'Australia/Sydney',
+  MX: 'America/Mexico_City',
+  BR: 'America/Sao_Paulo',
+  PR: 'America/Puerto_Rico',
+  GB: 'Europe/London',
+  IE: 'Europe/Dublin',
+  PT: 'Europe/Lisbon',
+  ES: 'Europe/Madrid',
+  FR: 'Europe/Paris',
+  BE: 'Europe/Brussels',
+  NL: 'Europe/Amsterdam',
+  DE: 'Europe/Berlin',
+  AT: 'Europe/Vienna',
+  CH: 'Europe/Zurich',
+  IT: 'Europe/Rome',
+  DK: 'Europe/Copenhagen',
+  NO: 'Europe/Oslo',
+  SE: 'Europe/Stockholm',
+  FI: 'Europe/Helsinki',
+  PL: 'Europe/Warsaw',
+  IL: 'Asia/Jerusalem',
+  AE: 'Asia/Dubai',
+  ZA: 'Africa/Johannesburg',
+  IN: 'Asia/Kolkata',
+  SG: 'Asia/Singapore',
+  HK: 'Asia/Hong_Kong',
+  CN: 'Asia/Shanghai',
+  KR: 'Asia/Seoul',
+  JP: 'Asia/Tokyo',
+  NZ: 'Pacific/Auckland',
+};
+
+function zones(timeZone: string, subdivisions: string[]): Record<string, string> {
+  return Object.fromEntries(subdivisions.map((code) => [code, timeZone]));
+}
+
+/**
+ * IANA time zone of an address, from its state or province where the
+ * country spans several zones. Unknown countries fall back to UTC.
+ */
+export function getTimeZoneForAddress(address: Pick<Address, 'country' | 'stateOrProvince'>): string {
+  const country = address.country.toUpperCase();
+  return (
+    SUBDIVISION_TIME_ZONES[country]?.[address.stateOrProvince.trim().toUpperCase()] ??
+    COUNTRY_TIME_ZONES[country] ??
+    'UTC'
+  );
+}
+
+/**
+ * Calendar date (YYYY-MM-DD) of an instant in the given time zone
+ */
+export function formatDateInTimeZone(date: Date, timeZone: string): string {
+  // en-CA formats dates as YYYY-MM-DD
+  return new Intl.DateTimeFormat('en-CA', {
+    timeZone,
+    year: 'numeric',
+    month: '2-digit',
+    day: '2-digit',
+  }).format(date);
+}
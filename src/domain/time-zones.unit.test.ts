@@ -0,0 +1,25 @@
+/**
+ * Unit tests for origin time zones
+ */
+
+import { formatDateInTimeZone, getTimeZoneForAddress } from './time-zones';
+
+describe('Time Zones Unit Tests', () => {
+  it('should resolve zones by state in multi-zone countries, else by country', () => {
+    expect(getTimeZoneForAddress({ country: 'US', stateOrProvince: 'CA' })).toBe('America/Los_Angeles');
+    expect(getTimeZoneForAddress({ country: 'us', stateOrProvince: 'ny' })).toBe('America/New_York');
+    expect(getTimeZoneForAddress({ country: 'CA', stateOrProvince: 'BC' })).toBe('America/Vancouver');
+    expect(getTimeZoneForAddress({ country: 'US', stateOrProvince: 'Ohio' })).toBe('America/New_York');
+    expect(getTimeZoneForAddress({ country: 'DE', stateOrProvince: 'BE' })).toBe('Europe/Berlin');
+    expect(getTimeZoneForAddress({ country: 'XX', stateOrProvince: '' })).toBe('UTC');
+  });
+
+  it('should format the calendar date in the given zone', () => {
+    // 02:00 UTC is still the previous evening on the US west coast
+    const instant = new Date('2026-03-03T02:00:00Z');
+
+    expect(formatDateInTimeZone(instant, 'UTC')).toBe('2026-03-03');
+    expect(formatDateInTimeZone(instant, 'America/Los_Angeles')).toBe('2026-03-02');
+    expect(formatDateInTimeZone(instant, 'Asia/Tokyo')).toBe('2026-03-03');
+  });
+});
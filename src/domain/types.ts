@@ -2,6 +2,8 @@
  * Domain models - carrier-agnostic types
  */
 
+import { ErrorCode } from './errors';
+
 export interface Address {
   street: string[];
   city: string;
@@ -10,28 +12,246 @@ export interface Address {
   country: string;
 }
 
+export type AddressClassification = 'RESIDENTIAL' | 'COMMERCIAL' | 'UNKNOWN';
+
+export interface AddressValidationResult {
+  valid: boolean; // carrier matched the address to exactly one deliverable address
+  ambiguous: boolean; // several candidates matched; caller should pick one
+  correctedAddress?: Address; // normalized form of the address when valid
+  classification: AddressClassification;
+  candidates: Address[];
+}
+
+export type WeightUnit = 'LB' | 'KG';
+
+export type DimensionUnit = 'IN' | 'CM';
+
 export interface Package {
-  weight: number; // in pounds
+  weight: number;
+  weightUnit?: WeightUnit; // defaults to 'LB'
   dimensions?: {
-    length: number; // in inches
+    length: number;
     width: number;
     height: number;
+    unit?: DimensionUnit; // defaults to 'IN'
   };
 }
 
+/**
+ * Carrier-agnostic service levels; each adapter maps them to its own
+ * service codes
+ */
+export type ServiceLevel =
+  | 'GROUND'
+  | 'THREE_DAY' // deferred air, e.g. UPS 3 Day Select, FedEx Express Saver
+  | 'TWO_DAY'
+  | 'OVERNIGHT' // next business day
+  | 'EXPRESS' // international express
+  | 'ECONOMY_INTL'; // international deferred
+
 export interface RateRequest {
   origin: Address;
   destination: Address;
   packages: Package[];
-  serviceLevel?: string; // e.g., "GROUND", "EXPRESS", "OVERNIGHT"
+  serviceLevel?: ServiceLevel; // only quote services at this level (default: every service)
+  includeTransitTimes?: boolean; // merge carrier time-in-transit into quotes
+  displayCurrency?: string; // ISO 4217 code to convert every quote to
+  negotiatedRates?: boolean; // ask for the shipper account's contract rates
+  shipDate?: string; // YYYY-MM-DD at the origin, for transit times (default: today at the origin)
+}
+
+export type LabelFormat = 'GIF' | 'PNG' | 'ZPL' | 'EPL';
+
+export interface ShipmentParty {
+  name: string;
+  companyName?: string;
+  phone?: string;
+  email?: string;
+  address: Address;
+}
+
+export interface ShipmentRequest {
+  carrier: string; // e.g., "UPS"
+  serviceLevel: string; // carrier service code, as returned in RateQuote.serviceLevel
+  shipper: ShipmentParty;
+  recipient: ShipmentParty;
+  packages: Package[];
+  reference?: string;
+  labelFormat?: LabelFormat;
+}
+
+export interface ShipmentLabel {
+  format: LabelFormat;
+  data: string; // base64-encoded label image
+}
+
+export interface ShippedPackage {
+  trackingNumber: string;
+  label: ShipmentLabel;
+}
+
+export interface ShipmentResult {
+  carrier: string;
+  trackingNumber: string; // master tracking / shipment identification number
+  packages: ShippedPackage[];
+  totalCost?: number;
+  currency?: string;
+}
+
+export interface VoidShipmentResult {
+  carrier: string;
+  trackingNumber: string;
+  voided: boolean; // false when the carrier only partially voided the shipment
+  status?: string; // carrier status description, e.g. "Voided"
+}
+
+export interface PickupRequest {
+  carrier: string;
+  contact: ShipmentParty; // pickup location and on-site contact
+  pickupDate: string; // YYYY-MM-DD
+  readyTime: string; // HH:mm, local to the pickup address
+  closeTime: string; // HH:mm, local to the pickup address
+  packageCount: number;
+  totalWeight: number; // in weightUnit
+  weightUnit?: WeightUnit; // defaults to 'LB'
+  serviceLevel?: string; // carrier service code of the packages (defaults to ground)
+  instructions?: string;
+}
+
+export interface PickupResult {
+  carrier: string;
+  confirmationNumber: string; // carrier pickup reference (UPS PRN)
+  pickupDate: string;
+  totalCost?: number;
+  currency?: string;
+}
+
+export enum PickupStatus {
+  SCHEDULED = 'SCHEDULED',
+  DISPATCHED = 'DISPATCHED',
+  COMPLETED = 'COMPLETED',
+  FAILED = 'FAILED',
+  UNKNOWN = 'UNKNOWN',
+}
+
+export interface PickupDetails {
+  carrier: string;
+  confirmationNumber: string;
+  status: PickupStatus;
+  pickupDate?: string; // YYYY-MM-DD
+  description?: string; // carrier status message
+}
+
+export interface PickupCancellationResult {
+  carrier: string;
+  confirmationNumber: string;
+  cancelled: boolean;
+}
+
+export enum TrackingStatus {
+  LABEL_CREATED = 'LABEL_CREATED',
+  PICKED_UP = 'PICKED_UP',
+  IN_TRANSIT = 'IN_TRANSIT',
+  OUT_FOR_DELIVERY = 'OUT_FOR_DELIVERY',
+  DELIVERED = 'DELIVERED',
+  EXCEPTION = 'EXCEPTION',
+  RETURNED = 'RETURNED',
+  UNKNOWN = 'UNKNOWN',
+}
+
+export interface TrackingLocation {
+  city?: string;
+  stateOrProvince?: string;
+  postalCode?: string;
+  country?: string;
+}
+
+export interface TrackingEvent {
+  status: TrackingStatus;
+  description: string;
+  location?: TrackingLocation;
+  timestamp: string; // ISO 8601; UTC ("Z") when the carrier provides an offset
+  carrierStatusCode?: string;
+}
+
+export interface TransitTime {
+  carrier: string;
+  serviceLevel: string; // same service codes as RateQuote.serviceLevel
+  serviceName: string;
+  businessDays: number;
+  deliveryDate?: string; // YYYY-MM-DD
+  deliveryTime?: string; // HH:mm:ss, carrier-local commit time
+  cutoffTime?: string; // HH:mm:ss, latest drop-off on the ship date
+  guaranteed: boolean;
+}
+
+/**
+ * An amount in integer minor units (e.g. cents), so sums and conversions
+ * never accumulate floating point error
+ */
+export interface Money {
+  amount: number; // minor units of currency
+  currency: string; // ISO 4217 code
+}
+
+export type ChargeType =
+  | 'BASE' // transportation before surcharges
+  | 'FUEL_SURCHARGE'
+  | 'RESIDENTIAL'
+  | 'DELIVERY_AREA'
+  | 'ACCESSORIAL'; // any other surcharge or requested service option
+
+export interface Charge {
+  type: ChargeType;
+  amount: number; // in the quote's currency
+  code?: string; // carrier's charge code
+  description?: string; // carrier's label, e.g. "ADDITIONAL HANDLING"
+}
+
+export interface PackageCharges {
+  total: number; // in the quote's currency
+  charges: Charge[];
 }
 
 export interface RateQuote {
   carrier: string;
   serviceLevel: string;
   serviceName: string;
-  totalCost: number; // in USD
-  currency: string;
-  estimatedDays?: number;
+  totalCost: number; // in currency, rounded to its minor unit
+  currency: string; // ISO 4217 code
+  publishedCost?: number; // carrier's list price, when totalCost is a negotiated rate
+  publishedCurrency?: string; // currency of publishedCost, when it is not currency
+  originalCost?: Money; // carrier's quote, when converted to a display currency
+  charges?: Charge[]; // breakdown of totalCost, when the carrier itemizes it
+  packageCharges?: PackageCharges[]; // per package, in RateRequest.packages order
+  estimatedDays?: number; // business days in transit
+  deliveryDate?: string; // YYYY-MM-DD, when transit times were requested
+  cutoffTime?: string; // HH:mm:ss, when transit times were requested
   carrierQuoteId?: string;
 }
+
+export type RateCacheStatus = 'HIT' | 'MISS' | 'DISABLED';
+
+export type CarrierRateStatus = 'SUCCESS' | 'FAILED' | 'TIMED_OUT';
+
+/**
+ * Outcome of rating with one carrier during a multi-carrier rate shop
+ */
+export interface CarrierRateResult {
+  carrier: string;
+  status: CarrierRateStatus;
+  quoteCount: number;
+  latencyMs: number;
+  cache: RateCacheStatus;
+  error?: {
+    code: ErrorCode;
+    message: string;
+  };
+}
+
+export interface RateShopResult {
+  quotes: RateQuote[];
+  carriers: CarrierRateResult[];
+  partial: boolean; // at least one carrier failed or timed out
+  cacheHits: number;
+}
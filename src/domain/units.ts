@@ -0,0 +1,75 @@
+/**
+ * Units of measure - conversion between imperial and metric package units
+ */
+
+import { DimensionUnit, Package, WeightUnit } from './types';
+
+export type UnitSystem = 'IMPERIAL' | 'METRIC';
+
+export const UNIT_SYSTEMS: Record<UnitSystem, { weight: WeightUnit; dimension: DimensionUnit }> = {
+  IMPERIAL: { weight: 'LB', dimension: 'IN' },
+  METRIC: { weight: 'KG', dimension: 'CM' },
+};
+
+const KG_PER_LB = 0.45359237;
+const CM_PER_IN = 2.54;
+
+// The US and its territories ship in pounds and inches; everywhere else is metric
+const IMPERIAL_COUNTRIES = new Set(['US', 'PR', 'VI', 'GU', 'AS', 'MP', 'UM']);
+
+export function convertWeight(value: number, from: WeightUnit, to: WeightUnit): number {
+  if (from === to) {
+    return value;
+  }
+  return to === 'KG' ? value * KG_PER_LB : value / KG_PER_LB;
+}
+
+export function convertLength(value: number, from: DimensionUnit, to: DimensionUnit): number {
+  if (from === to) {
+    return value;
+  }
+  return to === 'CM' ? value * CM_PER_IN : value / CM_PER_IN;
+}
+
+/**
+ * Unit system carriers expect for shipments originating in a country
+ */
+export function getUnitSystemForCountry(country: string): UnitSystem {
+  return IMPERIAL_COUNTRIES.has(country.toUpperCase()) ? 'IMPERIAL' : 'METRIC';
+}
+
+/**
+ * Express a package in the given unit system with explicit units.
+ * Converted values are rounded to two decimals, which carriers accept;
+ * values already in the target unit are passed through untouched.
+ */
+export function convertPackage(pkg: Package, system: UnitSystem): Package {
+  const units = UNIT_SYSTEMS[system];
+  const weightUnit = pkg.weightUnit ?? 'LB';
+  const converted: Package = {
+    weight:
+      weightUnit === units.weight ? pkg.weight : round(convertWeight(pkg.weight, weightUnit, units.weight)),
+    weightUnit: units.weight,
+  };
+
+  if (pkg.dimensions) {
+    const dimensionUnit = pkg.dimensions.unit ?? 'IN';
+    const convertDimension = (value: number) =>
+      dimensionUnit === units.dimension
+        ? value
+        : round(convertLength(value, dimensionUnit, units.dimension));
+
+    converted.dimensions = {
+      length: convertDimension(pkg.dimensions.length),
+      width: convertDimension(pkg.dimensions.width),
+      height: convertDimension(pkg.dimensions.height),
+      unit: units.dimension,
+    };
+  }
+
+  return converted;
+}
+
+function round(value: number): number {
+  return Math.round(value * 100) / 100;
+}
@@ -0,0 +1,46 @@
+/**
+ * Unit tests for package unit conversion
+ */
+
+import { convertLength, convertPackage, convertWeight, getUnitSystemForCountry } from './units';
+
+describe('Units Unit Tests', () => {
+  it('should convert weights and lengths between imperial and metric', () => {
+    expect(convertWeight(1, 'LB', 'KG')).toBeCloseTo(0.45359237, 8);
+    expect(convertWeight(1, 'KG', 'LB')).toBeCloseTo(2.20462262, 8);
+    expect(convertWeight(3, 'KG', 'KG')).toBe(3);
+    expect(convertLength(1, 'IN', 'CM')).toBeCloseTo(2.54, 8);
+    expect(convertLength(25.4, 'CM', 'IN')).toBeCloseTo(10, 8);
+  });
+
+  it('should use imperial units for the US and its territories only', () => {
+    expect(getUnitSystemForCountry('US')).toBe('IMPERIAL');
+    expect(getUnitSystemForCountry('pr')).toBe('IMPERIAL');
+    expect(getUnitSystemForCountry('CA')).toBe('METRIC');
+    expect(getUnitSystemForCountry('DE')).toBe('METRIC');
+  });
+
+  it('should express packages in the target unit system, defaulting to pounds and inches', () => {
+    expect(
+      convertPackage({ weight: 5, dimensions: { length: 12, width: 10, height: 8 } }, 'METRIC')
+    ).toEqual({
+      weight: 2.27,
+      weightUnit: 'KG',
+      dimensions: { length: 30.48, width: 25.4, height: 20.32, unit: 'CM' },
+    });
+    expect(convertPackage({ weight: 2, weightUnit: 'KG' }, 'METRIC')).toEqual({
+      weight: 2,
+      weightUnit: 'KG',
+    });
+    expect(
+      convertPackage(
+        { weight: 1.5, weightUnit: 'KG', dimensions: { length: 40, width: 30, height: 20, unit: 'CM' } },
+        'IMPERIAL'
+      )
+    ).toEqual({
+      weight: 3.31,
+      weightUnit: 'LB',
+      dimensions: { length: 15.75, width: 11.81, height: 7.87, unit: 'IN' },
+    });
+  });
+});
@@ -3,7 +3,14 @@
  */
 
 import { z } from 'zod';
-import { Address, Package, RateRequest } from './types';
+import {
+  Address,
+  Package,
+  PickupRequest,
+  RateRequest,
+  ShipmentParty,
+  ShipmentRequest,
+} from './types';
 
 export const AddressSchema: z.ZodType<Address> = z.object({
   street: z.array(z.string().min(1)).min(1),
@@ -15,11 +22,13 @@ export const AddressSchema: z.ZodType<Address> = z.object({
 
 export const PackageSchema: z.ZodType<Package> = z.object({
   weight: z.number().positive(),
+  weightUnit: z.enum(['LB', 'KG']).optional(),
   dimensions: z
     .object({
       length: z.number().positive(),
       width: z.number().positive(),
       height: z.number().positive(),
+      unit: z.enum(['IN', 'CM']).optional(),
     })
     .optional(),
 });
@@ -28,5 +37,68 @@ export const RateRequestSchema: z.ZodType<RateRequest> = z.object({
   origin: AddressSchema,
   destination: AddressSchema,
   packages: z.array(PackageSchema).min(1),
-  serviceLevel: z.string().optional(),
+  serviceLevel: z
+    .enum(['GROUND', 'THREE_DAY', 'TWO_DAY', 'OVERNIGHT', 'EXPRESS', 'ECONOMY_INTL'])
+    .optional(),
+  includeTransitTimes: z.boolean().optional(),
+  displayCurrency: z
+    .string()
+    .regex(/^[A-Z]{3}$/, 'Currency must be an ISO 4217 code')
+    .optional(),
+  negotiatedRates: z.boolean().optional(),
+  shipDate: z.string().regex(/^\d{4}-\d{2}-\d{2}$/, 'Date must be YYYY-MM-DD').optional(),
+});
+
+export const TrackingNumberSchema = z
+  .string()
+  .trim()
+  .min(1)
+  .max(35)
+  .regex(/^[A-Za-z0-9]+$/, 'Tracking number must be alphanumeric');
+
+export const ShipmentPartySchema: z.ZodType<ShipmentParty> = z.object({
+  name: z.string().min(1),
+  companyName: z.string().min(1).optional(),
+  phone: z.string().min(1).optional(),
+  email: z.string().email().optional(),
+  address: AddressSchema,
 });
+
+export const ShipmentRequestSchema: z.ZodType<ShipmentRequest> = z.object({
+  carrier: z.string().min(1),
+  serviceLevel: z.string().min(1),
+  shipper: ShipmentPartySchema,
+  recipient: ShipmentPartySchema,
+  packages: z.array(PackageSchema).min(1),
+  reference: z.string().min(1).max(35).optional(),
+  labelFormat: z.enum(['GIF', 'PNG', 'ZPL', 'EPL']).optional(),
+});
+
+const TimeOfDaySchema = z
+  .string()
+  .regex(/^([01]\d|2[0-3]):[0-5]\d$/, 'Time must be HH:mm (24-hour)');
+
+export const PickupRequestSchema: z.ZodType<PickupRequest> = z
+  .object({
+    carrier: z.string().min(1),
+    contact: ShipmentPartySchema,
+    pickupDate: z.string().regex(/^\d{4}-\d{2}-\d{2}$/, 'Date must be YYYY-MM-DD'),
+    readyTime: TimeOfDaySchema,
+    closeTime: TimeOfDaySchema,
+    packageCount: z.number().int().positive(),
+    totalWeight: z.number().positive(),
+    weightUnit: z.enum(['LB', 'KG']).optional(),
+    serviceLevel: z.string().min(1).optional(),
+    instructions: z.string().min(1).max(57).optional(),
+  })
+  .refine((request) => request.readyTime < request.closeTime, {
+    message: 'readyTime must be before closeTime',
+    path: ['closeTime'],
+  });
+
+export const PickupConfirmationNumberSchema = z
+  .string()
+  .trim()
+  .min(1)
+  .max(35)
+  .regex(/^[A-Za-z0-9]+$/, 'Pickup confirmation number must be alphanumeric');
@@ -14,6 +14,7 @@ export interface HttpRequest {
   headers?: Record<string, string>;
   body?: unknown;
   timeout?: number;
+  signal?: AbortSignal; // aborting it fails the request as a timeout
 }
 
 export interface HttpClient {
@@ -32,6 +33,12 @@ export class NodeHttpClient implements HttpClient {
       () => controller.abort(),
       req.timeout ?? this.defaultTimeout
     );
+    // The caller's deadline cancels the request the same way as our own timeout
+    const onAbort = () => controller.abort();
+    if (req.signal?.aborted) {
+      controller.abort();
+    }
+    req.signal?.addEventListener('abort', onAbort, { once: true });
 
     try {
       // Determine content type and body format
@@ -57,6 +64,7 @@ export class NodeHttpClient implements HttpClient {
       });
 
       clearTimeout(timeoutId);
+      req.signal?.removeEventListener('abort', onAbort);
 
       const headers: Record<string, string> = {};
       response.headers.forEach((value, key) => {
@@ -78,6 +86,7 @@ export class NodeHttpClient implements HttpClient {
       };
     } catch (error) {
       clearTimeout(timeoutId);
+      req.signal?.removeEventListener('abort', onAbort);
       if (error instanceof Error && error.name === 'AbortError') {
         throw new Error('Request timeout');
       }
@@ -0,0 +1,48 @@
+/**
+ * Instrumented HTTP client - decorator reporting each request to hooks
+ */
+
+import { HttpClient, HttpRequest, HttpResponse } from './client';
+
+export interface HttpRequestEvent {
+  request: HttpRequest;
+  status?: number; // absent when the request threw
+  error?: unknown;
+  durationMs: number;
+}
+
+export interface HttpClientHooks {
+  onRequestComplete?(event: HttpRequestEvent): void;
+}
+
+/**
+ * HttpClient decorator that reports status and duration of every request
+ * (successful or not) to the given hooks, e.g. for latency metrics
+ */
+export class InstrumentedHttpClient implements HttpClient {
+  constructor(
+    private readonly inner: HttpClient,
+    private readonly hooks: HttpClientHooks
+  ) {}
+
+  async request<T = unknown>(req: HttpRequest): Promise<HttpResponse<T>> {
+    const startedAt = Date.now();
+
+    try {
+      const response = await this.inner.request<T>(req);
+      this.hooks.onRequestComplete?.({
+        request: req,
+        status: response.status,
+        durationMs: Date.now() - startedAt,
+      });
+      return response;
+    } catch (error) {
+      this.hooks.onRequestComplete?.({
+        request: req,
+        error,
+        durationMs: Date.now() - startedAt,
+      });
+      throw error;
+    }
+  }
+}
@@ -0,0 +1,45 @@
+/**
+ * Logging HTTP client - decorator recording each outbound carrier call
+ */
+
+import { HttpClient, HttpRequest, HttpResponse } from './client';
+import { Logger } from '../logging/logger';
+
+/**
+ * HttpClient decorator that logs method, URL, status and duration of every
+ * request. Request headers are included (redacted by the logger) so carrier
+ * trace IDs such as the UPS transId can be matched to carrier-side logs.
+ */
+export class LoggingHttpClient implements HttpClient {
+  constructor(
+    private readonly inner: HttpClient,
+    private readonly logger: Logger
+  ) {}
+
+  async request<T = unknown>(req: HttpRequest): Promise<HttpResponse<T>> {
+    const startedAt = Date.now();
+    const fields = {
+      method: req.method,
+      url: req.url,
+      requestHeaders: req.headers,
+    };
+
+    try {
+      const response = await this.inner.request<T>(req);
+      const level = response.status >= 500 ? 'warn' : 'info';
+      this.logger[level]('Carrier HTTP request completed', {
+        ...fields,
+        status: response.status,
+        durationMs: Date.now() - startedAt,
+      });
+      return response;
+    } catch (error) {
+      this.logger.error('Carrier HTTP request failed', {
+        ...fields,
+        durationMs: Date.now() - startedAt,
+        error,
+      });
+      throw error;
+    }
+  }
+}
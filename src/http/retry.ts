@@ -0,0 +1,207 @@
+/**
+ * Retrying HTTP client - decorator adding exponential backoff to any HttpClient
+ */
+
+import { HttpClient, HttpRequest, HttpResponse } from './client';
+import { ErrorCode } from '../domain/errors';
+
+export interface RetryPolicy {
+  maxAttempts: number; // total attempts, including the first
+  baseDelayMs: number; // delay before the first retry, doubled each retry
+  maxDelayMs: number; // cap for computed backoff delays
+  jitter: 'full' | 'none'; // full = random delay between 0 and the backoff
+  /**
+   * Failure classes to retry, expressed as the domain error code they map to:
+   * 429 → RATE_LIMITED, 5xx → CARRIER_UNAVAILABLE, timeouts → TIMEOUT,
+   * other thrown errors → NETWORK_ERROR
+   */
+  retryOn: ErrorCode[];
+  respectRetryAfter: boolean;
+  maxRetryAfterMs: number; // give up rather than wait longer than this
+  /**
+   * Requests that must not be replayed after reaching the carrier
+   * (e.g. shipment creation); these are only retried on RATE_LIMITED
+   */
+  nonIdempotentUrls?: RegExp[];
+}
+
+export const DEFAULT_RETRY_POLICY: RetryPolicy = {
+  maxAttempts: 3,
+  baseDelayMs: 200,
+  maxDelayMs: 5000,
+  jitter: 'full',
+  retryOn: [
+    ErrorCode.RATE_LIMITED,
+    ErrorCode.CARRIER_UNAVAILABLE,
+    ErrorCode.TIMEOUT,
+    ErrorCode.NETWORK_ERROR,
+  ],
+  respectRetryAfter: true,
+  maxRetryAfterMs: 30000,
+};
+
+/**
+ * Injectable timing primitives (overridden in tests)
+ */
+export interface RetryClock {
+  /**
+   * Resolve after ms, or as soon as the signal aborts
+   */
+  sleep(ms: number, signal?: AbortSignal): Promise<void>;
+  random(): number;
+  now(): number;
+}
+
+const systemClock: RetryClock = {
+  sleep: (ms, signal) =>
+    new Promise((resolve) => {
+      if (signal?.aborted) {
+        return resolve();
+      }
+      const onAbort = () => {
+        clearTimeout(timer);
+        resolve();
+      };
+      const timer = setTimeout(() => {
+        signal?.removeEventListener('abort', onAbort);
+        resolve();
+      }, ms);
+      signal?.addEventListener('abort', onAbort, { once: true });
+    }),
+  random: Math.random,
+  now: Date.now,
+};
+
+/**
+ * HttpClient decorator that retries retryable failures with exponential
+ * backoff and jitter, honoring Retry-After. After the last attempt the final
+ * response is returned (or error rethrown) so adapters map it as usual.
+ */
+export class RetryingHttpClient implements HttpClient {
+  private readonly policy: RetryPolicy;
+
+  constructor(
+    private readonly inner: HttpClient,
+    policy: Partial<RetryPolicy> = {},
+    private readonly clock: RetryClock = systemClock
+  ) {
+    this.policy = { ...DEFAULT_RETRY_POLICY, ...policy };
+  }
+
+  async request<T = unknown>(req: HttpRequest): Promise<HttpResponse<T>> {
+    for (let attempt = 1; ; attempt++) {
+      let response: HttpResponse<T> | undefined;
+      let error: unknown;
+
+      try {
+        response = await this.inner.request<T>(req);
+      } catch (e) {
+        error = e;
+      }
+
+      const failure = response
+        ? classifyResponse(response.status)
+        : classifyError(error);
+
+      // Once the caller has given up there is nobody left to retry for
+      const delayMs =
+        failure &&
+        attempt < this.policy.maxAttempts &&
+        !req.signal?.aborted &&
+        this.isRetryable(req, failure)
+          ? this.getDelay(attempt, response)
+          : undefined;
+
+      if (delayMs === undefined) {
+        if (response) {
+          return response;
+        }
+        throw error;
+      }
+
+      await this.clock.sleep(delayMs, req.signal);
+      if (req.signal?.aborted) {
+        // Aborted during the backoff: report the last failure without retrying
+        if (response) {
+          return response;
+        }
+        throw error;
+      }
+    }
+  }
+
+  private isRetryable(req: HttpRequest, failure: ErrorCode): boolean {
+    if (!this.policy.retryOn.includes(failure)) {
+      return false;
+    }
+    // A rate-limited request was rejected before processing, so it is always safe
+    const nonIdempotent = this.policy.nonIdempotentUrls?.some((pattern) =>
+      pattern.test(req.url)
+    );
+    return !nonIdempotent || failure === ErrorCode.RATE_LIMITED;
+  }
+
+  /**
+   * Delay before the next attempt, or undefined if Retry-After asks for
+   * longer than we are willing to wait
+   */
+  private getDelay(attempt: number, response?: HttpResponse<unknown>): number | undefined {
+    const retryAfterMs =
+      this.policy.respectRetryAfter && response
+        ? parseRetryAfter(getHeader(response.headers, 'retry-after'), this.clock.now())
+        : undefined;
+
+    if (retryAfterMs !== undefined) {
+      return retryAfterMs <= this.policy.maxRetryAfterMs ? retryAfterMs : undefined;
+    }
+
+    const backoff = Math.min(
+      this.policy.maxDelayMs,
+      this.policy.baseDelayMs * 2 ** (attempt - 1)
+    );
+    return this.policy.jitter === 'full'
+      ? Math.floor(this.clock.random() * backoff)
+      : backoff;
+  }
+}
+
+/**
+ * Map an HTTP status to the retryable failure class it represents, if any
+ */
+function classifyResponse(status: number): ErrorCode | undefined {
+  if (status === 429) {
+    return ErrorCode.RATE_LIMITED;
+  }
+  if (status >= 500) {
+    return ErrorCode.CARRIER_UNAVAILABLE;
+  }
+  return undefined;
+}
+
+function classifyError(error: unknown): ErrorCode {
+  return error instanceof Error && error.message === 'Request timeout'
+    ? ErrorCode.TIMEOUT
+    : ErrorCode.NETWORK_ERROR;
+}
+
+function getHeader(headers: Record<string, string>, name: string): string | undefined {
+  const key = Object.keys(headers).find((k) => k.toLowerCase() === name);
+  return key ? headers[key] : undefined;
+}
+
+/**
+ * Parse a Retry-After header (delay-seconds or HTTP-date) into milliseconds
+ */
+export function parseRetryAfter(value: string | undefined, now: number): number | undefined {
+  if (!value) {
+    return undefined;
+  }
+
+  const trimmed = value.trim();
+  if (/^\d+$/.test(trimmed)) {
+    return parseInt(trimmed, 10) * 1000;
+  }
+
+  const date = Date.parse(trimmed);
+  return isNaN(date) ? undefined : Math.max(0, date - now);
+}
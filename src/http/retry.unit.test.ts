@@ -0,0 +1,180 @@
+/**
+ * Unit tests for the retrying HTTP client decorator
+ */
+
+import { RetryingHttpClient, RetryClock, parseRetryAfter } from './retry';
+import { StubHttpClient, StubResponse } from './stub-client';
+import { ErrorCode } from '../domain/errors';
+
+describe('RetryingHttpClient Unit Tests', () => {
+  const url = 'https://carrier.example.com/rates';
+  let stubClient: StubHttpClient;
+  let sleeps: number[];
+  let clock: RetryClock;
+
+  /**
+   * Respond with each entry in turn (an Error is thrown), repeating the last
+   */
+  function respondWith(...responses: Array<StubResponse | Error>): void {
+    let call = 0;
+    stubClient.onRequest(() => {
+      const next = responses[Math.min(call++, responses.length - 1)];
+      if (next instanceof Error) {
+        throw next;
+      }
+      return next;
+    });
+  }
+
+  const ok: StubResponse = { status: 200, body: { ok: true } };
+  const unavailable: StubResponse = { status: 503, body: {} };
+
+  beforeEach(() => {
+    stubClient = new StubHttpClient();
+    sleeps = [];
+    clock = {
+      sleep: async (ms) => {
+        sleeps.push(ms);
+      },
+      random: () => 0.5,
+      now: () => Date.parse('2026-02-09T12:00:00Z'),
+    };
+  });
+
+  it('should retry server errors with exponential backoff', async () => {
+    respondWith(unavailable, unavailable, ok);
+    const client = new RetryingHttpClient(
+      stubClient,
+      { maxAttempts: 3, baseDelayMs: 100, jitter: 'none' },
+      clock
+    );
+
+    const response = await client.request({ url, method: 'POST' });
+
+    expect(response.status).toBe(200);
+    expect(sleeps).toEqual([100, 200]);
+    expect(stubClient.getCapturedRequests()).toHaveLength(3);
+  });
+
+  it('should apply full jitter and cap delays at maxDelayMs', async () => {
+    respondWith(unavailable);
+    const client = new RetryingHttpClient(
+      stubClient,
+      { maxAttempts: 4, baseDelayMs: 1000, maxDelayMs: 1500, jitter: 'full' },
+      clock
+    );
+
+    await client.request({ url, method: 'POST' });
+
+    expect(sleeps).toEqual([500, 750, 750]);
+  });
+
+  it('should return the last response once attempts are exhausted', async () => {
+    respondWith(unavailable);
+    const client = new RetryingHttpClient(stubClient, { maxAttempts: 2 }, clock);
+
+    const response = await client.request({ url, method: 'POST' });
+
+    expect(response.status).toBe(503);
+    expect(stubClient.getCapturedRequests()).toHaveLength(2);
+  });
+
+  it('should retry thrown timeouts and rethrow the last error', async () => {
+    respondWith(new Error('Request timeout'));
+    const client = new RetryingHttpClient(stubClient, { maxAttempts: 3 }, clock);
+
+    await expect(client.request({ url, method: 'POST' })).rejects.toThrow('Request timeout');
+    expect(stubClient.getCapturedRequests()).toHaveLength(3);
+  });
+
+  it('should not retry client errors or classes outside retryOn', async () => {
+    respondWith({ status: 400, body: {} });
+    const client = new RetryingHttpClient(stubClient, {}, clock);
+    await client.request({ url, method: 'POST' });
+    expect(stubClient.getCapturedRequests()).toHaveLength(1);
+
+    stubClient.clear();
+    respondWith(new Error('ECONNRESET'), ok);
+    const timeoutsOnly = new RetryingHttpClient(
+      stubClient,
+      { retryOn: [ErrorCode.TIMEOUT] },
+      clock
+    );
+    await expect(timeoutsOnly.request({ url, method: 'POST' })).rejects.toThrow('ECONNRESET');
+    expect(stubClient.getCapturedRequests()).toHaveLength(1);
+  });
+
+  it('should wait for Retry-After and give up when it exceeds maxRetryAfterMs', async () => {
+    respondWith({ status: 429, headers: { 'Retry-After': '2' }, body: {} }, ok);
+    const client = new RetryingHttpClient(stubClient, { maxRetryAfterMs: 5000 }, clock);
+
+    await expect(client.request({ url, method: 'POST' })).resolves.toHaveProperty('status', 200);
+    expect(sleeps).toEqual([2000]);
+
+    stubClient.clear();
+    sleeps = [];
+    respondWith({ status: 429, headers: { 'retry-after': '60' }, body: {} }, ok);
+
+    await expect(client.request({ url, method: 'POST' })).resolves.toHaveProperty('status', 429);
+    expect(sleeps).toEqual([]);
+  });
+
+  it('should only retry non-idempotent requests when rate limited', async () => {
+    const client = new RetryingHttpClient(
+      stubClient,
+      { nonIdempotentUrls: [/\/ship$/] },
+      clock
+    );
+
+    respondWith(unavailable, ok);
+    await expect(
+      client.request({ url: 'https://carrier.example.com/ship', method: 'POST' })
+    ).resolves.toHaveProperty('status', 503);
+
+    stubClient.clear();
+    respondWith({ status: 429, body: {} }, ok);
+    await expect(
+      client.request({ url: 'https://carrier.example.com/ship', method: 'POST' })
+    ).resolves.toHaveProperty('status', 200);
+  });
+
+  it('should stop retrying once the caller aborts', async () => {
+    respondWith(unavailable, ok);
+    const controller = new AbortController();
+    controller.abort();
+    const client = new RetryingHttpClient(stubClient, { maxAttempts: 3 }, clock);
+
+    await expect(
+      client.request({ url, method: 'POST', signal: controller.signal })
+    ).rejects.toThrow('Request timeout');
+    expect(stubClient.getCapturedRequests()).toHaveLength(1);
+    expect(sleeps).toEqual([]);
+  });
+
+  it('should stop waiting out the backoff when the caller aborts', async () => {
+    respondWith(unavailable, ok);
+    const controller = new AbortController();
+    const client = new RetryingHttpClient(
+      stubClient,
+      { maxAttempts: 3, baseDelayMs: 30000, maxDelayMs: 30000, jitter: 'none' }
+    );
+
+    const startedAt = Date.now();
+    const pending = client.request({ url, method: 'POST', signal: controller.signal });
+    setTimeout(() => controller.abort(), 10);
+
+    await expect(pending).resolves.toHaveProperty('status', 503);
+    expect(Date.now() - startedAt).toBeLessThan(1000);
+    expect(stubClient.getCapturedRequests()).toHaveLength(1);
+  });
+
+  it('should parse Retry-After seconds and HTTP dates', () => {
+    const now = Date.parse('2026-02-09T12:00:00Z');
+
+    expect(parseRetryAfter('30', now)).toBe(30000);
+    expect(parseRetryAfter('Mon, 09 Feb 2026 12:00:10 GMT', now)).toBe(10000);
+    expect(parseRetryAfter('Mon, 09 Feb 2026 11:00:00 GMT', now)).toBe(0);
+    expect(parseRetryAfter('soon', now)).toBeUndefined();
+    expect(parseRetryAfter(undefined, now)).toBeUndefined();
+  });
+});
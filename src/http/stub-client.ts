@@ -21,6 +21,7 @@ export interface CapturedRequest {
   method: string;
   headers?: Record<string, string>;
   body?: unknown;
+  signal?: AbortSignal;
   timestamp: number;
 }
 
@@ -114,11 +115,12 @@ export class StubHttpClient implements HttpClient {
       method: req.method,
       headers: req.headers ? { ...req.headers } : undefined,
       body: req.body,
+      signal: req.signal,
       timestamp: Date.now(),
     });
 
-    // Simulate timeout if enabled
-    if (this.simulateTimeout) {
+    // Simulate timeout if enabled (or the caller has already given up)
+    if (this.simulateTimeout || req.signal?.aborted) {
       throw new Error('Request timeout');
     }
 
@@ -128,9 +130,9 @@ export class StubHttpClient implements HttpClient {
       const response = await matcher(req);
       
       if (response) {
-        // Simulate network delay if specified
+        // Simulate network delay if specified, cut short by an abort
         if (response.delay) {
-          await new Promise((resolve) => setTimeout(resolve, response.delay));
+          await this.wait(response.delay, req.signal);
         }
 
         return {
@@ -145,4 +147,18 @@ export class StubHttpClient implements HttpClient {
       `No stub response configured for ${req.method} ${req.url}`
     );
   }
+
+  private wait(ms: number, signal?: AbortSignal): Promise<void> {
+    return new Promise((resolve, reject) => {
+      const onAbort = () => {
+        clearTimeout(timer);
+        reject(new Error('Request timeout'));
+      };
+      const timer = setTimeout(() => {
+        signal?.removeEventListener('abort', onAbort);
+        resolve();
+      }, ms);
+      signal?.addEventListener('abort', onAbort, { once: true });
+    });
+  }
 }
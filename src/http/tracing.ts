@@ -0,0 +1,63 @@
+/**
+ * Tracing HTTP client - decorator creating a client span per carrier call
+ */
+
+import { SpanKind, SpanStatusCode, context, propagation } from '@opentelemetry/api';
+import { HttpClient, HttpRequest, HttpResponse } from './client';
+import { withSpan } from '../tracing/tracing';
+
+export interface TracingHttpClientOptions {
+  /**
+   * Send the traceparent header to carriers (default: false). Carrier APIs
+   * are third parties, so trace IDs stay internal unless this is enabled.
+   */
+  propagateContext?: boolean;
+}
+
+/**
+ * HttpClient decorator that wraps each request in an OpenTelemetry client
+ * span, optionally propagating the trace via the traceparent header
+ */
+export class TracingHttpClient implements HttpClient {
+  constructor(
+    private readonly inner: HttpClient,
+    private readonly options: TracingHttpClientOptions = {}
+  ) {}
+
+  request<T = unknown>(req: HttpRequest): Promise<HttpResponse<T>> {
+    return withSpan(
+      `HTTP ${req.method}`,
+      async (span) => {
+        let outgoing = req;
+        if (this.options.propagateContext) {
+          const headers: Record<string, string> = { ...req.headers };
+          propagation.inject(context.active(), headers);
+          outgoing = { ...req, headers };
+        }
+
+        const response = await this.inner.request<T>(outgoing);
+        span.setAttribute('http.response.status_code', response.status);
+        if (response.status >= 500) {
+          span.setStatus({ code: SpanStatusCode.ERROR });
+        }
+        return response;
+      },
+      {
+        kind: SpanKind.CLIENT,
+        attributes: {
+          'http.request.method': req.method,
+          'url.full': req.url,
+          'server.address': getHost(req.url),
+        },
+      }
+    );
+  }
+}
+
+function getHost(url: string): string {
+  try {
+    return new URL(url).hostname;
+  } catch {
+    return 'unknown';
+  }
+}
@@ -2,16 +2,167 @@
  * Public API exports
  */
 
-export { CarrierIntegrationService } from './service';
-export { Carrier } from './carriers/carrier';
+export {
+  CarrierIntegrationService,
+  CarrierStatus,
+  CarrierReadiness,
+  ReadinessReport,
+  CarrierOperation,
+  RateShopTimeouts,
+  ServiceHooks,
+  TenantCarrierResolver,
+} from './service';
+export { TenantRegistry, TenantConfig } from './tenancy/registry';
+export { ApiKeyStore, ApiClient, ApiClientConfig, ApiScope, hashApiKey } from './auth/api-keys';
+export {
+  authenticateApiKeys,
+  rateLimitClients,
+  requireScope,
+  getApiClient,
+} from './auth/middleware';
+export {
+  RateLimiter,
+  TokenBucketConfig,
+  RateLimitDecision,
+  DEFAULT_TOKEN_BUCKET_CONFIG,
+} from './resilience/rate-limiter';
+export { runWithTenant, getTenantId } from './tenancy/context';
+export { Carrier, AddressValidator, CarrierRequestOptions } from './carriers/carrier';
+export {
+  ServiceLevelCodes,
+  getRequestedServiceCodes,
+  filterQuotesByServiceCodes,
+} from './carriers/service-levels';
 export { UPSAdapter } from './carriers/ups/adapter';
+export { FedExAdapter } from './carriers/fedex/adapter';
+export { USPSAdapter } from './carriers/usps/adapter';
+export { DHLAdapter, DHL_PRODUCT_CODES } from './carriers/dhl/adapter';
 export { NodeHttpClient, HttpClient } from './http/client';
-export { OAuthClient, OAuthConfig } from './auth/oauth';
+export {
+  RetryingHttpClient,
+  RetryPolicy,
+  DEFAULT_RETRY_POLICY,
+} from './http/retry';
+export { LoggingHttpClient } from './http/logging';
+export { TracingHttpClient } from './http/tracing';
+export {
+  InstrumentedHttpClient,
+  HttpClientHooks,
+  HttpRequestEvent,
+} from './http/instrumented';
+export {
+  OAuthClient,
+  OAuthConfig,
+  OAuthHooks,
+  OAuthTokenRequestEvent,
+} from './auth/oauth';
+export {
+  RateCache,
+  RateCacheStore,
+  CachedRates,
+  buildRateCacheKey,
+} from './cache/rate-cache';
+export { InMemoryRateCacheStore } from './cache/memory-store';
+export {
+  Logger,
+  LogLevel,
+  LogFields,
+  JsonLogger,
+  JsonLoggerOptions,
+  NoopLogger,
+  redact,
+} from './logging/logger';
+export {
+  runWithCorrelationId,
+  getCorrelationId,
+  resolveCorrelationId,
+} from './logging/context';
+export {
+  MetricsRegistry,
+  Counter,
+  Histogram,
+  PROMETHEUS_CONTENT_TYPE,
+} from './metrics/registry';
+export { CarrierMetrics } from './metrics/carrier-metrics';
+export {
+  setupTracing,
+  disableTracing,
+  withSpan,
+  withSpanSync,
+  TRACER_NAME,
+} from './tracing/tracing';
+export { traceRequests } from './tracing/middleware';
+export {
+  CircuitBreaker,
+  CircuitBreakerConfig,
+  CircuitBreakerSnapshot,
+  CircuitState,
+  DEFAULT_CIRCUIT_BREAKER_CONFIG,
+} from './resilience/circuit-breaker';
+export { FileRateCacheStore } from './cache/file-store';
 export {
   RateRequest,
   RateQuote,
+  Charge,
+  ChargeType,
+  PackageCharges,
   Address,
   Package,
+  ServiceLevel,
+  Money,
+  WeightUnit,
+  DimensionUnit,
+  ShipmentRequest,
+  ShipmentResult,
+  ShipmentParty,
+  ShippedPackage,
+  ShipmentLabel,
+  LabelFormat,
+  TrackingEvent,
+  TrackingLocation,
+  TrackingStatus,
+  AddressValidationResult,
+  AddressClassification,
+  VoidShipmentResult,
+  TransitTime,
+  RateCacheStatus,
+  CarrierRateStatus,
+  CarrierRateResult,
+  RateShopResult,
+  PickupRequest,
+  PickupResult,
+  PickupStatus,
+  PickupDetails,
+  PickupCancellationResult,
 } from './domain/types';
 export { ErrorCode, CarrierIntegrationError } from './domain/errors';
-export { createUPSAdapter } from './config';
+export { getCurrencyExponent, parseMoney, toMoney, toDecimal, addMoney } from './domain/money';
+export {
+  ExchangeRateProvider,
+  StaticExchangeRateProvider,
+  convertMoney,
+} from './currency/exchange-rates';
+export {
+  UnitSystem,
+  UNIT_SYSTEMS,
+  convertWeight,
+  convertLength,
+  convertPackage,
+  getUnitSystemForCountry,
+} from './domain/units';
+export { getTimeZoneForAddress, formatDateInTimeZone } from './domain/time-zones';
+export {
+  createUPSAdapter,
+  createFedExAdapter,
+  createUSPSAdapter,
+  createDHLAdapter,
+  createRateCache,
+  createCircuitBreakerConfig,
+  createRateShopTimeouts,
+  createSpanExporter,
+  createTenantConfigs,
+  createTenantCarriers,
+  createApiKeyStore,
+  createRateLimitConfig,
+  createExchangeRateProvider,
+} from './config';
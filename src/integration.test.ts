@@ -4,16 +4,49 @@
  * Uses realistic UPS API mocks - no real credentials required
  */
 
-import { CarrierIntegrationService } from './service';
-import { createUPSAdapter } from './config';
+import { CarrierIntegrationService, RateShopTimeouts } from './service';
+import {
+  createUPSAdapter,
+  createFedExAdapter,
+  createUSPSAdapter,
+  createTenantCarriers,
+} from './config';
 import { StubHttpClient } from './http/stub-client';
-import { RateRequest, RateQuote } from './domain/types';
+import {
+  RateRequest,
+  RateQuote,
+  ShipmentRequest,
+  PickupRequest,
+  PickupStatus,
+  TrackingStatus,
+} from './domain/types';
 import { ErrorCode, CarrierIntegrationError } from './domain/errors';
+import { RateCache } from './cache/rate-cache';
+import { InMemoryRateCacheStore } from './cache/memory-store';
+import { CircuitState } from './resilience/circuit-breaker';
+import { JsonLogger } from './logging/logger';
+import { LoggingHttpClient } from './http/logging';
+import { runWithCorrelationId } from './logging/context';
+import { CarrierMetrics } from './metrics/carrier-metrics';
+import { InstrumentedHttpClient } from './http/instrumented';
+import { TracingHttpClient } from './http/tracing';
+import { setupTracing, disableTracing } from './tracing/tracing';
+import { TenantRegistry } from './tenancy/registry';
+import { runWithTenant } from './tenancy/context';
+import { StaticExchangeRateProvider } from './currency/exchange-rates';
+import { InMemorySpanExporter, ReadableSpan } from '@opentelemetry/sdk-trace-base';
+import { SpanStatusCode } from '@opentelemetry/api';
 import { setupUPSMocks } from './__fixtures__/ups-mock-helper';
+import { setupFedExMocks } from './__fixtures__/fedex-mock-helper';
+import { setupUSPSMocks } from './__fixtures__/usps-mock-helper';
 import {
   successfulUPSRateResponse,
+  successfulUPSSinglePackageShipmentResponse,
+  sampleLabelGraphicImage,
   upsErrorResponseInvalidRequest,
   upsMalformedResponse,
+  upsRateResponseWithNegotiatedRates,
+  upsRateResponseWithSurcharges,
 } from './__fixtures__/ups-responses';
 
 describe('Carrier Integration Service - End-to-End Integration Tests', () => {
@@ -133,7 +166,7 @@ describe('Carrier Integration Service - End-to-End Integration Tests', () => {
       await service.getRates(validRateRequest);
 
       // Get captured requests
-      const rateRequests = stubClient.getCapturedRequestsForUrl(/\/api\/rating\/v1\/Rate/);
+      const rateRequests = stubClient.getCapturedRequestsForUrl(/\/api\/rating\/v1\/(Rate|Shop)/);
       expect(rateRequests.length).toBeGreaterThan(0);
 
       const capturedRequest = rateRequests[0];
@@ -142,7 +175,9 @@ describe('Carrier Integration Service - End-to-End Integration Tests', () => {
       // Verify request structure matches UPS API format
       expect(requestBody).toBeDefined();
       expect(requestBody.RateRequest).toBeDefined();
-      expect(requestBody.RateRequest.Request.RequestOption).toBe('Rate');
+      expect(capturedRequest.url).toMatch(/\/api\/rating\/v1\/Shop$/);
+      expect(requestBody.RateRequest.Request.RequestOption).toBe('Shop');
+      expect(requestBody.RateRequest.Shipment.Service).toBeUndefined();
       
       // Verify origin address transformation
       expect(requestBody.RateRequest.Shipment.Shipper.Address).toMatchObject({
@@ -196,7 +231,7 @@ describe('Carrier Integration Service - End-to-End Integration Tests', () => {
       await service.getRates(validRateRequest);
 
       // Get captured rate requests
-      const rateRequests = stubClient.getCapturedRequestsForUrl(/\/api\/rating\/v1\/Rate/);
+      const rateRequests = stubClient.getCapturedRequestsForUrl(/\/api\/rating\/v1\/(Rate|Shop)/);
       expect(rateRequests.length).toBeGreaterThan(0);
 
       const capturedRequest = rateRequests[0];
@@ -212,6 +247,42 @@ describe('Carrier Integration Service - End-to-End Integration Tests', () => {
       const oauthRequests = stubClient.getCapturedRequestsForUrl(/\/security\/v1\/oauth\/token/);
       expect(oauthRequests.length).toBe(1);
     });
+
+    it('should send kilograms and centimeters to UPS for non-US origins', async () => {
+      upsMocks.ratingApi.setupSuccessResponse();
+
+      await service.getRates({
+        ...validRateRequest,
+        origin: {
+          street: ['100 King Street West'],
+          city: 'Toronto',
+          stateOrProvince: 'ON',
+          postalCode: 'M5X 1A9',
+          country: 'CA',
+        },
+        packages: [
+          { weight: 2.5, weightUnit: 'KG', dimensions: { length: 30, width: 20, height: 10, unit: 'CM' } },
+          { weight: 3.2 }, // pounds by default
+        ],
+      });
+
+      const [captured] = stubClient.getCapturedRequestsForUrl(/\/api\/rating\/v1\/(Rate|Shop)/);
+      const packages = (captured.body as any).RateRequest.Shipment.Package;
+
+      expect(packages[0]).toMatchObject({
+        Dimensions: {
+          UnitOfMeasurement: { Code: 'CM' },
+          Length: '30',
+          Width: '20',
+          Height: '10',
+        },
+        PackageWeight: { UnitOfMeasurement: { Code: 'KGS' }, Weight: '2.5' },
+      });
+      expect(packages[1].PackageWeight).toEqual({
+        UnitOfMeasurement: { Code: 'KGS' },
+        Weight: '1.45',
+      });
+    });
   });
 
   describe('OAuth Token Lifecycle Integration', () => {
@@ -222,7 +293,7 @@ describe('Carrier Integration Service - End-to-End Integration Tests', () => {
       await service.getRates(validRateRequest);
       
       const oauthRequests1 = stubClient.getCapturedRequestsForUrl(/\/security\/v1\/oauth\/token/);
-      const rateRequests1 = stubClient.getCapturedRequestsForUrl(/\/api\/rating\/v1\/Rate/);
+      const rateRequests1 = stubClient.getCapturedRequestsForUrl(/\/api\/rating\/v1\/(Rate|Shop)/);
       
       expect(oauthRequests1.length).toBe(1);
       expect(rateRequests1.length).toBe(1);
@@ -231,7 +302,7 @@ describe('Carrier Integration Service - End-to-End Integration Tests', () => {
       await service.getRates(validRateRequest);
       
       const oauthRequests2 = stubClient.getCapturedRequestsForUrl(/\/security\/v1\/oauth\/token/);
-      const rateRequests2 = stubClient.getCapturedRequestsForUrl(/\/api\/rating\/v1\/Rate/);
+      const rateRequests2 = stubClient.getCapturedRequestsForUrl(/\/api\/rating\/v1\/(Rate|Shop)/);
       
       // OAuth should still be 1 (cached), but rate requests should be 2
       expect(oauthRequests2.length).toBe(1); // No new OAuth call
@@ -245,7 +316,7 @@ describe('Carrier Integration Service - End-to-End Integration Tests', () => {
       // First rate API call returns 401 (expired token)
       let rateCallCount = 0;
       stubClient.onRequest((req) => {
-        if (req.url.includes('/api/rating/v1/Rate')) {
+        if (req.url.includes('/api/rating/v1/Shop')) {
           rateCallCount++;
           if (rateCallCount === 1) {
             // First call with expired token returns 401
@@ -299,7 +370,7 @@ describe('Carrier Integration Service - End-to-End Integration Tests', () => {
       expect(oauthRequests.length).toBe(1);
       
       // But 5 rate API calls
-      const rateRequests = stubClient.getCapturedRequestsForUrl(/\/api\/rating\/v1\/Rate/);
+      const rateRequests = stubClient.getCapturedRequestsForUrl(/\/api\/rating\/v1\/(Rate|Shop)/);
       expect(rateRequests.length).toBe(5);
     });
   });
@@ -317,6 +388,15 @@ describe('Carrier Integration Service - End-to-End Integration Tests', () => {
       ).rejects.toHaveProperty('code', ErrorCode.AUTH_FAILED);
     });
 
+    it('should report AUTH_FAILED when UPS rejects the refreshed token', async () => {
+      upsMocks.ratingApi.setup401Unauthorized();
+
+      await expect(
+        service.getRatesFromCarrier('UPS', validRateRequest)
+      ).rejects.toHaveProperty('code', ErrorCode.AUTH_FAILED);
+      expect(stubClient.getCapturedRequestsForUrl(/\/api\/rating\/v1\//)).toHaveLength(2);
+    });
+
     it('should handle rate limit errors (RATE_LIMITED)', async () => {
       upsMocks.ratingApi.setup429RateLimited();
 
@@ -375,7 +455,7 @@ describe('Carrier Integration Service - End-to-End Integration Tests', () => {
     it('should handle network timeouts (TIMEOUT)', async () => {
       // Setup timeout only for rating API (OAuth should succeed first)
       stubClient.onRequest((req) => {
-        if (req.url.includes('/api/rating/v1/Rate')) {
+        if (req.url.includes('/api/rating/v1/Shop')) {
           throw new Error('Request timeout');
         }
         return null;
@@ -422,10 +502,28 @@ describe('Carrier Integration Service - End-to-End Integration Tests', () => {
       );
 
       // API should not be called for invalid input
-      const rateRequests = stubClient.getCapturedRequestsForUrl(/\/api\/rating\/v1\/Rate/);
+      const rateRequests = stubClient.getCapturedRequestsForUrl(/\/api\/rating\/v1\/(Rate|Shop)/);
       expect(rateRequests.length).toBe(0);
     });
 
+    it('should reject unknown weight and dimension units', async () => {
+      const invalidRequest = {
+        ...validRateRequest,
+        packages: [{ weight: 5, weightUnit: 'OZ' }],
+      };
+
+      await expect(service.getRates(invalidRequest as RateRequest)).rejects.toHaveProperty(
+        'code',
+        ErrorCode.INVALID_REQUEST
+      );
+      await expect(
+        service.getRates({
+          ...validRateRequest,
+          packages: [{ weight: 5, dimensions: { length: 1, width: 1, height: 1, unit: 'MM' } }],
+        } as unknown as RateRequest)
+      ).rejects.toHaveProperty('code', ErrorCode.INVALID_REQUEST);
+    });
+
     it('should validate address format', async () => {
       const invalidRequest = {
         ...validRateRequest,
@@ -457,13 +555,19 @@ describe('Carrier Integration Service - End-to-End Integration Tests', () => {
 
     it('should handle case-insensitive carrier names', async () => {
       upsMocks.ratingApi.setupSuccessResponse();
-
-      const quotes1 = await service.getRatesFromCarrier('UPS', validRateRequest);
-      const quotes2 = await service.getRatesFromCarrier('ups', validRateRequest);
-      const quotes3 = await service.getRatesFromCarrier('Ups', validRateRequest);
-
-      expect(quotes1).toEqual(quotes2);
-      expect(quotes2).toEqual(quotes3);
+      // Quote IDs embed Date.now(); freeze it so the three calls are comparable
+      const now = jest.spyOn(Date, 'now').mockReturnValue(Date.now());
+
+      try {
+        const quotes1 = await service.getRatesFromCarrier('UPS', validRateRequest);
+        const quotes2 = await service.getRatesFromCarrier('ups', validRateRequest);
+        const quotes3 = await service.getRatesFromCarrier('Ups', validRateRequest);
+
+        expect(quotes1).toEqual(quotes2);
+        expect(quotes2).toEqual(quotes3);
+      } finally {
+        now.mockRestore();
+      }
     });
 
     it('should throw error for unconfigured carrier', async () => {
@@ -491,7 +595,7 @@ describe('Carrier Integration Service - End-to-End Integration Tests', () => {
 
       await service.getRates(multiPackageRequest);
 
-      const rateRequests = stubClient.getCapturedRequestsForUrl(/\/api\/rating\/v1\/Rate/);
+      const rateRequests = stubClient.getCapturedRequestsForUrl(/\/api\/rating\/v1\/(Rate|Shop)/);
       const requestBody = rateRequests[0].body as any;
 
       expect(requestBody.RateRequest.Shipment.Package).toHaveLength(3);
@@ -500,7 +604,7 @@ describe('Carrier Integration Service - End-to-End Integration Tests', () => {
       expect(requestBody.RateRequest.Shipment.Package[2].Dimensions).toBeDefined();
     });
 
-    it('should handle optional service level filter', async () => {
+    it('should rate a single service in Rate mode when a service level is given', async () => {
       const requestWithServiceLevel: RateRequest = {
         ...validRateRequest,
         serviceLevel: 'GROUND',
@@ -510,9 +614,1636 @@ describe('Carrier Integration Service - End-to-End Integration Tests', () => {
 
       const quotes = await service.getRates(requestWithServiceLevel);
 
-      // Service level is passed through but UPS returns all services
-      // In a real implementation, this might filter results
-      expect(quotes.length).toBeGreaterThan(0);
+      const [capturedRequest] = stubClient.getCapturedRequestsForUrl(/\/api\/rating\/v1\//);
+      const requestBody = capturedRequest.body as any;
+      expect(capturedRequest.url).toMatch(/\/api\/rating\/v1\/Rate$/);
+      expect(requestBody.RateRequest.Request.RequestOption).toBe('Rate');
+      expect(requestBody.RateRequest.Shipment.Service).toEqual({ Code: '03' });
+
+      // Only the requested service is quoted even if UPS returns others
+      expect(quotes.map((q) => q.serviceLevel)).toEqual(['03']);
+    });
+
+    it('should reject an unknown service level', async () => {
+      await expect(
+        service.getRates({ ...validRateRequest, serviceLevel: 'SAME_DAY' as any })
+      ).rejects.toHaveProperty('code', ErrorCode.INVALID_REQUEST);
+    });
+  });
+
+  describe('Retry Policy', () => {
+    it('should recover from a transient UPS outage when retries are configured', async () => {
+      upsMocks.ratingApi.setupSuccessResponse();
+      let ratingCalls = 0;
+      stubClient.onRequest((req) =>
+        /\/api\/rating\/v1\/(Rate|Shop)/.test(req.url) && ratingCalls++ === 0
+          ? { status: 503, body: {} }
+          : null
+      );
+
+      const retryingService = new CarrierIntegrationService({
+        carriers: [
+          createUPSAdapter(
+            stubClient,
+            { baseUrl: 'https://wwwcie.ups.com', retry: { maxAttempts: 2, baseDelayMs: 1 } },
+            false
+          ),
+        ],
+      });
+
+      const quotes = await retryingService.getRatesFromCarrier('UPS', validRateRequest);
+
+      expect(quotes).toHaveLength(4);
+      expect(stubClient.getCapturedRequestsForUrl(/\/api\/rating\/v1\/(Rate|Shop)/)).toHaveLength(2);
+    });
+
+    it('should not retry UPS shipment creation after a server error', async () => {
+      upsMocks.shippingApi.setupSuccessResponse();
+      stubClient.stubUrl(/\/api\/shipments\/v1\/ship$/, { status: 503, body: {} });
+
+      const retryingService = new CarrierIntegrationService({
+        carriers: [
+          createUPSAdapter(
+            stubClient,
+            { baseUrl: 'https://wwwcie.ups.com', retry: { maxAttempts: 3, baseDelayMs: 1 } },
+            false
+          ),
+        ],
+      });
+
+      await expect(
+        retryingService.createShipment({
+          carrier: 'UPS',
+          serviceLevel: '03',
+          shipper: { name: 'Jane Shipper', phone: '2125551234', address: validRateRequest.origin },
+          recipient: { name: 'John Recipient', address: validRateRequest.destination },
+          packages: validRateRequest.packages,
+        })
+      ).rejects.toHaveProperty('code', ErrorCode.CARRIER_UNAVAILABLE);
+      expect(stubClient.getCapturedRequestsForUrl(/\/api\/shipments\/v1\/ship$/)).toHaveLength(1);
+    });
+  });
+
+  describe('Circuit Breaker', () => {
+    let guardedService: CarrierIntegrationService;
+
+    beforeEach(() => {
+      guardedService = new CarrierIntegrationService({
+        carriers: [createUPSAdapter(stubClient, { baseUrl: 'https://wwwcie.ups.com' }, false)],
+        circuitBreaker: { failureThreshold: 2, cooldownMs: 60000 },
+      });
+    });
+
+    it('should fail fast once UPS has failed repeatedly', async () => {
+      upsMocks.ratingApi.setup503ServiceUnavailable();
+
+      for (let i = 0; i < 2; i++) {
+        await expect(
+          guardedService.getRatesFromCarrier('UPS', validRateRequest)
+        ).rejects.toHaveProperty('code', ErrorCode.CARRIER_UNAVAILABLE);
+      }
+      const ratingRequests = stubClient.getCapturedRequestsForUrl(/\/api\/rating\/v1\/(Rate|Shop)/).length;
+
+      await expect(guardedService.getRatesFromCarrier('UPS', validRateRequest)).rejects.toThrow(
+        'Circuit breaker for UPS is open'
+      );
+      expect(stubClient.getCapturedRequestsForUrl(/\/api\/rating\/v1\/(Rate|Shop)/)).toHaveLength(
+        ratingRequests
+      );
+
+      const [status] = guardedService.getCarrierStatuses();
+      expect(status.name).toBe('UPS');
+      expect(status.circuit).toMatchObject({
+        state: CircuitState.OPEN,
+        consecutiveFailures: 2,
+        lastError: { code: ErrorCode.CARRIER_UNAVAILABLE },
+      });
+    });
+
+    it('should not open the circuit for invalid requests', async () => {
+      upsMocks.ratingApi.setupUPSApiError();
+
+      for (let i = 0; i < 3; i++) {
+        await expect(
+          guardedService.getRatesFromCarrier('UPS', validRateRequest)
+        ).rejects.toHaveProperty('code', ErrorCode.INVALID_REQUEST);
+      }
+
+      expect(guardedService.getCarrierStatuses()[0].circuit?.state).toBe(CircuitState.CLOSED);
+    });
+
+    it('should report carrier capabilities without breakers when not configured', () => {
+      const [status] = service.getCarrierStatuses();
+
+      expect(status.capabilities).toEqual(
+        expect.arrayContaining(['rates', 'transitTimes', 'shipments', 'pickups', 'tracking'])
+      );
+      expect(status.circuit).toBeUndefined();
+    });
+  });
+
+  describe('Readiness', () => {
+    const tokenRequests = () =>
+      stubClient.getCapturedRequestsForUrl(/\/security\/v1\/oauth\/token/).length;
+
+    const createReadinessService = (readinessCacheMs?: number) =>
+      new CarrierIntegrationService({
+        carriers: [createUPSAdapter(stubClient, { baseUrl: 'https://wwwcie.ups.com' }, false)],
+        circuitBreaker: { failureThreshold: 1, cooldownMs: 60000 },
+        readinessCacheMs,
+      });
+
+    it('should be ready when every carrier gets a token and its circuit is closed', async () => {
+      const report = await createReadinessService().checkReadiness();
+
+      expect(report.ready).toBe(true);
+      expect(report.carriers).toEqual([
+        { name: 'UPS', ready: true, credentials: 'OK', circuit: CircuitState.CLOSED },
+      ]);
+      expect(tokenRequests()).toBe(1);
+    });
+
+    it('should report failed credentials with the last error', async () => {
+      upsMocks.oauth.setupOAuthError('invalid_credentials');
+
+      const report = await createReadinessService().checkReadiness();
+
+      expect(report.ready).toBe(false);
+      expect(report.carriers[0]).toMatchObject({
+        name: 'UPS',
+        ready: false,
+        credentials: 'FAILED',
+        lastError: { code: ErrorCode.AUTH_FAILED },
+      });
+    });
+
+    it('should not be ready while a circuit is open', async () => {
+      upsMocks.ratingApi.setup503ServiceUnavailable();
+      const readinessService = createReadinessService();
+      await readinessService.shopRates(validRateRequest);
+
+      const report = await readinessService.checkReadiness();
+
+      expect(report.ready).toBe(false);
+      expect(report.carriers[0]).toMatchObject({
+        credentials: 'OK',
+        circuit: CircuitState.OPEN,
+        lastError: { code: ErrorCode.CARRIER_UNAVAILABLE },
+      });
+    });
+
+    it('should cache results so repeated probes do not request tokens', async () => {
+      upsMocks.oauth.setupOAuthError('invalid_credentials');
+      const readinessService = createReadinessService();
+
+      const [first, second] = await Promise.all([
+        readinessService.checkReadiness(),
+        readinessService.checkReadiness(),
+      ]);
+      const third = await readinessService.checkReadiness();
+
+      expect(second).toBe(first);
+      expect(third).toBe(first);
+      expect(tokenRequests()).toBe(1);
+    });
+
+    it('should check again once the cached result expires', async () => {
+      upsMocks.oauth.setupOAuthError('invalid_credentials');
+      const readinessService = createReadinessService(0);
+
+      await readinessService.checkReadiness();
+      await readinessService.checkReadiness();
+
+      expect(tokenRequests()).toBe(2);
+    });
+
+    it('should leave credentials unchecked for carriers without a credential check', async () => {
+      const readinessService = new CarrierIntegrationService({
+        carriers: [{ getName: () => 'LOCAL', getRates: async () => [] }],
+      });
+
+      const report = await readinessService.checkReadiness();
+
+      expect(report.ready).toBe(true);
+      expect(report.carriers).toEqual([
+        { name: 'LOCAL', ready: true, credentials: 'UNCHECKED', circuit: 'DISABLED' },
+      ]);
+    });
+  });
+
+  describe('Multi-Tenant', () => {
+    let tenantService: CarrierIntegrationService;
+    let defaultCarriers: ReturnType<typeof createUPSAdapter>[];
+    let tenants: TenantRegistry;
+
+    const tokenClientIds = () =>
+      stubClient
+        .getCapturedRequestsForUrl(/\/security\/v1\/oauth\/token/)
+        .map((req) => new URLSearchParams(req.body as string).get('client_id'));
+    const ratedShipperNumbers = () =>
+      stubClient
+        .getCapturedRequestsForUrl(/\/api\/rating\/v1\/(Rate|Shop)/)
+        .map((req) => (req.body as any).RateRequest.Shipment.Shipper.ShipperNumber);
+
+    beforeEach(() => {
+      upsMocks.ratingApi.setupSuccessResponse();
+      defaultCarriers = [
+        createUPSAdapter(stubClient, { baseUrl: 'https://wwwcie.ups.com' }, false),
+      ];
+      tenants = new TenantRegistry(
+        [
+          {
+            id: 'brand-a',
+            ups: {
+              clientId: 'test-client-id-a',
+              clientSecret: 'test-client-secret-a',
+              shipperNumber: 'A12345',
+            },
+          },
+          {
+            id: 'brand-b',
+            ups: {
+              clientId: 'test-client-id-b',
+              clientSecret: 'test-client-secret-b',
+              shipperNumber: 'B67890',
+            },
+          },
+        ],
+        (tenant) =>
+          createTenantCarriers(tenant, stubClient, { baseUrl: 'https://wwwcie.ups.com' })
+      );
+      tenantService = new CarrierIntegrationService({
+        carriers: defaultCarriers,
+        rateCache: new RateCache(new InMemoryRateCacheStore(), { ttlMs: 60000 }),
+        tenants,
+      });
+    });
+
+    it("should rate with each tenant's own UPS account and token cache", async () => {
+      await runWithTenant('brand-a', () => tenantService.shopRates(validRateRequest));
+      await runWithTenant('brand-b', () => tenantService.shopRates(validRateRequest));
+      await runWithTenant('brand-a', () =>
+        tenantService.getRatesFromCarrier('UPS', { ...validRateRequest, serviceLevel: 'GROUND' })
+      );
+
+      expect(tokenClientIds()).toEqual(['test-client-id-a', 'test-client-id-b']);
+      expect(ratedShipperNumbers()).toEqual(['A12345', 'B67890', 'A12345']);
+    });
+
+    it('should use the default carriers outside a tenant', async () => {
+      await tenantService.shopRates(validRateRequest);
+
+      expect(tokenClientIds()).toEqual(['test-client-id']);
+      expect(ratedShipperNumbers()).toEqual(['TEST01']);
+    });
+
+    it('should not share cached quotes between tenants', async () => {
+      const shopAs = (tenantId: string) =>
+        runWithTenant(tenantId, () => tenantService.shopRates(validRateRequest));
+
+      const first = await shopAs('brand-a');
+      const second = await shopAs('brand-b');
+      const repeat = await shopAs('brand-a');
+
+      expect(first.cacheHits).toBe(0);
+      expect(second.cacheHits).toBe(0);
+      expect(repeat.cacheHits).toBe(1);
+    });
+
+    it("should keep each tenant's circuit breaker separate", async () => {
+      const guardedService = new CarrierIntegrationService({
+        carriers: defaultCarriers,
+        circuitBreaker: { failureThreshold: 1, cooldownMs: 60000 },
+        tenants,
+      });
+      upsMocks.ratingApi.setup503ServiceUnavailable();
+
+      await runWithTenant('brand-a', () => guardedService.shopRates(validRateRequest));
+
+      const circuits = guardedService
+        .getCarrierStatuses()
+        .map(({ name, tenantId, circuit }) => [tenantId ?? null, name, circuit?.state]);
+      expect(circuits).toEqual([
+        [null, 'UPS', CircuitState.CLOSED],
+        ['brand-a', 'UPS', CircuitState.OPEN],
+        ['brand-b', 'UPS', CircuitState.CLOSED],
+      ]);
+
+      upsMocks.ratingApi.setupSuccessResponse();
+      const result = await runWithTenant('brand-b', () =>
+        guardedService.shopRates(validRateRequest)
+      );
+      expect(result.partial).toBe(false);
+    });
+
+    it("should check every tenant's own carriers for readiness", async () => {
+      const report = await tenantService.checkReadiness();
+
+      expect(report.carriers.map(({ tenantId, name }) => [tenantId ?? null, name])).toEqual([
+        [null, 'UPS'],
+        ['brand-a', 'UPS'],
+        ['brand-b', 'UPS'],
+      ]);
+      expect(tokenClientIds().sort()).toEqual([
+        'test-client-id',
+        'test-client-id-a',
+        'test-client-id-b',
+      ]);
+    });
+
+    it('should share the default carriers with tenants that have no account of their own', async () => {
+      const sharingService = new CarrierIntegrationService({
+        carriers: defaultCarriers,
+        circuitBreaker: { failureThreshold: 1, cooldownMs: 60000 },
+        tenants: new TenantRegistry([{ id: 'brand-c' }], (tenant) =>
+          createTenantCarriers(tenant, stubClient)
+        ),
+      });
+      upsMocks.ratingApi.setup503ServiceUnavailable();
+
+      await runWithTenant('brand-c', () => sharingService.shopRates(validRateRequest));
+      await sharingService.checkReadiness();
+
+      // Listed and checked once, with the default account's breaker
+      expect(
+        sharingService.getCarrierStatuses().map(({ name, tenantId, circuit }) => ({
+          name,
+          tenantId,
+          state: circuit?.state,
+        }))
+      ).toEqual([{ name: 'UPS', tenantId: undefined, state: CircuitState.OPEN }]);
+      expect(tokenClientIds()).toEqual(['test-client-id']);
+    });
+
+    it("should validate addresses with the tenant's own account", async () => {
+      const validatingService = new CarrierIntegrationService({
+        carriers: defaultCarriers,
+        addressValidator: defaultCarriers[0],
+        validateAddressesBeforeRating: true,
+        tenants,
+      });
+
+      await runWithTenant('brand-a', () => validatingService.shopRates(validRateRequest));
+      await runWithTenant('brand-b', () =>
+        validatingService.validateAddress(validRateRequest.destination)
+      );
+
+      // Origin and destination for brand-a, one address for brand-b, none on the default account
+      expect(stubClient.getCapturedRequestsForUrl(/\/api\/addressvalidation\//)).toHaveLength(3);
+      expect(tokenClientIds()).toEqual(['test-client-id-a', 'test-client-id-b']);
+    });
+
+    it('should reject tenants that are not configured', async () => {
+      await expect(
+        runWithTenant('brand-z', () => tenantService.shopRates(validRateRequest))
+      ).rejects.toMatchObject({
+        code: ErrorCode.INVALID_REQUEST,
+        message: "Tenant 'brand-z' is not configured",
+      });
+    });
+  });
+
+  describe('Structured Logging', () => {
+    let lines: string[];
+    let loggedService: CarrierIntegrationService;
+
+    const entries = () => lines.map((line) => JSON.parse(line));
+
+    beforeEach(() => {
+      lines = [];
+      const logger = new JsonLogger({ level: 'debug', write: (line) => lines.push(line) });
+      loggedService = new CarrierIntegrationService({
+        carriers: [
+          createUPSAdapter(
+            new LoggingHttpClient(stubClient, logger),
+            {
+              baseUrl: 'https://wwwcie.ups.com',
+              oauth: {
+                tokenUrl: 'https://wwwcie.ups.com/security/v1/oauth/token',
+                clientId: 'test-client-id',
+                clientSecret: 'test-client-secret',
+                scope: 'rating',
+              },
+            },
+            false
+          ),
+        ],
+        logger,
+      });
+    });
+
+    it('should tag service and HTTP logs with the request correlation ID', async () => {
+      upsMocks.ratingApi.setup503ServiceUnavailable();
+
+      await runWithCorrelationId('req-abc', () => loggedService.shopRates(validRateRequest));
+
+      const ratingCall = entries().find((e) => /\/api\/rating\/v1\/(Rate|Shop)/.test(e.url));
+      expect(ratingCall).toMatchObject({
+        level: 'warn',
+        message: 'Carrier HTTP request completed',
+        correlationId: 'req-abc',
+        method: 'POST',
+        status: 503,
+        requestHeaders: { Authorization: '[REDACTED]', transId: expect.stringMatching(/^TXN-/) },
+      });
+      expect(entries()).toContainEqual(
+        expect.objectContaining({
+          level: 'error',
+          message: 'Carrier rate request failed',
+          correlationId: 'req-abc',
+          carrier: 'UPS',
+          error: expect.objectContaining({ code: ErrorCode.CARRIER_UNAVAILABLE }),
+        })
+      );
+    });
+
+    it('should never log OAuth credentials', async () => {
+      upsMocks.ratingApi.setupSuccessResponse();
+
+      await loggedService.getRatesFromCarrier('UPS', validRateRequest);
+
+      const tokenCall = entries().find((e) => /\/security\/v1\/oauth\/token/.test(e.url));
+      const ratingCall = entries().find((e) => /\/api\/rating\/v1\/(Rate|Shop)/.test(e.url));
+      expect(tokenCall).toMatchObject({ status: 200 });
+      expect(ratingCall.requestHeaders.Authorization).toBe('[REDACTED]');
+      expect(lines.join('\n')).not.toContain('test-client-secret');
+      expect(lines.join('\n')).not.toMatch(/Bearer (?!\[REDACTED\])/);
+    });
+  });
+
+  describe('Metrics', () => {
+    let metrics: CarrierMetrics;
+    let meteredService: CarrierIntegrationService;
+
+    beforeEach(() => {
+      metrics = new CarrierMetrics();
+      meteredService = new CarrierIntegrationService({
+        carriers: [
+          createUPSAdapter(
+            new InstrumentedHttpClient(stubClient, metrics.httpHooks),
+            { baseUrl: 'https://wwwcie.ups.com', oauthHooks: metrics.oauthHooks('UPS') },
+            false
+          ),
+        ],
+        rateCache: new RateCache(new InMemoryRateCacheStore(), { ttlMs: 60000 }),
+        hooks: metrics.serviceHooks,
+      });
+    });
+
+    it('should record rate outcomes, cache lookups, token requests and HTTP latency', async () => {
+      upsMocks.ratingApi.setupSuccessResponse();
+
+      await meteredService.shopRates(validRateRequest);
+      await meteredService.shopRates(validRateRequest);
+
+      const output = metrics.render();
+      expect(output).toContain('carrier_rate_requests_total{carrier="UPS",outcome="success"} 2');
+      expect(output).toContain('rate_cache_lookups_total{carrier="UPS",result="miss"} 1');
+      expect(output).toContain('rate_cache_lookups_total{carrier="UPS",result="hit"} 1');
+      expect(output).toContain(
+        'carrier_oauth_token_requests_total{carrier="UPS",outcome="success"} 1'
+      );
+      expect(output).toContain(
+        'carrier_http_request_duration_seconds_count{host="wwwcie.ups.com",method="POST",status="200"} 2'
+      );
+    });
+
+    it('should count carrier errors by operation and error code', async () => {
+      upsMocks.ratingApi.setup503ServiceUnavailable();
+
+      upsMocks.trackingApi.setupNotFound();
+
+      await meteredService.shopRates(validRateRequest);
+      await expect(meteredService.trackShipment('UPS', '1Z999AA10123456784')).rejects.toThrow();
+
+      const output = metrics.render();
+      expect(output).toContain('carrier_rate_requests_total{carrier="UPS",outcome="failed"} 1');
+      expect(output).toContain(
+        'carrier_errors_total{carrier="UPS",operation="getRates",code="CARRIER_UNAVAILABLE"} 1'
+      );
+      expect(output).toContain(
+        'carrier_errors_total{carrier="UPS",operation="trackShipment",code="NOT_FOUND"} 1'
+      );
+      expect(output).toContain(
+        'carrier_http_request_duration_seconds_count{host="wwwcie.ups.com",method="POST",status="503"} 1'
+      );
+    });
+  });
+
+  describe('Tracing', () => {
+    const exporter = new InMemorySpanExporter();
+    let tracedService: CarrierIntegrationService;
+
+    const findSpan = (name: string): ReadableSpan => {
+      const span = exporter.getFinishedSpans().find((s) => s.name === name);
+      if (!span) {
+        throw new Error(`No span named ${name}`);
+      }
+      return span;
+    };
+    const childrenOf = (parent: ReadableSpan): string[] =>
+      exporter
+        .getFinishedSpans()
+        .filter((s) => s.parentSpanContext?.spanId === parent.spanContext().spanId)
+        .map((s) => s.name);
+
+    beforeAll(() => {
+      setupTracing(exporter);
+    });
+
+    afterAll(() => {
+      disableTracing();
+    });
+
+    beforeEach(() => {
+      exporter.reset();
+      tracedService = new CarrierIntegrationService({
+        carriers: [
+          createUPSAdapter(
+            new TracingHttpClient(stubClient, { propagateContext: true }),
+            { baseUrl: 'https://wwwcie.ups.com' },
+            false
+          ),
+        ],
+      });
+    });
+
+    it('should trace rate shopping from validation through OAuth, HTTP and transformation', async () => {
+      upsMocks.ratingApi.setupSuccessResponse();
+
+      await tracedService.shopRates(validRateRequest);
+
+      const shop = findSpan('rates.shop');
+      expect(shop.parentSpanContext).toBeUndefined();
+      expect(shop.attributes['rates.partial']).toBe(false);
+      expect(childrenOf(shop)).toEqual(['rates.validate', 'rates.carrier']);
+
+      const carrierSpan = findSpan('rates.carrier');
+      expect(carrierSpan.attributes).toMatchObject({
+        'carrier.name': 'UPS',
+        'rates.status': 'SUCCESS',
+        'rates.cache': 'DISABLED',
+      });
+      expect(childrenOf(carrierSpan)).toEqual([
+        'oauth.get_token',
+        'HTTP POST',
+        'carrier.transform_response',
+      ]);
+
+      const token = findSpan('oauth.get_token');
+      expect(token.attributes['oauth.token_source']).toBe('token_endpoint');
+      expect(childrenOf(token)).toEqual(['HTTP POST']);
+
+      // Every span belongs to the same trace
+      const traceIds = new Set(exporter.getFinishedSpans().map((s) => s.spanContext().traceId));
+      expect(traceIds.size).toBe(1);
+    });
+
+    it('should propagate the trace to carriers in the traceparent header', async () => {
+      upsMocks.ratingApi.setupSuccessResponse();
+
+      await tracedService.shopRates(validRateRequest);
+
+      const ratingCall = stubClient.getCapturedRequestsForUrl(/\/api\/rating\/v1\/(Rate|Shop)/)[0];
+      const httpSpan = exporter
+        .getFinishedSpans()
+        .find((s) => s.name === 'HTTP POST' && s.attributes['url.full'] === ratingCall.url)!;
+      const { traceId, spanId } = httpSpan.spanContext();
+      expect(ratingCall.headers?.traceparent).toBe(`00-${traceId}-${spanId}-01`);
+      expect(httpSpan.attributes['http.response.status_code']).toBe(200);
+    });
+
+    it('should not send traceparent to carriers unless propagation is enabled', async () => {
+      upsMocks.ratingApi.setupSuccessResponse();
+      const service = new CarrierIntegrationService({
+        carriers: [
+          createUPSAdapter(
+            new TracingHttpClient(stubClient),
+            { baseUrl: 'https://wwwcie.ups.com' },
+            false
+          ),
+        ],
+      });
+
+      await service.shopRates(validRateRequest);
+
+      const ratingCall = stubClient.getCapturedRequestsForUrl(/\/api\/rating\/v1\/(Rate|Shop)/)[0];
+      expect(ratingCall.headers?.traceparent).toBeUndefined();
+      expect(exporter.getFinishedSpans().some((s) => s.name === 'HTTP POST')).toBe(true);
+    });
+
+    it('should mark failed carriers on their span', async () => {
+      upsMocks.ratingApi.setup503ServiceUnavailable();
+
+      const result = await tracedService.shopRates(validRateRequest);
+
+      expect(result.partial).toBe(true);
+      const carrierSpan = findSpan('rates.carrier');
+      expect(carrierSpan.status.code).toBe(SpanStatusCode.ERROR);
+      expect(carrierSpan.attributes).toMatchObject({
+        'rates.status': 'FAILED',
+        'error.code': ErrorCode.CARRIER_UNAVAILABLE,
+      });
+    });
+  });
+
+  describe('Rate Caching', () => {
+    let cachedService: CarrierIntegrationService;
+
+    beforeEach(() => {
+      upsMocks.ratingApi.setupSuccessResponse();
+      cachedService = new CarrierIntegrationService({
+        carriers: [
+          createUPSAdapter(stubClient, { baseUrl: 'https://wwwcie.ups.com' }, false),
+        ],
+        rateCache: new RateCache(new InMemoryRateCacheStore(), { ttlMs: 60000 }),
+      });
+    });
+
+    it('should serve repeated lanes from the cache and report hits', async () => {
+      const first = await cachedService.shopRates(validRateRequest);
+      const second = await cachedService.shopRates({
+        ...validRateRequest,
+        destination: { ...validRateRequest.destination, city: 'LOS ANGELES ' },
+      });
+
+      expect(first.carriers[0].cache).toBe('MISS');
+      expect(first.cacheHits).toBe(0);
+      expect(second.carriers[0].cache).toBe('HIT');
+      expect(second.cacheHits).toBe(1);
+      expect(second.quotes).toEqual(first.quotes);
+      expect(stubClient.getCapturedRequestsForUrl(/\/api\/rating\/v1\/(Rate|Shop)/)).toHaveLength(1);
+    });
+
+    it('should share the cache with single-carrier rating', async () => {
+      await cachedService.getRatesFromCarrier('ups', validRateRequest);
+      const { carriers } = await cachedService.shopRates(validRateRequest);
+
+      expect(carriers[0].cache).toBe('HIT');
+    });
+
+    it('should not cache carrier failures', async () => {
+      upsMocks.ratingApi.setup503ServiceUnavailable();
+      await cachedService.shopRates(validRateRequest);
+
+      upsMocks.ratingApi.setupSuccessResponse();
+      const { quotes, carriers } = await cachedService.shopRates(validRateRequest);
+
+      expect(carriers[0].cache).toBe('MISS');
+      expect(quotes).toHaveLength(4);
+    });
+
+    it('should report DISABLED when no cache is configured', async () => {
+      const { carriers, cacheHits } = await service.shopRates(validRateRequest);
+
+      expect(carriers[0].cache).toBe('DISABLED');
+      expect(cacheHits).toBe(0);
+    });
+  });
+
+  describe('Currency Conversion', () => {
+    let fxService: CarrierIntegrationService;
+
+    beforeEach(() => {
+      upsMocks.ratingApi.setupSuccessResponse();
+      fxService = new CarrierIntegrationService({
+        carriers: [
+          createUPSAdapter(stubClient, { baseUrl: 'https://wwwcie.ups.com' }, false),
+        ],
+        rateCache: new RateCache(new InMemoryRateCacheStore(), { ttlMs: 60000 }),
+        exchangeRates: new StaticExchangeRateProvider({ EUR: 0.92, CAD: 1.36 }),
+      });
+    });
+
+    it('should convert quotes to the display currency and keep the original amount', async () => {
+      const quotes = await fxService.getRates({ ...validRateRequest, displayCurrency: 'EUR' });
+
+      expect(quotes[0]).toMatchObject({
+        totalCost: 23.46,
+        currency: 'EUR',
+        originalCost: { amount: 2550, currency: 'USD' },
+      });
+      expect(quotes.every((quote) => quote.currency === 'EUR')).toBe(true);
+    });
+
+    it('should leave quotes untouched without a display currency', async () => {
+      const [quote] = await fxService.getRates(validRateRequest);
+
+      expect(quote).toMatchObject({ totalCost: 25.5, currency: 'USD' });
+      expect(quote.originalCost).toBeUndefined();
+    });
+
+    it('should cache carrier-currency quotes and convert per request', async () => {
+      await fxService.getRatesFromCarrier('UPS', { ...validRateRequest, displayCurrency: 'EUR' });
+      const { quotes, carriers } = await fxService.shopRates({
+        ...validRateRequest,
+        displayCurrency: 'CAD',
+      });
+
+      expect(carriers[0].cache).toBe('HIT');
+      expect(quotes[0]).toMatchObject({ totalCost: 34.68, currency: 'CAD' });
+    });
+
+    it('should reject display currencies without a rate or provider', async () => {
+      await expect(
+        fxService.getRates({ ...validRateRequest, displayCurrency: 'GBP' })
+      ).rejects.toMatchObject({
+        code: ErrorCode.INVALID_REQUEST,
+        message: "No exchange rate for currency 'GBP'",
+      });
+      expect(stubClient.getCapturedRequestsForUrl(/\/api\/rating\/v1\/(Rate|Shop)/)).toHaveLength(0);
+      await expect(
+        fxService.getRates({ ...validRateRequest, displayCurrency: 'eur' })
+      ).rejects.toHaveProperty('code', ErrorCode.INVALID_REQUEST);
+
+      stubClient.clearCapturedRequests();
+      await expect(
+        service.getRates({ ...validRateRequest, displayCurrency: 'EUR' })
+      ).rejects.toHaveProperty('code', ErrorCode.UNSUPPORTED_OPERATION);
+      expect(stubClient.getCapturedRequestsForUrl(/\/api\/rating\/v1\/(Rate|Shop)/)).toHaveLength(0);
+    });
+
+    it('should fail only the carrier whose quotes cannot be converted', async () => {
+      stubClient.stubUrl(/\/api\/rating\/v1\/(Rate|Shop)/, {
+        status: 200,
+        headers: { 'content-type': 'application/json' },
+        body: JSON.parse(JSON.stringify(successfulUPSRateResponse).replace(/"USD"/g, '"GBP"')),
+      });
+      setupUSPSMocks(stubClient).pricesApi.setupDomesticSuccessResponse();
+      const shopService = new CarrierIntegrationService({
+        carriers: [
+          createUPSAdapter(stubClient, { baseUrl: 'https://wwwcie.ups.com' }, false),
+          createUSPSAdapter(stubClient, undefined, false),
+        ],
+        exchangeRates: new StaticExchangeRateProvider({ EUR: 0.92 }),
+      });
+
+      const result = await shopService.shopRates({ ...validRateRequest, displayCurrency: 'EUR' });
+
+      expect(result.partial).toBe(true);
+      expect(result.carriers[0]).toMatchObject({
+        carrier: 'UPS',
+        status: 'FAILED',
+        quoteCount: 0,
+        error: { code: ErrorCode.INVALID_REQUEST, message: "No exchange rate for currency 'GBP'" },
+      });
+      expect(result.carriers[1].status).toBe('SUCCESS');
+      expect(result.quotes.length).toBeGreaterThan(0);
+      expect(result.quotes.every((quote) => quote.carrier === 'USPS')).toBe(true);
+      expect(result.quotes.every((quote) => quote.currency === 'EUR')).toBe(true);
+    });
+  });
+
+  describe('Charge Breakdown', () => {
+    it('should itemize base charges and surcharges per shipment and package', async () => {
+      upsMocks.ratingApi.setupSurchargedResponse();
+
+      const [quote] = await service.getRates(validRateRequest);
+
+      expect(quote.totalCost).toBe(50.88);
+      expect(quote.charges).toEqual([
+        { type: 'BASE', amount: 30.4 },
+        { type: 'RESIDENTIAL', amount: 5.55, code: '270', description: 'RESIDENTIAL ADDRESS' },
+        { type: 'FUEL_SURCHARGE', amount: 4.23, code: '375', description: 'FUEL SURCHARGE' },
+        { type: 'DELIVERY_AREA', amount: 1.2, code: '376', description: 'DELIVERY AREA' },
+        { type: 'ACCESSORIAL', amount: 9.5, code: '100', description: 'ADDITIONAL HANDLING' },
+      ]);
+      expect(quote.packageCharges).toEqual([
+        {
+          total: 21.98,
+          charges: [
+            { type: 'BASE', amount: 18.2 },
+            { type: 'FUEL_SURCHARGE', amount: 2.58, code: '375', description: 'FUEL SURCHARGE' },
+            { type: 'DELIVERY_AREA', amount: 1.2, code: '376', description: 'DELIVERY AREA' },
+          ],
+        },
+        {
+          total: 23.35,
+          charges: [
+            { type: 'BASE', amount: 12.2 },
+            { type: 'FUEL_SURCHARGE', amount: 1.65, code: '375', description: 'FUEL SURCHARGE' },
+            { type: 'ACCESSORIAL', amount: 9.5, code: '100', description: 'ADDITIONAL HANDLING' },
+          ],
+        },
+      ]);
+    });
+
+    it('should not count shipment totals again from the packages', async () => {
+      const [shipment] = upsRateResponseWithSurcharges.RateResponse!.RatedShipment!;
+      const [first, second] = shipment.RatedPackage!;
+      const charge = (value: string) => ({ CurrencyCode: 'USD', MonetaryValue: value });
+      stubClient.stubUrl(/\/api\/rating\/v1\/(Rate|Shop)/, {
+        status: 200,
+        headers: { 'content-type': 'application/json' },
+        body: {
+          RateResponse: {
+            ...upsRateResponseWithSurcharges.RateResponse,
+            RatedShipment: [
+              {
+                ...shipment,
+                ServiceOptionsCharges: charge('4.00'),
+                TotalCharges: charge('54.88'),
+                RatedPackage: [
+                  { ...first, ServiceOptionsCharges: charge('2.50'), TotalCharges: charge('24.48') },
+                  { ...second, ServiceOptionsCharges: charge('1.50'), TotalCharges: charge('24.85') },
+                ],
+              },
+            ],
+          },
+        },
+      });
+
+      const [quote] = await service.getRates(validRateRequest);
+      const sum = quote.charges!.reduce((total, line) => total + line.amount, 0);
+
+      expect(quote.totalCost).toBe(54.88);
+      expect(sum).toBeCloseTo(54.88, 2);
+      expect(quote.charges).toContainEqual({
+        type: 'ACCESSORIAL',
+        amount: 4,
+        description: 'Service options',
+      });
+      expect(quote.packageCharges?.map((pkg) => pkg.total)).toEqual([24.48, 24.85]);
+    });
+
+    it('should omit the breakdown when UPS does not itemize charges', async () => {
+      upsMocks.ratingApi.setupSuccessResponse();
+
+      const quotes = await service.getRates(validRateRequest);
+      const threeDaySelect = quotes.find((quote) => quote.serviceLevel === '12');
+
+      expect(threeDaySelect?.charges).toBeUndefined();
+      expect(threeDaySelect?.packageCharges).toBeUndefined();
+    });
+
+    it('should convert the breakdown along with the total', async () => {
+      upsMocks.ratingApi.setupSurchargedResponse();
+      const fxService = new CarrierIntegrationService({
+        carriers: [
+          createUPSAdapter(stubClient, { baseUrl: 'https://wwwcie.ups.com' }, false),
+        ],
+        exchangeRates: new StaticExchangeRateProvider({ EUR: 0.5 }),
+      });
+
+      const [quote] = await fxService.getRates({ ...validRateRequest, displayCurrency: 'EUR' });
+
+      expect(quote.totalCost).toBe(25.44);
+      expect(quote.charges?.[0]).toEqual({ type: 'BASE', amount: 15.2 });
+      expect(quote.packageCharges?.[1].total).toBe(11.68); // 11.675 rounds half up
+    });
+  });
+
+  describe('Negotiated Rates', () => {
+    it('should request negotiated rates from UPS only when asked', async () => {
+      upsMocks.ratingApi.setupNegotiatedRatesResponse();
+
+      await service.getRates(validRateRequest);
+      await service.getRates({ ...validRateRequest, negotiatedRates: true });
+
+      const [published, negotiated] = stubClient
+        .getCapturedRequestsForUrl(/\/api\/rating\/v1\/(Rate|Shop)/)
+        .map((captured) => (captured.body as any).RateRequest.Shipment);
+      expect(published.ShipmentRatingOptions).toBeUndefined();
+      expect(negotiated.ShipmentRatingOptions).toEqual({ NegotiatedRatesIndicator: 'Y' });
+      expect(negotiated.Shipper.ShipperNumber).toBe('TEST01');
+    });
+
+    it('should quote the negotiated amount and keep the published one', async () => {
+      upsMocks.ratingApi.setupNegotiatedRatesResponse();
+
+      const [ground, nextDayAir] = await service.getRates({
+        ...validRateRequest,
+        negotiatedRates: true,
+      });
+
+      expect(ground).toMatchObject({ serviceLevel: '03', totalCost: 19.12, publishedCost: 25.5 });
+      expect(ground.charges).toEqual([
+        { type: 'BASE', amount: 16.8 },
+        { type: 'FUEL_SURCHARGE', amount: 2.32, code: '375', description: 'FUEL SURCHARGE' },
+      ]);
+      expect(ground.packageCharges).toEqual([{ total: 19.12, charges: ground.charges }]);
+
+      // No contract rate for this service: published price only
+      expect(nextDayAir).toMatchObject({ serviceLevel: '01', totalCost: 45.75 });
+      expect(nextDayAir.publishedCost).toBeUndefined();
+    });
+
+    it('should quote the negotiated amount in its own currency', async () => {
+      const [ground] = upsRateResponseWithNegotiatedRates.RateResponse!.RatedShipment!;
+      stubClient.stubUrl(/\/api\/rating\/v1\/(Rate|Shop)/, {
+        status: 200,
+        headers: { 'content-type': 'application/json' },
+        body: {
+          RateResponse: {
+            ...upsRateResponseWithNegotiatedRates.RateResponse,
+            RatedShipment: [
+              {
+                ...ground,
+                NegotiatedRateCharges: {
+                  BaseServiceCharge: { CurrencyCode: 'JPY', MonetaryValue: '2850' },
+                  TotalCharge: { CurrencyCode: 'JPY', MonetaryValue: '2850' },
+                },
+                RatedPackage: undefined,
+              },
+            ],
+          },
+        },
+      });
+
+      const [quote] = await service.getRates({ ...validRateRequest, negotiatedRates: true });
+
+      expect(quote).toMatchObject({
+        totalCost: 2850,
+        currency: 'JPY',
+        publishedCost: 25.5,
+        publishedCurrency: 'USD',
+      });
+      expect(quote.charges).toEqual([{ type: 'BASE', amount: 2850 }]);
+
+      // Each amount is converted from its own currency
+      const fxService = new CarrierIntegrationService({
+        carriers: [createUPSAdapter(stubClient, { baseUrl: 'https://wwwcie.ups.com' }, false)],
+        exchangeRates: new StaticExchangeRateProvider({ JPY: 150, EUR: 0.92 }),
+      });
+      const [inYen] = await fxService.getRates({
+        ...validRateRequest,
+        negotiatedRates: true,
+        displayCurrency: 'JPY',
+      });
+      const [inEuros] = await fxService.getRates({
+        ...validRateRequest,
+        negotiatedRates: true,
+        displayCurrency: 'EUR',
+      });
+      expect(inYen).toMatchObject({ totalCost: 2850, currency: 'JPY', publishedCost: 3825 });
+      expect(inYen.publishedCurrency).toBeUndefined();
+      expect(inEuros).toMatchObject({ totalCost: 17.48, currency: 'EUR', publishedCost: 23.46 });
+      expect(inEuros.publishedCurrency).toBeUndefined();
+    });
+  });
+
+  describe('Transit Times', () => {
+    it('should return business-day transit times keyed by rating service code', async () => {
+      const transitTimes = await service.getTransitTimes('UPS', validRateRequest);
+
+      expect(transitTimes.map((t) => t.serviceLevel)).toEqual(['01', '02', '03']);
+      expect(transitTimes[2]).toEqual({
+        carrier: 'UPS',
+        serviceLevel: '03',
+        serviceName: 'UPS Ground',
+        businessDays: 5,
+        deliveryDate: '2026-02-13',
+        deliveryTime: '23:00:00',
+        cutoffTime: '16:30:00',
+        guaranteed: false,
+      });
+
+      const [captured] = stubClient.getCapturedRequestsForUrl(/\/api\/shipments\/v1\/transittimes/);
+      expect(captured.body).toMatchObject({
+        originPostalCode: '10001',
+        destinationPostalCode: '90001',
+        weight: '8.7',
+        weightUnitOfMeasure: 'LBS',
+        numberOfPackages: '2',
+      });
+    });
+
+    it("should ship on the origin's date unless the caller passes one", async () => {
+      // 21:00 in New York and 18:00 in Los Angeles, but already March 3 in UTC
+      jest.useFakeTimers({
+        now: new Date('2026-03-03T02:00:00Z'),
+        doNotFake: ['setTimeout', 'clearTimeout', 'setImmediate', 'nextTick'],
+      });
+      try {
+        const westCoast = { ...validRateRequest.origin, stateOrProvince: 'CA', postalCode: '90001' };
+        await service.getTransitTimes('UPS', validRateRequest);
+        await service.getTransitTimes('UPS', { ...validRateRequest, origin: westCoast });
+        await service.getTransitTimes('UPS', { ...validRateRequest, shipDate: '2026-03-05' });
+      } finally {
+        jest.useRealTimers();
+      }
+
+      const shipDates = stubClient
+        .getCapturedRequestsForUrl(/\/api\/shipments\/v1\/transittimes/)
+        .map((req) => (req.body as any).shipDate);
+      expect(shipDates).toEqual(['2026-03-02', '2026-03-02', '2026-03-05']);
+    });
+
+    it('should use business days from the rating response without transit times', async () => {
+      upsMocks.ratingApi.setupSuccessResponse();
+
+      const quotes = await service.getRates(validRateRequest);
+
+      expect(quotes.map((q) => q.estimatedDays)).toEqual([4, 1, 2, 3]);
+      expect(quotes[0].deliveryDate).toBeUndefined();
+      expect(stubClient.getCapturedRequestsForUrl(/transittimes/)).toHaveLength(0);
+    });
+
+    it('should merge transit times into quotes when requested', async () => {
+      upsMocks.ratingApi.setupSuccessResponse();
+
+      const quotes = await service.getRates({
+        ...validRateRequest,
+        includeTransitTimes: true,
+      });
+
+      const ground = quotes.find((q) => q.serviceLevel === '03');
+      expect(ground).toMatchObject({
+        estimatedDays: 5,
+        deliveryDate: '2026-02-13',
+        cutoffTime: '16:30:00',
+      });
+      // 3 Day Select has no transit entry and keeps its rating estimate
+      expect(quotes.find((q) => q.serviceLevel === '12')).toMatchObject({
+        estimatedDays: 3,
+      });
+    });
+
+    it('should still return quotes when transit times are unavailable', async () => {
+      upsMocks.ratingApi.setupSuccessResponse();
+      upsMocks.transitApi.setup503ServiceUnavailable();
+
+      const quotes = await service.getRatesFromCarrier('UPS', {
+        ...validRateRequest,
+        includeTransitTimes: true,
+      });
+
+      expect(quotes).toHaveLength(4);
+      expect(quotes[0].deliveryDate).toBeUndefined();
+    });
+  });
+
+  describe('Shipment Creation', () => {
+    const shipmentRequest: ShipmentRequest = {
+      carrier: 'UPS',
+      serviceLevel: '03',
+      shipper: {
+        name: 'Jane Shipper',
+        companyName: 'Acme Warehouse',
+        phone: '2125551234',
+        address: validRateRequest.origin,
+      },
+      recipient: {
+        name: 'John Recipient',
+        address: validRateRequest.destination,
+      },
+      packages: validRateRequest.packages,
+      reference: 'ORDER-1001',
+    };
+
+    it('should create a shipment and return tracking numbers with base64 labels', async () => {
+      const shipment = await service.createShipment(shipmentRequest);
+
+      expect(shipment).toEqual({
+        carrier: 'UPS',
+        trackingNumber: '1Z12345E0205271688',
+        packages: [
+          {
+            trackingNumber: '1Z12345E0205271688',
+            label: { format: 'GIF', data: sampleLabelGraphicImage },
+          },
+          {
+            trackingNumber: '1Z12345E0205271697',
+            label: { format: 'GIF', data: sampleLabelGraphicImage },
+          },
+        ],
+        totalCost: 25.5,
+        currency: 'USD',
+      });
+    });
+
+    it('should transform domain shipment request to UPS Shipping API format', async () => {
+      await service.createShipment({ ...shipmentRequest, labelFormat: 'ZPL' });
+
+      const [captured] = stubClient.getCapturedRequestsForUrl(/\/api\/shipments\/v1\/ship/);
+      const body = (captured.body as any).ShipmentRequest;
+
+      expect(captured.headers?.Authorization).toMatch(/^Bearer test-token-/);
+      expect(body.Shipment.Shipper).toMatchObject({
+        Name: 'Acme Warehouse',
+        AttentionName: 'Jane Shipper',
+        ShipperNumber: 'TEST01',
+        Phone: { Number: '2125551234' },
+      });
+      expect(body.Shipment.PaymentInformation.ShipmentCharge.BillShipper.AccountNumber).toBe('TEST01');
+      expect(body.Shipment.Service).toEqual({ Code: '03' });
+      expect(body.Shipment.Package).toHaveLength(2);
+      expect(body.Shipment.Package[0].Packaging).toEqual({ Code: '02' });
+      expect(body.LabelSpecification).toEqual({
+        LabelImageFormat: { Code: 'ZPL' },
+        LabelStockSize: { Height: '6', Width: '4' },
+      });
+    });
+
+    it('should handle single-package responses where PackageResults is an object', async () => {
+      upsMocks.shippingApi.setupSuccessResponse(successfulUPSSinglePackageShipmentResponse);
+
+      const shipment = await service.createShipment({
+        ...shipmentRequest,
+        packages: [{ weight: 2 }],
+      });
+
+      expect(shipment.packages).toHaveLength(1);
+      expect(shipment.packages[0].trackingNumber).toBe('1Z12345E0291980793');
+    });
+
+    it('should surface UPS shipping errors as INVALID_REQUEST', async () => {
+      upsMocks.shippingApi.setupInvalidServiceError();
+
+      await expect(service.createShipment(shipmentRequest)).rejects.toMatchObject({
+        code: ErrorCode.INVALID_REQUEST,
+        message: expect.stringContaining('requested service is unavailable'),
+      });
+    });
+
+    it('should validate shipment requests before calling the carrier', async () => {
+      await expect(
+        service.createShipment({ ...shipmentRequest, packages: [] })
+      ).rejects.toHaveProperty('code', ErrorCode.INVALID_REQUEST);
+
+      expect(stubClient.getCapturedRequestsForUrl(/\/api\/shipments/)).toHaveLength(0);
+    });
+
+    it('should reject carriers that do not support shipment creation', async () => {
+      const ratesOnlyService = new CarrierIntegrationService({
+        carriers: [createUSPSAdapter(stubClient, undefined, false)],
+      });
+
+      await expect(
+        ratesOnlyService.createShipment({ ...shipmentRequest, carrier: 'USPS' })
+      ).rejects.toHaveProperty('code', ErrorCode.UNSUPPORTED_OPERATION);
+    });
+  });
+
+  describe('Shipment Voiding', () => {
+    it('should void a shipment through the UPS Void API', async () => {
+      const result = await service.voidShipment('UPS', '1Z12345E0205271688');
+
+      expect(result).toEqual({
+        carrier: 'UPS',
+        trackingNumber: '1Z12345E0205271688',
+        voided: true,
+        status: 'Voided',
+      });
+
+      const [captured] = stubClient.getCapturedRequestsForUrl(/\/void\/cancel\//);
+      expect(captured.method).toBe('DELETE');
+      expect(captured.url).toBe(
+        'https://wwwcie.ups.com/api/shipments/v1/void/cancel/1Z12345E0205271688'
+      );
+    });
+
+    it('should report shipments already in transit as SHIPMENT_IN_TRANSIT', async () => {
+      upsMocks.shippingApi.setupVoidInTransit();
+
+      await expect(
+        service.voidShipment('UPS', '1Z12345E0205271688')
+      ).rejects.toMatchObject({
+        code: ErrorCode.SHIPMENT_IN_TRANSIT,
+        message: expect.stringContaining('already been picked up'),
+      });
+    });
+
+    it('should report expired void windows as VOID_WINDOW_EXPIRED', async () => {
+      upsMocks.shippingApi.setupVoidWindowExpired();
+
+      await expect(
+        service.voidShipment('UPS', '1Z12345E0205271688')
+      ).rejects.toHaveProperty('code', ErrorCode.VOID_WINDOW_EXPIRED);
+    });
+  });
+
+  describe('Pickup Scheduling', () => {
+    const pickupRequest: PickupRequest = {
+      carrier: 'UPS',
+      contact: {
+        name: 'Dock Supervisor',
+        companyName: 'Acme Warehouse',
+        phone: '2125550100',
+        address: validRateRequest.origin,
+      },
+      pickupDate: '2026-02-20',
+      readyTime: '09:00',
+      closeTime: '17:00',
+      packageCount: 3,
+      totalWeight: 25.5,
+    };
+
+    it('should schedule a pickup through the UPS Pickup API', async () => {
+      const pickup = await service.schedulePickup(pickupRequest);
+
+      expect(pickup).toEqual({
+        carrier: 'UPS',
+        confirmationNumber: '2929602E9CP',
+        pickupDate: '2026-02-20',
+        totalCost: 8.25,
+        currency: 'USD',
+      });
+
+      const [captured] = stubClient.getCapturedRequestsForUrl(/\/api\/pickupcreation\/v1\/pickup/);
+      expect(captured.headers?.Authorization).toMatch(/^Bearer test-token-/);
+      expect((captured.body as any).PickupCreationRequest).toMatchObject({
+        Shipper: { Account: { AccountNumber: 'TEST01', AccountCountryCode: 'US' } },
+        PickupDateInfo: { PickupDate: '20260220', ReadyTime: '0900', CloseTime: '1700' },
+        PickupAddress: {
+          CompanyName: 'Acme Warehouse',
+          ContactName: 'Dock Supervisor',
+          AddressLine: '123 Main Street',
+          Room: 'Suite 100',
+          ResidentialIndicator: 'N',
+          Phone: { Number: '2125550100' },
+        },
+        PickupPiece: [{ ServiceCode: '003', Quantity: '3', ContainerCode: '01' }],
+        TotalWeight: { Weight: '25.5', UnitOfMeasurement: 'LBS' },
+      });
+    });
+
+    it('should query and cancel a scheduled pickup', async () => {
+      const { confirmationNumber } = await service.schedulePickup(pickupRequest);
+
+      await expect(service.getPickup('ups', confirmationNumber)).resolves.toEqual({
+        carrier: 'UPS',
+        confirmationNumber,
+        status: PickupStatus.SCHEDULED,
+        pickupDate: '2026-02-20',
+        description: 'Received at dispatch',
+      });
+
+      await expect(service.cancelPickup('UPS', confirmationNumber)).resolves.toEqual({
+        carrier: 'UPS',
+        confirmationNumber,
+        cancelled: true,
+      });
+
+      const [cancel] = stubClient.getCapturedRequestsForUrl(/\/api\/shipments\/v1\/pickup\/02/);
+      expect(cancel.method).toBe('DELETE');
+      expect(cancel.headers?.Prn).toBe(confirmationNumber);
+
+      await expect(service.getPickup('UPS', confirmationNumber)).rejects.toHaveProperty(
+        'code',
+        ErrorCode.NOT_FOUND
+      );
+    });
+
+    it('should convert pickup weight units and map the service code', async () => {
+      await service.schedulePickup({
+        ...pickupRequest,
+        totalWeight: 10,
+        weightUnit: 'KG',
+        serviceLevel: '02',
+      });
+
+      const [captured] = stubClient.getCapturedRequestsForUrl(/\/api\/pickupcreation\/v1\/pickup/);
+      expect((captured.body as any).PickupCreationRequest).toMatchObject({
+        PickupPiece: [{ ServiceCode: '002' }],
+        TotalWeight: { Weight: '22.05', UnitOfMeasurement: 'LBS' },
+      });
+    });
+
+    it('should reject service levels UPS cannot pick up', async () => {
+      await expect(
+        service.schedulePickup({ ...pickupRequest, serviceLevel: 'GROUND' })
+      ).rejects.toHaveProperty('code', ErrorCode.INVALID_REQUEST);
+      expect(stubClient.getCapturedRequestsForUrl(/\/api\/pickupcreation\//)).toHaveLength(0);
+    });
+
+    it('should reject pickup windows that close before they open', async () => {
+      await expect(
+        service.schedulePickup({ ...pickupRequest, readyTime: '17:00', closeTime: '09:00' })
+      ).rejects.toHaveProperty('code', ErrorCode.INVALID_REQUEST);
+      expect(stubClient.getCapturedRequests()).toHaveLength(0);
+    });
+  });
+
+  describe('Shipment Tracking', () => {
+    it('should return normalized tracking events newest first', async () => {
+      const events = await service.trackShipment('ups', '1Z12345E0205271688');
+
+      expect(events.map((e) => e.status)).toEqual([
+        TrackingStatus.DELIVERED,
+        TrackingStatus.OUT_FOR_DELIVERY,
+        TrackingStatus.IN_TRANSIT,
+        TrackingStatus.LABEL_CREATED,
+      ]);
+      expect(events[0]).toEqual({
+        status: TrackingStatus.DELIVERED,
+        description: 'DELIVERED',
+        location: {
+          city: 'Los Angeles',
+          stateOrProvince: 'CA',
+          postalCode: '90001',
+          country: 'US',
+        },
+        timestamp: '2026-02-12T22:32:00Z',
+        carrierStatusCode: '011',
+      });
+      // Local timestamp when UPS omits GMT fields
+      expect(events[2].timestamp).toBe('2026-02-10T03:10:00');
+    });
+
+    it('should call the UPS Tracking API with OAuth', async () => {
+      await service.trackShipment('UPS', '1Z12345E0205271688');
+
+      const [captured] = stubClient.getCapturedRequestsForUrl(/\/api\/track\/v1\/details\//);
+      expect(captured.method).toBe('GET');
+      expect(captured.url).toBe(
+        'https://wwwcie.ups.com/api/track/v1/details/1Z12345E0205271688?locale=en_US'
+      );
+      expect(captured.headers?.Authorization).toMatch(/^Bearer test-token-/);
+    });
+
+    it('should report unknown tracking numbers as NOT_FOUND', async () => {
+      upsMocks.trackingApi.setupNotFound();
+
+      await expect(
+        service.trackShipment('UPS', '1Z0000000000000000')
+      ).rejects.toHaveProperty('code', ErrorCode.NOT_FOUND);
+    });
+
+    it('should reject malformed tracking numbers without calling UPS', async () => {
+      await expect(
+        service.trackShipment('UPS', '../../etc')
+      ).rejects.toHaveProperty('code', ErrorCode.INVALID_REQUEST);
+
+      expect(stubClient.getCapturedRequestsForUrl(/\/api\/track/)).toHaveLength(0);
+    });
+  });
+
+  describe('Address Validation', () => {
+    let validatingService: CarrierIntegrationService;
+
+    beforeEach(() => {
+      const upsAdapter = createUPSAdapter(
+        stubClient,
+        { baseUrl: 'https://wwwcie.ups.com' },
+        false
+      );
+      validatingService = new CarrierIntegrationService({
+        carriers: [upsAdapter],
+        addressValidator: upsAdapter,
+        validateAddressesBeforeRating: true,
+      });
+    });
+
+    it('should return corrected address and residential classification', async () => {
+      const result = await validatingService.validateAddress(validRateRequest.destination);
+
+      expect(result).toEqual({
+        valid: true,
+        ambiguous: false,
+        correctedAddress: {
+          street: ['456 OAK AVE'],
+          city: 'LOS ANGELES',
+          stateOrProvince: 'CA',
+          postalCode: '90001-1234',
+          country: 'US',
+        },
+        classification: 'RESIDENTIAL',
+        candidates: [expect.objectContaining({ postalCode: '90001-1234' })],
+      });
+
+      const [captured] = stubClient.getCapturedRequestsForUrl(/\/api\/addressvalidation\/v1\/3/);
+      expect((captured.body as any).XAVRequest.AddressKeyFormat).toEqual({
+        AddressLine: ['456 Oak Avenue'],
+        PoliticalDivision2: 'Los Angeles',
+        PoliticalDivision1: 'CA',
+        PostcodePrimaryLow: '90001',
+        CountryCode: 'US',
+      });
+    });
+
+    it('should return candidate suggestions for ambiguous addresses', async () => {
+      upsMocks.addressValidationApi.setupAmbiguous();
+
+      const result = await validatingService.validateAddress(validRateRequest.origin);
+
+      expect(result.valid).toBe(false);
+      expect(result.ambiguous).toBe(true);
+      expect(result.correctedAddress).toBeUndefined();
+      expect(result.candidates.map((c) => c.street)).toEqual([
+        ['123 MAIN ST', 'STE 100'],
+        ['123 W MAIN ST'],
+      ]);
+    });
+
+    it('should rate against corrected addresses when pre-validation is enabled', async () => {
+      upsMocks.ratingApi.setupSuccessResponse();
+
+      await validatingService.getRates(validRateRequest);
+
+      const [rateCall] = stubClient.getCapturedRequestsForUrl(/\/api\/rating\/v1\/(Rate|Shop)/);
+      expect((rateCall.body as any).RateRequest.Shipment.ShipTo.Address).toMatchObject({
+        AddressLine: ['456 OAK AVE'],
+        PostalCode: '90001-1234',
+      });
+    });
+
+    it('should fail fast with INVALID_ADDRESS before calling carriers', async () => {
+      upsMocks.addressValidationApi.setupNoCandidates();
+
+      await expect(validatingService.getRates(validRateRequest)).rejects.toHaveProperty(
+        'code',
+        ErrorCode.INVALID_ADDRESS
+      );
+      expect(stubClient.getCapturedRequestsForUrl(/\/api\/rating\/v1\/(Rate|Shop)/)).toHaveLength(0);
+    });
+
+    it('should skip pre-validation for countries UPS cannot validate', async () => {
+      upsMocks.ratingApi.setupSuccessResponse();
+
+      const quotes = await validatingService.getRates({
+        ...validRateRequest,
+        destination: {
+          street: ['10 Downing Street'],
+          city: 'London',
+          stateOrProvince: 'LND',
+          postalCode: 'SW1A 2AA',
+          country: 'GB',
+        },
+      });
+
+      expect(quotes.length).toBeGreaterThan(0);
+      expect(stubClient.getCapturedRequestsForUrl(/\/api\/addressvalidation/)).toHaveLength(1);
+    });
+  });
+
+  describe('Multi-Carrier Integration', () => {
+    let multiCarrierService: CarrierIntegrationService;
+
+    beforeEach(() => {
+      setupFedExMocks(stubClient);
+      const uspsMocks = setupUSPSMocks(stubClient);
+      uspsMocks.pricesApi.setupDomesticSuccessResponse();
+
+      multiCarrierService = new CarrierIntegrationService({
+        carriers: [
+          createUPSAdapter(stubClient, { baseUrl: 'https://wwwcie.ups.com' }, false),
+          createFedExAdapter(stubClient, undefined, false),
+          createUSPSAdapter(stubClient, undefined, false),
+        ],
+      });
+    });
+
+    it('should aggregate quotes from UPS, FedEx and USPS', async () => {
+      upsMocks.ratingApi.setupSuccessResponse();
+
+      const quotes = await multiCarrierService.getRates(validRateRequest);
+
+      const carriers = new Set(quotes.map((q) => q.carrier));
+      expect(carriers).toEqual(new Set(['UPS', 'FEDEX', 'USPS']));
+
+      // Each carrier acquires its own OAuth token
+      expect(stubClient.getCapturedRequestsForUrl(/\/security\/v1\/oauth\/token/)).toHaveLength(1);
+      expect(stubClient.getCapturedRequestsForUrl(/fedex\.com\/oauth\/token/)).toHaveLength(1);
+      expect(stubClient.getCapturedRequestsForUrl(/\/oauth2\/v3\/token/)).toHaveLength(1);
+    });
+
+    it('should still return other carriers when one carrier fails', async () => {
+      upsMocks.ratingApi.setup500ServerError();
+
+      const quotes = await multiCarrierService.getRates(validRateRequest);
+
+      expect(quotes.some((q) => q.carrier === 'UPS')).toBe(false);
+      expect(quotes.some((q) => q.carrier === 'USPS')).toBe(true);
+    });
+
+    it('should report per-carrier status when some carriers fail', async () => {
+      upsMocks.ratingApi.setup500ServerError();
+
+      const result = await multiCarrierService.shopRates(validRateRequest);
+
+      expect(result.partial).toBe(true);
+      expect(result.carriers.map((c) => c.carrier)).toEqual(['UPS', 'FEDEX', 'USPS']);
+      expect(result.carriers[0]).toMatchObject({
+        status: 'FAILED',
+        quoteCount: 0,
+        error: { code: ErrorCode.CARRIER_UNAVAILABLE },
+      });
+      expect(result.carriers[0].error?.message).toBeTruthy();
+      expect(result.carriers[2]).toMatchObject({ status: 'SUCCESS', cache: 'DISABLED' });
+      expect(result.carriers[2].quoteCount).toBe(
+        result.quotes.filter((q) => q.carrier === 'USPS').length
+      );
+      expect(result.carriers[2].error).toBeUndefined();
+      result.carriers.forEach((c) => expect(c.latencyMs).toBeGreaterThanOrEqual(0));
+    });
+
+    describe('with time budgets', () => {
+      const shopWithin = (rateShopTimeouts: RateShopTimeouts) =>
+        new CarrierIntegrationService({
+          carriers: [
+            createUPSAdapter(stubClient, { baseUrl: 'https://wwwcie.ups.com' }, false),
+            createFedExAdapter(stubClient, undefined, false),
+            createUSPSAdapter(stubClient, undefined, false),
+          ],
+          rateShopTimeouts,
+        }).shopRates(validRateRequest);
+
+      beforeEach(() => {
+        stubClient.stubUrl(/\/api\/rating\/v1\/(Rate|Shop)/, {
+          status: 200,
+          headers: { 'content-type': 'application/json' },
+          body: successfulUPSRateResponse,
+          delay: 1000,
+        });
+      });
+
+      it('should return arrived quotes and mark late carriers as timed out at the deadline', async () => {
+        const startedAt = Date.now();
+        const result = await shopWithin({ deadlineMs: 100 });
+
+        expect(Date.now() - startedAt).toBeLessThan(1000);
+        expect(result.partial).toBe(true);
+        expect(result.carriers[0]).toMatchObject({
+          carrier: 'UPS',
+          status: 'TIMED_OUT',
+          quoteCount: 0,
+          error: { code: ErrorCode.TIMEOUT, message: 'UPS did not respond within 100ms' },
+        });
+        expect(result.carriers.slice(1).map((c) => c.status)).toEqual(['SUCCESS', 'SUCCESS']);
+        expect(result.quotes.some((q) => q.carrier === 'UPS')).toBe(false);
+        expect(result.quotes.some((q) => q.carrier === 'USPS')).toBe(true);
+      });
+
+      it('should not count cancelled carrier requests against the circuit breaker', async () => {
+        const errors: string[] = [];
+        const service = new CarrierIntegrationService({
+          carriers: [createUPSAdapter(stubClient, { baseUrl: 'https://wwwcie.ups.com' }, false)],
+          rateShopTimeouts: { deadlineMs: 50 },
+          circuitBreaker: { failureThreshold: 1 },
+          hooks: { onCarrierError: ({ code }) => errors.push(code) },
+        });
+
+        await service.shopRates(validRateRequest);
+        // Let the aborted request settle
+        await new Promise((resolve) => setTimeout(resolve, 50));
+
+        expect(service.getCarrierStatuses()[0].circuit).toMatchObject({
+          state: CircuitState.CLOSED,
+          consecutiveFailures: 0,
+        });
+        expect(errors).toEqual([]);
+      });
+
+      it('should open the circuit of a carrier that keeps running past its own budget', async () => {
+        const errors: string[] = [];
+        const service = new CarrierIntegrationService({
+          carriers: [createUPSAdapter(stubClient, { baseUrl: 'https://wwwcie.ups.com' }, false)],
+          rateShopTimeouts: { carrierMs: 20 },
+          circuitBreaker: { failureThreshold: 2 },
+          hooks: { onCarrierError: ({ code }) => errors.push(code) },
+        });
+
+        for (let i = 0; i < 3; i++) {
+          await service.shopRates(validRateRequest);
+          // Let the aborted request settle
+          await new Promise((resolve) => setTimeout(resolve, 20));
+        }
+
+        expect(service.getCarrierStatuses()[0].circuit).toMatchObject({
+          state: CircuitState.OPEN,
+          consecutiveFailures: 2,
+          lastError: { code: ErrorCode.TIMEOUT, message: 'UPS did not respond within 20ms' },
+        });
+        expect(errors).toEqual([ErrorCode.TIMEOUT, ErrorCode.TIMEOUT, ErrorCode.CARRIER_UNAVAILABLE]);
+      });
+
+      it('should abort the late carrier request', async () => {
+        await shopWithin({ deadlineMs: 100 });
+
+        const [ratingRequest] = stubClient.getCapturedRequestsForUrl(/\/api\/rating\/v1\/(Rate|Shop)/);
+        expect(ratingRequest.signal?.aborted).toBe(true);
+      });
+
+      it('should apply per-carrier budgets within the overall deadline', async () => {
+        const result = await shopWithin({
+          deadlineMs: 5000,
+          carrierMs: 2000,
+          perCarrierMs: { UPS: 50 },
+        });
+
+        expect(result.carriers[0]).toMatchObject({
+          status: 'TIMED_OUT',
+          error: { message: 'UPS did not respond within 50ms' },
+        });
+        expect(result.carriers[0].latencyMs).toBeLessThan(1000);
+      });
+
+      it('should wait for slow carriers that are within budget', async () => {
+        const result = await shopWithin({ carrierMs: 3000 });
+
+        expect(result.partial).toBe(false);
+        expect(result.carriers[0]).toMatchObject({ status: 'SUCCESS', quoteCount: 4 });
+      });
+    });
+
+    it('should not flag a complete rate shop as partial', async () => {
+      upsMocks.ratingApi.setupSuccessResponse();
+
+      const result = await multiCarrierService.shopRates(validRateRequest);
+
+      expect(result.partial).toBe(false);
+      expect(result.carriers.every((c) => c.status === 'SUCCESS')).toBe(true);
     });
   });
 
@@ -526,7 +2257,7 @@ describe('Carrier Integration Service - End-to-End Integration Tests', () => {
       
       // Verify full flow executed (proves no shortcuts)
       const oauthCalls = stubClient.getCapturedRequestsForUrl(/\/security\/v1\/oauth\/token/);
-      const rateCalls = stubClient.getCapturedRequestsForUrl(/\/api\/rating\/v1\/Rate/);
+      const rateCalls = stubClient.getCapturedRequestsForUrl(/\/api\/rating\/v1\/(Rate|Shop)/);
       
       expect(oauthCalls.length).toBe(1);
       expect(rateCalls.length).toBe(1);
@@ -538,7 +2269,7 @@ describe('Carrier Integration Service - End-to-End Integration Tests', () => {
       await service.getRates(validRateRequest);
 
       // Verify adapter uses interface, not concrete implementation
-      const rateRequests = stubClient.getCapturedRequestsForUrl(/\/api\/rating\/v1\/Rate/);
+      const rateRequests = stubClient.getCapturedRequestsForUrl(/\/api\/rating\/v1\/(Rate|Shop)/);
       expect(rateRequests.length).toBe(1);
     });
   });
@@ -0,0 +1,37 @@
+/**
+ * Request-scoped correlation ID, carried across async calls so the service,
+ * adapters and HTTP client can tag logs without threading it through every call
+ */
+
+import { AsyncLocalStorage } from 'async_hooks';
+import { randomUUID } from 'crypto';
+
+interface RequestContext {
+  correlationId: string;
+}
+
+const storage = new AsyncLocalStorage<RequestContext>();
+
+// Accept caller-supplied IDs only if they are safe to log and echo back
+const CORRELATION_ID_PATTERN = /^[A-Za-z0-9._:-]{1,128}$/;
+
+/**
+ * Run a function with the given correlation ID in scope
+ */
+export function runWithCorrelationId<T>(correlationId: string, fn: () => T): T {
+  return storage.run({ correlationId }, fn);
+}
+
+/**
+ * Correlation ID of the current request, if any
+ */
+export function getCorrelationId(): string | undefined {
+  return storage.getStore()?.correlationId;
+}
+
+/**
+ * Use the caller's ID when it is well-formed, otherwise generate one
+ */
+export function resolveCorrelationId(candidate?: string): string {
+  return candidate && CORRELATION_ID_PATTERN.test(candidate) ? candidate : randomUUID();
+}
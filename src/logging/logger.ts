@@ -0,0 +1,137 @@
+/**
+ * Structured logging - pluggable Logger with JSON lines and no-op implementations
+ */
+
+import { getCorrelationId } from './context';
+import { getTenantId } from '../tenancy/context';
+
+export type LogLevel = 'debug' | 'info' | 'warn' | 'error';
+
+export type LogFields = Record<string, unknown>;
+
+export interface Logger {
+  debug(message: string, fields?: LogFields): void;
+  info(message: string, fields?: LogFields): void;
+  warn(message: string, fields?: LogFields): void;
+  error(message: string, fields?: LogFields): void;
+}
+
+const LEVEL_ORDER: Record<LogLevel, number> = { debug: 10, info: 20, warn: 30, error: 40 };
+
+export interface JsonLoggerOptions {
+  level?: LogLevel; // minimum level written (default: info)
+  write?: (line: string, level: LogLevel) => void; // default: stdout, stderr for warn/error
+}
+
+/**
+ * Logger writing one JSON object per line, tagged with the current
+ * correlation ID and with credentials redacted
+ */
+export class JsonLogger implements Logger {
+  private readonly level: LogLevel;
+  private readonly write: (line: string, level: LogLevel) => void;
+
+  constructor(options: JsonLoggerOptions = {}) {
+    this.level = options.level ?? 'info';
+    this.write = options.write ?? writeToConsole;
+  }
+
+  debug(message: string, fields?: LogFields): void {
+    this.log('debug', message, fields);
+  }
+
+  info(message: string, fields?: LogFields): void {
+    this.log('info', message, fields);
+  }
+
+  warn(message: string, fields?: LogFields): void {
+    this.log('warn', message, fields);
+  }
+
+  error(message: string, fields?: LogFields): void {
+    this.log('error', message, fields);
+  }
+
+  private log(level: LogLevel, message: string, fields: LogFields = {}): void {
+    if (LEVEL_ORDER[level] < LEVEL_ORDER[this.level]) {
+      return;
+    }
+
+    const correlationId = getCorrelationId();
+    const tenantId = getTenantId();
+    const entry = {
+      timestamp: new Date().toISOString(),
+      level,
+      message,
+      ...(correlationId && { correlationId }),
+      ...(tenantId && { tenantId }),
+      ...(redact(fields) as LogFields),
+    };
+    this.write(JSON.stringify(entry), level);
+  }
+}
+
+/**
+ * Logger that discards everything; the service default, so embedding the
+ * library (or running its tests) writes nothing unless a logger is wired up
+ */
+export class NoopLogger implements Logger {
+  debug(): void {}
+  info(): void {}
+  warn(): void {}
+  error(): void {}
+}
+
+function writeToConsole(line: string, level: LogLevel): void {
+  if (level === 'warn' || level === 'error') {
+    process.stderr.write(`${line}\n`);
+  } else {
+    process.stdout.write(`${line}\n`);
+  }
+}
+
+const SENSITIVE_KEY = /authorization|token|secret|password|api[-_]?key/i;
+const SENSITIVE_FORM_FIELD = /((?:client_secret|access_token|refresh_token|password)=)[^&\s]*/gi;
+const BEARER_OR_BASIC = /\b(Bearer|Basic)\s+[A-Za-z0-9._~+/=-]+/g;
+
+export const REDACTED = '[REDACTED]';
+
+/**
+ * Deep-copy a value with credentials masked: sensitive keys, bearer/basic
+ * credentials and secrets in form-encoded strings. Errors become plain objects.
+ */
+export function redact(value: unknown, seen: WeakSet<object> = new WeakSet()): unknown {
+  if (typeof value === 'string') {
+    return value
+      .replace(SENSITIVE_FORM_FIELD, `$1${REDACTED}`)
+      .replace(BEARER_OR_BASIC, `$1 ${REDACTED}`);
+  }
+  if (value === null || typeof value !== 'object') {
+    return value;
+  }
+  if (seen.has(value)) {
+    return '[Circular]';
+  }
+  seen.add(value);
+
+  if (value instanceof Error) {
+    const code = (value as { code?: unknown }).code;
+    const cause = (value as { cause?: unknown }).cause;
+    return {
+      name: value.name,
+      message: redact(value.message, seen),
+      ...(code !== undefined && { code }),
+      ...(cause !== undefined && { cause: redact(cause, seen) }),
+    };
+  }
+  if (Array.isArray(value)) {
+    return value.map((item) => redact(item, seen));
+  }
+
+  return Object.fromEntries(
+    Object.entries(value).map(([key, item]) => [
+      key,
+      SENSITIVE_KEY.test(key) ? REDACTED : redact(item, seen),
+    ])
+  );
+}
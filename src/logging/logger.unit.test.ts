@@ -0,0 +1,100 @@
+/**
+ * Unit tests for the JSON logger, redaction and correlation context
+ */
+
+import { JsonLogger, LogLevel, redact, REDACTED } from './logger';
+import { getCorrelationId, resolveCorrelationId, runWithCorrelationId } from './context';
+import { CarrierIntegrationError, ErrorCode } from '../domain/errors';
+
+describe('JsonLogger Unit Tests', () => {
+  let lines: Array<{ line: string; level: LogLevel }>;
+  let logger: JsonLogger;
+
+  const entries = () => lines.map(({ line }) => JSON.parse(line));
+
+  beforeEach(() => {
+    lines = [];
+    logger = new JsonLogger({ write: (line, level) => lines.push({ line, level }) });
+  });
+
+  it('should write one JSON object per entry with level, message and fields', () => {
+    logger.info('Rate shop completed', { quoteCount: 4 });
+
+    expect(entries()).toEqual([
+      {
+        timestamp: expect.stringMatching(/^\d{4}-\d{2}-\d{2}T/),
+        level: 'info',
+        message: 'Rate shop completed',
+        quoteCount: 4,
+      },
+    ]);
+  });
+
+  it('should skip entries below the configured level', () => {
+    logger = new JsonLogger({ level: 'warn', write: (line, level) => lines.push({ line, level }) });
+
+    logger.debug('debug');
+    logger.info('info');
+    logger.warn('warn');
+    logger.error('error');
+
+    expect(lines.map(({ level }) => level)).toEqual(['warn', 'error']);
+  });
+
+  it('should tag entries with the correlation ID in scope', async () => {
+    await runWithCorrelationId('req-123', async () => {
+      await Promise.resolve();
+      logger.info('inside');
+    });
+    logger.info('outside');
+
+    expect(entries()[0].correlationId).toBe('req-123');
+    expect(entries()[1]).not.toHaveProperty('correlationId');
+  });
+
+  it('should redact credentials and serialize errors', () => {
+    logger.error('Carrier HTTP request failed', {
+      requestHeaders: { Authorization: 'Bearer abc.def', transId: 'TXN-1' },
+      body: 'grant_type=client_credentials&client_secret=s3cr3t',
+      nested: [{ access_token: 'tok' }],
+      error: new CarrierIntegrationError(
+        ErrorCode.AUTH_FAILED,
+        'Rejected Basic dXNlcjpwYXNz',
+        new Error('401')
+      ),
+    });
+
+    const [entry] = entries();
+    expect(entry.requestHeaders).toEqual({ Authorization: REDACTED, transId: 'TXN-1' });
+    expect(entry.body).toBe(`grant_type=client_credentials&client_secret=${REDACTED}`);
+    expect(entry.nested).toEqual([{ access_token: REDACTED }]);
+    expect(entry.error).toEqual({
+      name: 'CarrierIntegrationError',
+      message: `Rejected Basic ${REDACTED}`,
+      code: 'AUTH_FAILED',
+      cause: { name: 'Error', message: '401' },
+    });
+    expect(lines[0].line).not.toContain('s3cr3t');
+  });
+
+  it('should handle circular references', () => {
+    const value: Record<string, unknown> = { name: 'loop' };
+    value.self = value;
+
+    expect(redact(value)).toEqual({ name: 'loop', self: '[Circular]' });
+  });
+});
+
+describe('Correlation context', () => {
+  it('should adopt well-formed caller IDs and generate the rest', () => {
+    expect(resolveCorrelationId('checkout-42.a:b')).toBe('checkout-42.a:b');
+    expect(resolveCorrelationId(undefined)).toMatch(/^[0-9a-f-]{36}$/);
+    expect(resolveCorrelationId('bad id\n')).not.toBe('bad id\n');
+    expect(resolveCorrelationId('x'.repeat(129))).toHaveLength(36);
+  });
+
+  it('should only expose the ID inside its scope', () => {
+    expect(runWithCorrelationId('abc', () => getCorrelationId())).toBe('abc');
+    expect(getCorrelationId()).toBeUndefined();
+  });
+});
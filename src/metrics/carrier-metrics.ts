@@ -0,0 +1,95 @@
+/**
+ * Carrier metrics - Prometheus series fed by service, HTTP and OAuth hooks
+ */
+
+import { MetricsRegistry } from './registry';
+import { ServiceHooks } from '../service';
+import { HttpClientHooks } from '../http/instrumented';
+import { OAuthHooks } from '../auth/oauth';
+
+/**
+ * Owns the metrics registry and exposes hook implementations to plug into
+ * CarrierIntegrationService, InstrumentedHttpClient and OAuthClient
+ */
+export class CarrierMetrics {
+  readonly registry = new MetricsRegistry();
+
+  private readonly rateRequests = this.registry.counter(
+    'carrier_rate_requests_total',
+    'Carrier rate requests made while rate shopping, by carrier and outcome'
+  );
+  private readonly rateDuration = this.registry.histogram(
+    'carrier_rate_request_duration_seconds',
+    'Time spent rating with each carrier while rate shopping'
+  );
+  private readonly errors = this.registry.counter(
+    'carrier_errors_total',
+    'Failed carrier operations by carrier, operation and error code'
+  );
+  private readonly httpDuration = this.registry.histogram(
+    'carrier_http_request_duration_seconds',
+    'Upstream carrier HTTP latency by host, method and status (status="error" when no response)'
+  );
+  private readonly tokenRequests = this.registry.counter(
+    'carrier_oauth_token_requests_total',
+    'OAuth token acquisitions and refreshes by carrier and outcome'
+  );
+  private readonly cacheLookups = this.registry.counter(
+    'rate_cache_lookups_total',
+    'Rate cache lookups by carrier and result'
+  );
+
+  readonly serviceHooks: ServiceHooks = {
+    onRateResult: (result) => {
+      const outcome = result.status.toLowerCase();
+      this.rateRequests.inc({ carrier: result.carrier, outcome });
+      this.rateDuration.observe({ carrier: result.carrier, outcome }, result.latencyMs / 1000);
+    },
+    onCarrierError: ({ carrier, operation, code }) => {
+      this.errors.inc({ carrier, operation, code });
+    },
+    onCacheLookup: ({ carrier, result }) => {
+      this.cacheLookups.inc({ carrier, result: result.toLowerCase() });
+    },
+  };
+
+  readonly httpHooks: HttpClientHooks = {
+    onRequestComplete: ({ request, status, durationMs }) => {
+      this.httpDuration.observe(
+        {
+          host: getHost(request.url),
+          method: request.method,
+          status: status !== undefined ? String(status) : 'error',
+        },
+        durationMs / 1000
+      );
+    },
+  };
+
+  /**
+   * OAuth hooks labelled with the carrier the client belongs to
+   */
+  oauthHooks(carrier: string): OAuthHooks {
+    return {
+      onTokenRequest: ({ outcome }) => {
+        this.tokenRequests.inc({ carrier, outcome });
+      },
+    };
+  }
+
+  render(): string {
+    return this.registry.render();
+  }
+}
+
+/**
+ * Label by host rather than URL so tracking numbers and other IDs in paths
+ * do not create a series per request
+ */
+function getHost(url: string): string {
+  try {
+    return new URL(url).host;
+  } catch {
+    return 'unknown';
+  }
+}
@@ -0,0 +1,140 @@
+/**
+ * Minimal Prometheus metrics registry - counters and histograms rendered in
+ * the text exposition format
+ */
+
+export const PROMETHEUS_CONTENT_TYPE = 'text/plain; version=0.0.4; charset=utf-8';
+
+export type Labels = Record<string, string>;
+
+export const DEFAULT_LATENCY_BUCKETS = [0.05, 0.1, 0.25, 0.5, 1, 2.5, 5, 10];
+
+interface Metric {
+  render(): string[];
+}
+
+/**
+ * Monotonic counter, one series per label combination
+ */
+export class Counter implements Metric {
+  private readonly values = new Map<string, { labels: Labels; value: number }>();
+
+  constructor(
+    readonly name: string,
+    private readonly help: string
+  ) {}
+
+  inc(labels: Labels = {}, amount: number = 1): void {
+    const key = seriesKey(labels);
+    const series = this.values.get(key) ?? { labels, value: 0 };
+    series.value += amount;
+    this.values.set(key, series);
+  }
+
+  get(labels: Labels = {}): number {
+    return this.values.get(seriesKey(labels))?.value ?? 0;
+  }
+
+  render(): string[] {
+    return [
+      `# HELP ${this.name} ${this.help}`,
+      `# TYPE ${this.name} counter`,
+      ...[...this.values.values()].map(
+        ({ labels, value }) => `${this.name}${formatLabels(labels)} ${value}`
+      ),
+    ];
+  }
+}
+
+/**
+ * Cumulative histogram with fixed upper bounds
+ */
+export class Histogram implements Metric {
+  private readonly values = new Map<
+    string,
+    { labels: Labels; buckets: number[]; sum: number; count: number }
+  >();
+
+  constructor(
+    readonly name: string,
+    private readonly help: string,
+    private readonly bucketBounds: number[] = DEFAULT_LATENCY_BUCKETS
+  ) {}
+
+  observe(labels: Labels, value: number): void {
+    const key = seriesKey(labels);
+    const series = this.values.get(key) ?? {
+      labels,
+      buckets: this.bucketBounds.map(() => 0),
+      sum: 0,
+      count: 0,
+    };
+    this.bucketBounds.forEach((bound, i) => {
+      if (value <= bound) {
+        series.buckets[i]++;
+      }
+    });
+    series.sum += value;
+    series.count++;
+    this.values.set(key, series);
+  }
+
+  getCount(labels: Labels = {}): number {
+    return this.values.get(seriesKey(labels))?.count ?? 0;
+  }
+
+  render(): string[] {
+    const lines = [`# HELP ${this.name} ${this.help}`, `# TYPE ${this.name} histogram`];
+    for (const { labels, buckets, sum, count } of this.values.values()) {
+      this.bucketBounds.forEach((bound, i) => {
+        lines.push(
+          `${this.name}_bucket${formatLabels({ ...labels, le: String(bound) })} ${buckets[i]}`
+        );
+      });
+      lines.push(`${this.name}_bucket${formatLabels({ ...labels, le: '+Inf' })} ${count}`);
+      lines.push(`${this.name}_sum${formatLabels(labels)} ${sum}`);
+      lines.push(`${this.name}_count${formatLabels(labels)} ${count}`);
+    }
+    return lines;
+  }
+}
+
+/**
+ * Holds metrics and renders them for a /metrics scrape
+ */
+export class MetricsRegistry {
+  private readonly metrics: Metric[] = [];
+
+  counter(name: string, help: string): Counter {
+    return this.register(new Counter(name, help));
+  }
+
+  histogram(name: string, help: string, buckets?: number[]): Histogram {
+    return this.register(new Histogram(name, help, buckets));
+  }
+
+  render(): string {
+    return `${this.metrics.flatMap((metric) => metric.render()).join('\n')}\n`;
+  }
+
+  private register<T extends Metric>(metric: T): T {
+    this.metrics.push(metric);
+    return metric;
+  }
+}
+
+function seriesKey(labels: Labels): string {
+  return JSON.stringify(Object.entries(labels).sort(([a], [b]) => a.localeCompare(b)));
+}
+
+function formatLabels(labels: Labels): string {
+  const entries = Object.entries(labels);
+  if (entries.length === 0) {
+    return '';
+  }
+  const formatted = entries.map(
+    ([name, value]) =>
+      `${name}="${value.replace(/\\/g, '\\\\').replace(/\n/g, '\\n').replace(/"/g, '\\"')}"`
+  );
+  return `{${formatted.join(',')}}`;
+}
@@ -0,0 +1,59 @@
+/**
+ * Unit tests for the Prometheus metrics registry
+ */
+
+import { MetricsRegistry } from './registry';
+
+describe('MetricsRegistry Unit Tests', () => {
+  let registry: MetricsRegistry;
+
+  beforeEach(() => {
+    registry = new MetricsRegistry();
+  });
+
+  it('should render counters with one series per label set', () => {
+    const counter = registry.counter('carrier_rate_requests_total', 'Rate requests');
+
+    counter.inc({ carrier: 'UPS', outcome: 'success' });
+    counter.inc({ outcome: 'success', carrier: 'UPS' }); // label order does not matter
+    counter.inc({ carrier: 'FEDEX', outcome: 'failed' }, 3);
+
+    expect(counter.get({ carrier: 'UPS', outcome: 'success' })).toBe(2);
+    expect(registry.render()).toBe(
+      [
+        '# HELP carrier_rate_requests_total Rate requests',
+        '# TYPE carrier_rate_requests_total counter',
+        'carrier_rate_requests_total{carrier="UPS",outcome="success"} 2',
+        'carrier_rate_requests_total{carrier="FEDEX",outcome="failed"} 3',
+        '',
+      ].join('\n')
+    );
+  });
+
+  it('should render cumulative histogram buckets, sum and count', () => {
+    const histogram = registry.histogram('latency_seconds', 'Latency', [0.1, 1]);
+
+    histogram.observe({ host: 'ups.com' }, 0.05);
+    histogram.observe({ host: 'ups.com' }, 0.5);
+    histogram.observe({ host: 'ups.com' }, 2);
+
+    expect(registry.render().split('\n')).toEqual([
+      '# HELP latency_seconds Latency',
+      '# TYPE latency_seconds histogram',
+      'latency_seconds_bucket{host="ups.com",le="0.1"} 1',
+      'latency_seconds_bucket{host="ups.com",le="1"} 2',
+      'latency_seconds_bucket{host="ups.com",le="+Inf"} 3',
+      'latency_seconds_sum{host="ups.com"} 2.55',
+      'latency_seconds_count{host="ups.com"} 3',
+      '',
+    ]);
+  });
+
+  it('should escape label values and render metrics without series', () => {
+    registry.counter('empty_total', 'Nothing yet');
+    registry.counter('errors_total', 'Errors').inc({ message: 'say "hi"\\\n' });
+
+    expect(registry.render()).toContain('errors_total{message="say \\"hi\\"\\\\\\n"} 1');
+    expect(registry.render()).toContain('# TYPE empty_total counter\n# HELP errors_total');
+  });
+});
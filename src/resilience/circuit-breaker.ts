@@ -0,0 +1,177 @@
+/**
+ * Circuit breaker - fails fast while a carrier is known to be down
+ */
+
+import { ErrorCode, CarrierIntegrationError } from '../domain/errors';
+
+export enum CircuitState {
+  CLOSED = 'CLOSED', // calls flow normally
+  OPEN = 'OPEN', // calls fail fast until the cooldown elapses
+  HALF_OPEN = 'HALF_OPEN', // a trial call decides whether to close again
+}
+
+export interface CircuitBreakerConfig {
+  failureThreshold: number; // consecutive failures that open the circuit
+  cooldownMs: number; // time spent open before allowing a trial call
+  /**
+   * Error codes that indicate carrier health problems; other errors (e.g.
+   * INVALID_REQUEST) are the caller's fault and do not count as failures
+   */
+  tripOn: ErrorCode[];
+}
+
+export const DEFAULT_CIRCUIT_BREAKER_CONFIG: CircuitBreakerConfig = {
+  failureThreshold: 5,
+  cooldownMs: 30000,
+  tripOn: [
+    ErrorCode.CARRIER_UNAVAILABLE,
+    ErrorCode.TIMEOUT,
+    ErrorCode.NETWORK_ERROR,
+    ErrorCode.MALFORMED_RESPONSE,
+  ],
+};
+
+export interface CircuitBreakerSnapshot {
+  state: CircuitState;
+  consecutiveFailures: number;
+  openedAt?: string; // ISO 8601
+  lastError?: {
+    code: ErrorCode;
+    message: string;
+    at: string; // ISO 8601
+  };
+}
+
+/**
+ * Closed/open/half-open circuit breaker guarding calls to one carrier
+ */
+export class CircuitBreaker {
+  private readonly config: CircuitBreakerConfig;
+  private state: CircuitState = CircuitState.CLOSED;
+  private consecutiveFailures = 0;
+  private openedAt: number | null = null;
+  private trialInFlight = false;
+  private lastError: CircuitBreakerSnapshot['lastError'];
+
+  constructor(
+    private readonly name: string,
+    config: Partial<CircuitBreakerConfig> = {},
+    private readonly now: () => number = Date.now
+  ) {
+    this.config = { ...DEFAULT_CIRCUIT_BREAKER_CONFIG, ...config };
+  }
+
+  /**
+   * Run an operation through the breaker. When `signal` aborts with a
+   * CarrierIntegrationError reason (e.g. the carrier ran past its time
+   * budget), that error is the failure; any other abort is the caller giving
+   * up, which says nothing about the carrier.
+   */
+  async execute<T>(operation: () => Promise<T>, signal?: AbortSignal): Promise<T> {
+    const trial = this.beforeCall();
+
+    try {
+      const result = await operation();
+      this.onSuccess();
+      return result;
+    } catch (error) {
+      if (!signal?.aborted) {
+        this.onFailure(error, trial);
+      } else if (signal.reason instanceof CarrierIntegrationError) {
+        this.onFailure(signal.reason, trial);
+      } else if (trial) {
+        // Let the next call be the half-open trial instead
+        this.trialInFlight = false;
+      }
+      throw error;
+    }
+  }
+
+  getState(): CircuitState {
+    this.refreshState();
+    return this.state;
+  }
+
+  getSnapshot(): CircuitBreakerSnapshot {
+    this.refreshState();
+    return {
+      state: this.state,
+      consecutiveFailures: this.consecutiveFailures,
+      ...(this.openedAt !== null && { openedAt: new Date(this.openedAt).toISOString() }),
+      ...(this.lastError && { lastError: this.lastError }),
+    };
+  }
+
+  /**
+   * Move from OPEN to HALF_OPEN once the cooldown has elapsed
+   */
+  private refreshState(): void {
+    if (
+      this.state === CircuitState.OPEN &&
+      this.openedAt !== null &&
+      this.now() - this.openedAt >= this.config.cooldownMs
+    ) {
+      this.state = CircuitState.HALF_OPEN;
+    }
+  }
+
+  /**
+   * Admit a call, or fail fast; returns whether it is the half-open trial
+   */
+  private beforeCall(): boolean {
+    this.refreshState();
+
+    // Only one trial call at a time while half-open; everyone else fails fast
+    if (
+      this.state === CircuitState.OPEN ||
+      (this.state === CircuitState.HALF_OPEN && this.trialInFlight)
+    ) {
+      throw new CarrierIntegrationError(
+        ErrorCode.CARRIER_UNAVAILABLE,
+        `Circuit breaker for ${this.name} is open; failing fast`
+      );
+    }
+
+    if (this.state === CircuitState.HALF_OPEN) {
+      this.trialInFlight = true;
+      return true;
+    }
+    return false;
+  }
+
+  private onSuccess(): void {
+    this.trialInFlight = false;
+    this.state = CircuitState.CLOSED;
+    this.consecutiveFailures = 0;
+    this.openedAt = null;
+  }
+
+  private onFailure(error: unknown, wasTrial: boolean): void {
+    if (wasTrial) {
+      this.trialInFlight = false;
+    }
+
+    if (
+      !(error instanceof CarrierIntegrationError) ||
+      !this.config.tripOn.includes(error.code)
+    ) {
+      // Not a health failure; a trial call that reached the carrier proves it is up
+      if (wasTrial) {
+        this.onSuccess();
+      }
+      return;
+    }
+
+    this.consecutiveFailures++;
+    this.lastError = {
+      code: error.code,
+      message: error.message,
+      at: new Date(this.now()).toISOString(),
+    };
+
+    if (wasTrial || this.consecutiveFailures >= this.config.failureThreshold) {
+      this.state = CircuitState.OPEN;
+      this.openedAt = this.now();
+    }
+  }
+}
@@ -0,0 +1,167 @@
+/**
+ * Unit tests for the per-carrier circuit breaker
+ */
+
+import { CircuitBreaker, CircuitState } from './circuit-breaker';
+import { CarrierIntegrationError, ErrorCode } from '../domain/errors';
+
+describe('CircuitBreaker Unit Tests', () => {
+  let now: number;
+  let breaker: CircuitBreaker;
+
+  const unavailable = () =>
+    Promise.reject(new CarrierIntegrationError(ErrorCode.CARRIER_UNAVAILABLE, 'UPS is down'));
+  const succeed = () => Promise.resolve('ok');
+
+  async function failTimes(count: number): Promise<void> {
+    for (let i = 0; i < count; i++) {
+      await expect(breaker.execute(unavailable)).rejects.toThrow('UPS is down');
+    }
+  }
+
+  beforeEach(() => {
+    now = Date.parse('2026-02-09T12:00:00Z');
+    breaker = new CircuitBreaker('UPS', { failureThreshold: 3, cooldownMs: 10000 }, () => now);
+  });
+
+  it('should open after consecutive failures reach the threshold', async () => {
+    await failTimes(2);
+    expect(breaker.getState()).toBe(CircuitState.CLOSED);
+
+    await failTimes(1);
+    expect(breaker.getSnapshot()).toMatchObject({
+      state: CircuitState.OPEN,
+      consecutiveFailures: 3,
+      openedAt: '2026-02-09T12:00:00.000Z',
+      lastError: { code: ErrorCode.CARRIER_UNAVAILABLE, message: 'UPS is down' },
+    });
+  });
+
+  it('should fail fast without calling the operation while open', async () => {
+    await failTimes(3);
+    const operation = jest.fn(succeed);
+
+    await expect(breaker.execute(operation)).rejects.toMatchObject({
+      code: ErrorCode.CARRIER_UNAVAILABLE,
+      message: 'Circuit breaker for UPS is open; failing fast',
+    });
+    expect(operation).not.toHaveBeenCalled();
+  });
+
+  it('should reset the failure count after a success', async () => {
+    await failTimes(2);
+    await breaker.execute(succeed);
+    await failTimes(2);
+
+    expect(breaker.getState()).toBe(CircuitState.CLOSED);
+  });
+
+  it('should close again when the half-open trial call succeeds', async () => {
+    await failTimes(3);
+    now += 10000;
+    expect(breaker.getState()).toBe(CircuitState.HALF_OPEN);
+
+    await expect(breaker.execute(succeed)).resolves.toBe('ok');
+    expect(breaker.getSnapshot()).toMatchObject({
+      state: CircuitState.CLOSED,
+      consecutiveFailures: 0,
+    });
+  });
+
+  it('should reopen when the half-open trial call fails', async () => {
+    await failTimes(3);
+    now += 10000;
+
+    await failTimes(1);
+    expect(breaker.getState()).toBe(CircuitState.OPEN);
+
+    now += 9999;
+    expect(breaker.getState()).toBe(CircuitState.OPEN);
+  });
+
+  it('should allow only one trial call at a time while half-open', async () => {
+    await failTimes(3);
+    now += 10000;
+
+    let release!: () => void;
+    const trial = breaker.execute(() => new Promise<void>((resolve) => (release = resolve)));
+
+    await expect(breaker.execute(succeed)).rejects.toHaveProperty(
+      'code',
+      ErrorCode.CARRIER_UNAVAILABLE
+    );
+
+    release();
+    await trial;
+    expect(breaker.getState()).toBe(CircuitState.CLOSED);
+  });
+
+  it('should not count failures after the caller aborted', async () => {
+    const controller = new AbortController();
+    controller.abort();
+
+    for (let i = 0; i < 3; i++) {
+      await expect(breaker.execute(unavailable, controller.signal)).rejects.toThrow('UPS is down');
+    }
+    expect(breaker.getSnapshot()).toMatchObject({
+      state: CircuitState.CLOSED,
+      consecutiveFailures: 0,
+    });
+  });
+
+  it('should count calls aborted with a carrier error as that failure', async () => {
+    const controller = new AbortController();
+    controller.abort(
+      new CarrierIntegrationError(ErrorCode.TIMEOUT, 'UPS did not respond within 20ms')
+    );
+
+    for (let i = 0; i < 3; i++) {
+      await expect(breaker.execute(unavailable, controller.signal)).rejects.toThrow('UPS is down');
+    }
+    expect(breaker.getSnapshot()).toMatchObject({
+      state: CircuitState.OPEN,
+      consecutiveFailures: 3,
+      lastError: { code: ErrorCode.TIMEOUT, message: 'UPS did not respond within 20ms' },
+    });
+  });
+
+  it('should keep the half-open trial in flight when an earlier call is cancelled', async () => {
+    const controller = new AbortController();
+    let cancel!: () => void;
+    const earlier = breaker.execute(
+      () => new Promise<void>((_, reject) => (cancel = () => reject(new Error('aborted')))),
+      controller.signal
+    );
+
+    await failTimes(3);
+    now += 10000;
+    let release!: () => void;
+    const trial = breaker.execute(() => new Promise<void>((resolve) => (release = resolve)));
+
+    controller.abort();
+    cancel();
+    await expect(earlier).rejects.toThrow('aborted');
+    await expect(breaker.execute(succeed)).rejects.toHaveProperty(
+      'code',
+      ErrorCode.CARRIER_UNAVAILABLE
+    );
+
+    release();
+    await trial;
+    expect(breaker.getState()).toBe(CircuitState.CLOSED);
+  });
+
+  it('should not count caller errors as failures', async () => {
+    const invalid = () =>
+      Promise.reject(new CarrierIntegrationError(ErrorCode.INVALID_REQUEST, 'Bad postal code'));
+
+    for (let i = 0; i < 5; i++) {
+      await expect(breaker.execute(invalid)).rejects.toThrow('Bad postal code');
+    }
+
+    expect(breaker.getSnapshot()).toMatchObject({
+      state: CircuitState.CLOSED,
+      consecutiveFailures: 0,
+    });
+  });
+});
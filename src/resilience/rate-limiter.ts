@@ -0,0 +1,74 @@
+/**
+ * Token bucket rate limiter - per-client request budgets for the HTTP API
+ */
+
+export interface TokenBucketConfig {
+  capacity: number; // burst size: requests allowed at once after a quiet period
+  refillPerSecond: number; // sustained request rate
+}
+
+export const DEFAULT_TOKEN_BUCKET_CONFIG: TokenBucketConfig = {
+  capacity: 60,
+  refillPerSecond: 1,
+};
+
+export interface RateLimitDecision {
+  allowed: boolean;
+  limit: number; // bucket capacity
+  remaining: number; // whole tokens left after this request
+  retryAfterMs: number; // until the next token, when not allowed
+}
+
+interface Bucket {
+  tokens: number;
+  updatedAt: number;
+}
+
+/**
+ * One token bucket per key; each request takes a token and buckets refill
+ * continuously up to their capacity
+ */
+export class RateLimiter {
+  private readonly defaults: TokenBucketConfig;
+  private readonly buckets = new Map<string, Bucket>();
+
+  constructor(
+    defaults: Partial<TokenBucketConfig> = {},
+    private readonly now: () => number = Date.now
+  ) {
+    this.defaults = { ...DEFAULT_TOKEN_BUCKET_CONFIG, ...defaults };
+  }
+
+  /**
+   * Take a token for the key, with an optional per-key override of the defaults
+   */
+  take(key: string, overrides: Partial<TokenBucketConfig> = {}): RateLimitDecision {
+    const { capacity, refillPerSecond } = { ...this.defaults, ...overrides };
+    const now = this.now();
+    const bucket = this.buckets.get(key) ?? { tokens: capacity, updatedAt: now };
+
+    bucket.tokens = Math.min(
+      capacity,
+      bucket.tokens + ((now - bucket.updatedAt) / 1000) * refillPerSecond
+    );
+    bucket.updatedAt = now;
+    this.buckets.set(key, bucket);
+
+    if (bucket.tokens < 1) {
+      return {
+        allowed: false,
+        limit: capacity,
+        remaining: 0,
+        retryAfterMs: Math.ceil(((1 - bucket.tokens) / refillPerSecond) * 1000),
+      };
+    }
+
+    bucket.tokens -= 1;
+    return {
+      allowed: true,
+      limit: capacity,
+      remaining: Math.floor(bucket.tokens),
+      retryAfterMs: 0,
+    };
+  }
+}
@@ -0,0 +1,46 @@
+/**
+ * Unit tests for the token bucket rate limiter
+ */
+
+import { RateLimiter } from './rate-limiter';
+
+describe('RateLimiter Unit Tests', () => {
+  let now: number;
+  let limiter: RateLimiter;
+
+  beforeEach(() => {
+    now = 0;
+    limiter = new RateLimiter({ capacity: 3, refillPerSecond: 1 }, () => now);
+  });
+
+  it('should allow a burst up to capacity, then refuse with a retry delay', () => {
+    expect([1, 2, 3].map(() => limiter.take('checkout').remaining)).toEqual([2, 1, 0]);
+
+    now = 250;
+    expect(limiter.take('checkout')).toEqual({
+      allowed: false,
+      limit: 3,
+      remaining: 0,
+      retryAfterMs: 750,
+    });
+  });
+
+  it('should refill continuously without exceeding capacity', () => {
+    for (let i = 0; i < 3; i++) limiter.take('checkout');
+
+    now = 1000;
+    expect(limiter.take('checkout').allowed).toBe(true);
+    expect(limiter.take('checkout').allowed).toBe(false);
+
+    now = 60000;
+    expect(limiter.take('checkout').remaining).toBe(2);
+  });
+
+  it('should keep a bucket per key and apply per-key overrides', () => {
+    for (let i = 0; i < 3; i++) limiter.take('checkout');
+
+    expect(limiter.take('checkout').allowed).toBe(false);
+    expect(limiter.take('warehouse').allowed).toBe(true);
+    expect(limiter.take('batch', { capacity: 10 })).toMatchObject({ limit: 10, remaining: 9 });
+  });
+});
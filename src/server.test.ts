@@ -0,0 +1,199 @@
+/**
+ * HTTP server tests - API key authentication, scopes and rate limiting,
+ * exercised with supertest against the exported app in mock mode
+ */
+
+import request from 'supertest';
+import { Express } from 'express';
+import { hashApiKey } from './auth/api-keys';
+
+const CHECKOUT_KEY = 'ck_test_3f9d2c71';
+const OPS_KEY = 'ops_test_a81e0b54';
+const BRAND_A_KEY = 'brand_a_test_5c06e2f8';
+const LIMITED_KEY = 'limited_test_17bd9e40';
+
+const TEST_ENV: Record<string, string> = {
+  CARRIER_MODE: 'mock',
+  LOG_LEVEL: 'silent',
+  API_KEYS: JSON.stringify([
+    { id: 'checkout', keyHash: hashApiKey(CHECKOUT_KEY) },
+    { id: 'ops', keyHash: hashApiKey(OPS_KEY), scopes: ['admin'] },
+    { id: 'brand-a-web', keyHash: hashApiKey(BRAND_A_KEY), tenantId: 'brand-a' },
+    {
+      id: 'limited',
+      keyHash: hashApiKey(LIMITED_KEY),
+      rateLimit: { capacity: 2, refillPerSecond: 0.01 },
+    },
+  ]),
+  TENANTS: 'brand-a',
+  TENANT_BRAND_A_UPS_CLIENT_ID: 'test-client-id-brand-a',
+  TENANT_BRAND_A_UPS_CLIENT_SECRET: 'test-client-secret-brand-a',
+  TENANT_BRAND_A_UPS_SHIPPER_NUMBER: 'A12345',
+};
+
+describe('HTTP Server', () => {
+  let app: Express;
+  const originalEnv: Record<string, string | undefined> = {};
+
+  const rateRequest = {
+    origin: {
+      street: ['123 Main Street'],
+      city: 'New York',
+      stateOrProvince: 'NY',
+      postalCode: '10001',
+      country: 'US',
+    },
+    destination: {
+      street: ['456 Oak Avenue'],
+      city: 'Los Angeles',
+      stateOrProvince: 'CA',
+      postalCode: '90001',
+      country: 'US',
+    },
+    packages: [{ weight: 5 }],
+  };
+
+  beforeAll(() => {
+    for (const name of Object.keys(TEST_ENV)) {
+      originalEnv[name] = process.env[name];
+    }
+    Object.assign(process.env, TEST_ENV);
+    // The server reads its configuration when loaded, so load it after the env is set
+    app = require('./server').default;
+  });
+
+  afterAll(() => {
+    // Put back what was set before the suite, for suites sharing the process
+    for (const [name, value] of Object.entries(originalEnv)) {
+      if (value === undefined) {
+        delete process.env[name];
+      } else {
+        process.env[name] = value;
+      }
+    }
+  });
+
+  describe('API key authentication', () => {
+    it('should leave health probes open', async () => {
+      await request(app).get('/health').expect(200);
+      await request(app).get('/health/live').expect(200);
+    });
+
+    it('should reject requests without an API key', async () => {
+      const res = await request(app).post('/api/rates').send(rateRequest).expect(401);
+
+      expect(res.body).toEqual({
+        success: false,
+        error: { code: 'AUTH_FAILED', message: 'Missing X-API-Key header' },
+      });
+    });
+
+    it('should reject unknown API keys', async () => {
+      const res = await request(app)
+        .post('/api/rates')
+        .set('X-API-Key', 'ck_test_guessed')
+        .send(rateRequest)
+        .expect(401);
+
+      expect(res.body.error).toEqual({ code: 'AUTH_FAILED', message: 'Invalid API key' });
+    });
+
+    it('should serve requests with a valid API key', async () => {
+      const res = await request(app)
+        .post('/api/rates')
+        .set('X-API-Key', CHECKOUT_KEY)
+        .send(rateRequest)
+        .expect(200);
+
+      expect(res.body.success).toBe(true);
+      expect(res.body.count).toBeGreaterThan(0);
+      expect(res.headers['x-ratelimit-limit']).toBe('60');
+    });
+  });
+
+  describe('Admin scope', () => {
+    it('should require the admin scope for operational routes', async () => {
+      for (const path of ['/metrics', '/api/carriers']) {
+        const res = await request(app).get(path).set('X-API-Key', CHECKOUT_KEY).expect(403);
+        expect(res.body.error).toEqual({
+          code: 'FORBIDDEN',
+          message: "API client 'checkout' lacks the 'admin' scope",
+        });
+      }
+    });
+
+    it('should serve operational routes to admin clients', async () => {
+      await request(app).get('/metrics').expect(401);
+
+      const metrics = await request(app).get('/metrics').set('X-API-Key', OPS_KEY).expect(200);
+      expect(metrics.text).toContain('# TYPE carrier_rate_requests_total counter');
+
+      const carriers = await request(app).get('/api/carriers').set('X-API-Key', OPS_KEY);
+      expect(carriers.status).toBe(200);
+      // Default carriers, then the UPS account tenant brand-a owns
+      expect(carriers.body.count).toBe(5);
+      expect(carriers.body.carriers[4]).toMatchObject({ name: 'UPS', tenantId: 'brand-a' });
+    });
+  });
+
+  describe('Rate limiting', () => {
+    it('should return RATE_LIMITED with Retry-After once a client spends its bucket', async () => {
+      const track = () =>
+        request(app).get('/api/tracking/UPS/1Z999AA10123456784').set('X-API-Key', LIMITED_KEY);
+
+      await track().expect(200);
+      await track().expect(200);
+      const res = await track().expect(429);
+
+      expect(res.body).toEqual({
+        success: false,
+        error: { code: 'RATE_LIMITED', message: "Rate limit exceeded for API client 'limited'" },
+      });
+      expect(res.headers['retry-after']).toBe('100');
+      expect(res.headers['x-ratelimit-remaining']).toBe('0');
+    });
+
+    it('should limit each client separately', async () => {
+      await request(app)
+        .get('/api/tracking/UPS/1Z999AA10123456784')
+        .set('X-API-Key', LIMITED_KEY)
+        .expect(429);
+      await request(app).get('/api/carriers').set('X-API-Key', OPS_KEY).expect(200);
+    });
+  });
+
+  describe('Tenants', () => {
+    it('should serve tenant-bound clients with their tenant', async () => {
+      await request(app)
+        .post('/api/rates')
+        .set('X-API-Key', BRAND_A_KEY)
+        .send(rateRequest)
+        .expect(200);
+    });
+
+    it('should not let tenant-bound clients act for another tenant', async () => {
+      const res = await request(app)
+        .post('/api/rates')
+        .set('X-API-Key', BRAND_A_KEY)
+        .set('X-Tenant-Id', 'brand-b')
+        .send(rateRequest)
+        .expect(403);
+
+      expect(res.body.error.code).toBe('FORBIDDEN');
+    });
+
+    it('should reject unknown tenants', async () => {
+      const res = await request(app)
+        .post('/api/rates')
+        .set('X-API-Key', CHECKOUT_KEY)
+        .set('X-Tenant-Id', 'brand-z')
+        .send(rateRequest)
+        .expect(400);
+
+      expect(res.body.error).toEqual({
+        code: 'INVALID_REQUEST',
+        message: "Unknown tenant 'brand-z'",
+      });
+    });
+  });
+});
@@ -3,42 +3,176 @@
  * Exposes REST endpoints for rate shopping
  */
 
-import express, { Request, Response, NextFunction } from 'express';
+import express, { Request, Response, NextFunction, RequestHandler } from 'express';
 import { CarrierIntegrationService } from './service';
-import { createUPSAdapter } from './config';
+import {
+  createUPSAdapter,
+  createFedExAdapter,
+  createUSPSAdapter,
+  createDHLAdapter,
+  createRateCache,
+  createCircuitBreakerConfig,
+  createRateShopTimeouts,
+  createSpanExporter,
+  createTenantConfigs,
+  createTenantCarriers,
+  createApiKeyStore,
+  createRateLimitConfig,
+  createExchangeRateProvider,
+  readNumberEnv,
+} from './config';
+import { Carrier } from './carriers/carrier';
 import { NodeHttpClient } from './http/client';
 import { StubHttpClient } from './http/stub-client';
-import { RateRequest } from './domain/types';
+import { Address, PickupRequest, RateRequest, ShipmentRequest } from './domain/types';
 import { CarrierIntegrationError, ErrorCode } from './domain/errors';
+import { CircuitState } from './resilience/circuit-breaker';
+import { JsonLogger, LogLevel, Logger, NoopLogger } from './logging/logger';
+import { LoggingHttpClient } from './http/logging';
+import { InstrumentedHttpClient } from './http/instrumented';
+import { TracingHttpClient } from './http/tracing';
+import { setupTracing } from './tracing/tracing';
+import { traceRequests } from './tracing/middleware';
+import { TenantRegistry } from './tenancy/registry';
+import { RateLimiter } from './resilience/rate-limiter';
+import {
+  authenticateApiKeys,
+  getApiClient,
+  rateLimitClients,
+  requireScope,
+} from './auth/middleware';
+import { runWithTenant } from './tenancy/context';
+import { CarrierMetrics } from './metrics/carrier-metrics';
+import { PROMETHEUS_CONTENT_TYPE } from './metrics/registry';
+import { resolveCorrelationId, runWithCorrelationId } from './logging/context';
 import { setupUPSMocks } from './__fixtures__/ups-mock-helper';
+import { setupFedExMocks } from './__fixtures__/fedex-mock-helper';
+import { setupUSPSMocks } from './__fixtures__/usps-mock-helper';
+import { setupDHLMocks } from './__fixtures__/dhl-mock-helper';
+
+const logger: Logger =
+  process.env.LOG_LEVEL === 'silent'
+    ? new NoopLogger()
+    : new JsonLogger({ level: (process.env.LOG_LEVEL as LogLevel) || 'info' });
+const metrics = new CarrierMetrics();
+
+// Tracing is opt-in: without an exporter every span is a no-op
+const spanExporter = createSpanExporter();
+if (spanExporter) {
+  setupTracing(spanExporter);
+  logger.info('Tracing enabled', { exporter: process.env.TRACING_EXPORTER });
+}
 
 const app = express();
+
+/**
+ * Correlation ID middleware - adopts the caller's X-Request-Id (or generates
+ * one), echoes it in the response and scopes it to everything the request does
+ */
+app.use((req: Request, res: Response, next: NextFunction) => {
+  const correlationId = resolveCorrelationId(req.header('X-Request-Id'));
+  const startedAt = Date.now();
+  res.setHeader('X-Request-Id', correlationId);
+
+  runWithCorrelationId(correlationId, () => {
+    res.on('finish', () => {
+      logger.info('Request completed', {
+        method: req.method,
+        path: req.path,
+        status: res.statusCode,
+        durationMs: Date.now() - startedAt,
+      });
+    });
+    next();
+  });
+});
+
+// Continue the caller's trace (W3C traceparent) for everything the request does
+app.use(traceRequests());
+
 app.use(express.json());
 
 // Determine runtime mode (default: mock)
 const CARRIER_MODE = (process.env.CARRIER_MODE || 'mock').toLowerCase();
 const isMockMode = CARRIER_MODE === 'mock';
 
+// API clients (API_KEYS / API_KEYS_FILE); authentication is off when none are configured
+const apiKeys = createApiKeyStore();
+const rateLimiter = new RateLimiter(createRateLimitConfig());
+
+// Authenticate and rate limit the caller (nothing to check without API keys)
+const requireApiKey: RequestHandler[] = apiKeys
+  ? [authenticateApiKeys(apiKeys), rateLimitClients(rateLimiter)]
+  : [];
+
+// Every /api route needs a key; health probes stay open for load balancers
+if (apiKeys) {
+  app.use('/api', requireApiKey);
+}
+
+// Operational routes need the admin scope
+const requireAdmin = requireScope('admin');
+
+// Tenants with their own carrier accounts (TENANTS; none by default)
+let tenants: TenantRegistry | null = null;
+
+/**
+ * Tenant middleware - runs the request with the caller's tenant carrier
+ * accounts: the tenant its API key is bound to, or X-Tenant-Id for clients
+ * not bound to one. Requests naming neither use the default accounts.
+ */
+app.use((req: Request, res: Response, next: NextFunction) => {
+  const boundTenantId = getApiClient(res)?.tenantId;
+  const requestedTenantId = req.header('X-Tenant-Id');
+  if (boundTenantId && requestedTenantId && requestedTenantId !== boundTenantId) {
+    next(
+      new CarrierIntegrationError(
+        ErrorCode.FORBIDDEN,
+        `API client may only act for tenant '${boundTenantId}'`
+      )
+    );
+    return;
+  }
+
+  const tenantId = boundTenantId ?? requestedTenantId;
+  if (!tenants || !tenantId) {
+    next();
+    return;
+  }
+  if (!tenants.getTenant(tenantId)) {
+    next(new CarrierIntegrationError(ErrorCode.INVALID_REQUEST, `Unknown tenant '${tenantId}'`));
+    return;
+  }
+
+  runWithTenant(tenantId, next);
+});
+
 // Initialize service
 let service: CarrierIntegrationService | null = null;
 
 function initializeService(): void {
-  let httpClient;
+  let baseHttpClient;
   let requireCredentials = true;
 
   if (isMockMode) {
-    // Mock mode: Use stub HTTP client with UPS mocks
-    httpClient = new StubHttpClient();
-    setupUPSMocks(httpClient, {
+    // Mock mode: Use stub HTTP client with carrier mocks
+    baseHttpClient = new StubHttpClient();
+    setupUPSMocks(baseHttpClient, {
       baseUrl: 'https://wwwcie.ups.com',
     });
+    setupFedExMocks(baseHttpClient);
+    setupUSPSMocks(baseHttpClient);
+    setupDHLMocks(baseHttpClient);
     requireCredentials = false; // Don't require credentials in mock mode
-    console.log('Running in MOCK mode - UPS API calls will be stubbed');
+    logger.info('Running in MOCK mode - carrier API calls will be stubbed');
+    if (!apiKeys) {
+      logger.warn('API authentication is disabled; set API_KEYS or API_KEYS_FILE to require keys');
+    }
   } else {
     // Real mode: Use real HTTP client, require credentials
-    httpClient = new NodeHttpClient();
+    baseHttpClient = new NodeHttpClient();
     requireCredentials = true;
-    console.log('Running in REAL mode - Using actual UPS API');
+    logger.info('Running in REAL mode - Using actual carrier APIs');
     
     // Validate credentials are present
     if (!process.env.UPS_CLIENT_ID || !process.env.UPS_CLIENT_SECRET) {
@@ -46,11 +180,76 @@ function initializeService(): void {
         'UPS_CLIENT_ID and UPS_CLIENT_SECRET environment variables are required when CARRIER_MODE=real'
       );
     }
+    if (!apiKeys && process.env.API_AUTH_DISABLED !== 'true') {
+      throw new Error(
+        'API_KEYS or API_KEYS_FILE is required when CARRIER_MODE=real ' +
+          '(set API_AUTH_DISABLED=true to run without authentication)'
+      );
+    }
+  }
+
+  // Trace, log and time every carrier call, including each retry attempt
+  const httpClient = new InstrumentedHttpClient(
+    new LoggingHttpClient(
+      new TracingHttpClient(baseHttpClient, {
+        propagateContext: process.env.TRACING_PROPAGATE_TO_CARRIERS === 'true',
+      }),
+      logger
+    ),
+    metrics.httpHooks
+  );
+
+  const upsAdapter = createUPSAdapter(
+    httpClient,
+    { oauthHooks: metrics.oauthHooks('UPS') },
+    requireCredentials
+  );
+  const carriers: Carrier[] = [upsAdapter];
+
+  // Optional carriers: always registered in mock mode, otherwise only when configured
+  if (isMockMode || process.env.FEDEX_API_KEY) {
+    carriers.push(
+      createFedExAdapter(httpClient, { oauthHooks: metrics.oauthHooks('FEDEX') }, requireCredentials)
+    );
+  }
+  if (isMockMode || process.env.USPS_CLIENT_ID) {
+    carriers.push(
+      createUSPSAdapter(httpClient, { oauthHooks: metrics.oauthHooks('USPS') }, requireCredentials)
+    );
+  }
+  if (isMockMode || process.env.DHL_API_KEY) {
+    carriers.push(createDHLAdapter(httpClient, undefined, requireCredentials));
+  }
+
+  const tenantConfigs = createTenantConfigs();
+  if (tenantConfigs.length > 0) {
+    tenants = new TenantRegistry(tenantConfigs, (tenant) =>
+      createTenantCarriers(tenant, httpClient, {
+        oauthHooks: metrics.oauthHooks('UPS'),
+      })
+    );
+    logger.info('Tenants configured', { tenants: tenants.getTenantIds() });
+  }
+
+  for (const client of apiKeys?.getClients() || []) {
+    if (client.tenantId !== undefined && !tenants?.getTenant(client.tenantId)) {
+      throw new Error(`API client '${client.id}' is bound to unknown tenant '${client.tenantId}'`);
+    }
   }
 
-  const upsAdapter = createUPSAdapter(httpClient, undefined, requireCredentials);
   service = new CarrierIntegrationService({
-    carriers: [upsAdapter],
+    carriers,
+    addressValidator: upsAdapter,
+    validateAddressesBeforeRating:
+      process.env.VALIDATE_ADDRESSES_BEFORE_RATING === 'true',
+    rateCache: createRateCache(),
+    circuitBreaker: createCircuitBreakerConfig(),
+    rateShopTimeouts: createRateShopTimeouts(),
+    readinessCacheMs: readNumberEnv('READINESS_CACHE_MS', { allowZero: true }),
+    logger,
+    hooks: metrics.serviceHooks,
+    tenants: tenants ?? undefined,
+    exchangeRates: createExchangeRateProvider(),
   });
 }
 
@@ -58,21 +257,99 @@ function initializeService(): void {
 try {
   initializeService();
 } catch (error) {
-  console.error('❌ Failed to initialize service:', error instanceof Error ? error.message : error);
+  logger.error('Failed to initialize service', { error });
   process.exit(1);
 }
 
 /**
  * GET /health
- * Health check endpoint
+ * Health check endpoint, with circuit breaker state per carrier, keyed
+ * "<tenant>/<carrier>" for tenants' own carriers (status is "degraded" while
+ * any carrier's circuit is open)
  */
 app.get('/health', (req: Request, res: Response) => {
+  const carriers = service?.getCarrierStatuses() || [];
+  const degraded = carriers.some(
+    (carrier) => carrier.circuit && carrier.circuit.state !== CircuitState.CLOSED
+  );
+
+  res.json({
+    status: degraded ? 'degraded' : 'ok',
+    timestamp: new Date().toISOString(),
+    carriers: Object.fromEntries(
+      carriers.map((carrier) => [
+        carrier.tenantId !== undefined ? `${carrier.tenantId}/${carrier.name}` : carrier.name,
+        carrier.circuit?.state ?? 'DISABLED',
+      ])
+    ),
+  });
+});
+
+/**
+ * GET /health/live
+ * Liveness probe - the process is up and serving requests
+ */
+app.get('/health/live', (req: Request, res: Response) => {
   res.json({ status: 'ok', timestamp: new Date().toISOString() });
 });
 
+/**
+ * GET /health/ready
+ * Readiness probe - every carrier can get an OAuth token and its circuit is
+ * not open (503 otherwise). Results are cached briefly (READINESS_CACHE_MS).
+ */
+app.get('/health/ready', async (req: Request, res: Response, next: NextFunction) => {
+  try {
+    if (!service) {
+      res.status(503).json({ status: 'not_ready', timestamp: new Date().toISOString() });
+      return;
+    }
+
+    const report = await service.checkReadiness();
+    res.status(report.ready ? 200 : 503).json({
+      status: report.ready ? 'ready' : 'not_ready',
+      ...report,
+    });
+  } catch (error) {
+    next(error);
+  }
+});
+
+/**
+ * GET /metrics
+ * Prometheus metrics: rate outcomes, carrier errors, upstream HTTP latency,
+ * OAuth token requests and rate cache lookups (admin scope)
+ */
+app.get('/metrics', requireApiKey, requireAdmin, (req: Request, res: Response) => {
+  res.type(PROMETHEUS_CONTENT_TYPE).send(metrics.render());
+});
+
+/**
+ * GET /api/carriers
+ * Configured carriers with their capabilities and circuit breaker status
+ * (admin scope)
+ */
+app.get('/api/carriers', requireAdmin, (req: Request, res: Response, next: NextFunction) => {
+  try {
+    if (!service) {
+      throw new Error('Service not initialized');
+    }
+
+    const carriers = service.getCarrierStatuses();
+    res.json({
+      success: true,
+      carriers,
+      count: carriers.length,
+    });
+  } catch (error) {
+    next(error);
+  }
+});
+
 /**
  * POST /api/rates
- * Get rate quotes from all configured carriers
+ * Get rate quotes from all configured carriers, with per-carrier status
+ * (a failed carrier sets "partial" instead of failing the request)
  * 
  * Request body:
  * {
@@ -100,7 +377,8 @@ app.get('/health', (req: Request, res: Response) => {
  *       }
  *     }
  *   ],
- *   "serviceLevel": "GROUND" // Optional
+ *   "serviceLevel": "GROUND", // Optional
+ *   "includeTransitTimes": true // Optional: merge carrier time-in-transit into quotes
  * }
  */
 app.post('/api/rates', async (req: Request, res: Response, next: NextFunction) => {
@@ -110,12 +388,15 @@ app.post('/api/rates', async (req: Request, res: Response, next: NextFunction) =
     }
 
     const rateRequest = req.body as RateRequest;
-    const quotes = await service.getRates(rateRequest);
+    const { quotes, carriers, partial, cacheHits } = await service.shopRates(rateRequest);
 
     res.json({
       success: true,
       quotes,
       count: quotes.length,
+      carriers,
+      partial,
+      cacheHits,
     });
   } catch (error) {
     next(error);
@@ -152,10 +433,249 @@ app.post('/api/rates/:carrier', async (req: Request, res: Response, next: NextFu
   }
 });
 
+/**
+ * POST /api/transit-times/:carrier
+ * Get business-day transit times, delivery dates and cutoff times per service
+ *
+ * Request body: Same as /api/rates
+ */
+app.post('/api/transit-times/:carrier', async (req: Request, res: Response, next: NextFunction) => {
+  try {
+    if (!service) {
+      throw new Error('Service not initialized');
+    }
+
+    const carrierName = req.params.carrier;
+    const rateRequest = req.body as RateRequest;
+    const transitTimes = await service.getTransitTimes(carrierName, rateRequest);
+
+    res.json({
+      success: true,
+      carrier: carrierName.toUpperCase(),
+      transitTimes,
+      count: transitTimes.length,
+    });
+  } catch (error) {
+    next(error);
+  }
+});
+
+/**
+ * POST /api/shipments
+ * Create a shipment and generate labels with a specific carrier
+ *
+ * Request body:
+ * {
+ *   "carrier": "UPS",
+ *   "serviceLevel": "03", // carrier service code from a rate quote
+ *   "shipper": { "name": "...", "phone": "...", "address": { ... } },
+ *   "recipient": { "name": "...", "address": { ... } },
+ *   "packages": [{ "weight": 5 }],
+ *   "reference": "ORDER-1001", // Optional
+ *   "labelFormat": "GIF" // Optional: GIF | PNG | ZPL | EPL
+ * }
+ */
+app.post('/api/shipments', async (req: Request, res: Response, next: NextFunction) => {
+  try {
+    if (!service) {
+      throw new Error('Service not initialized');
+    }
+
+    const shipmentRequest = req.body as ShipmentRequest;
+    const shipment = await service.createShipment(shipmentRequest);
+
+    res.status(201).json({
+      success: true,
+      shipment,
+    });
+  } catch (error) {
+    next(error);
+  }
+});
+
+/**
+ * DELETE /api/shipments/:carrier/:trackingNumber
+ * Void (cancel) a shipment within the carrier's void window
+ *
+ * URL params:
+ *   - carrier: Carrier name (e.g., "UPS", "ups")
+ *   - trackingNumber: Shipment identification / tracking number
+ */
+app.delete(
+  '/api/shipments/:carrier/:trackingNumber',
+  async (req: Request, res: Response, next: NextFunction) => {
+    try {
+      if (!service) {
+        throw new Error('Service not initialized');
+      }
+
+      const { carrier, trackingNumber } = req.params;
+      const result = await service.voidShipment(carrier, trackingNumber);
+
+      res.json({
+        success: true,
+        result,
+      });
+    } catch (error) {
+      next(error);
+    }
+  }
+);
+
+/**
+ * POST /api/pickups
+ * Schedule a package pickup
+ *
+ * Request body:
+ * {
+ *   "carrier": "UPS",
+ *   "contact": { "name": "...", "companyName": "...", "phone": "...", "address": {...} },
+ *   "pickupDate": "2026-02-20",
+ *   "readyTime": "09:00",
+ *   "closeTime": "17:00",
+ *   "packageCount": 3,
+ *   "totalWeight": 25.5,
+ *   "serviceLevel": "03", // Optional: defaults to ground
+ *   "instructions": "Dock door 4" // Optional
+ * }
+ */
+app.post('/api/pickups', async (req: Request, res: Response, next: NextFunction) => {
+  try {
+    if (!service) {
+      throw new Error('Service not initialized');
+    }
+
+    const pickupRequest = req.body as PickupRequest;
+    const pickup = await service.schedulePickup(pickupRequest);
+
+    res.status(201).json({
+      success: true,
+      pickup,
+    });
+  } catch (error) {
+    next(error);
+  }
+});
+
+/**
+ * GET /api/pickups/:carrier/:confirmationNumber
+ * Get the status of a scheduled pickup
+ */
+app.get(
+  '/api/pickups/:carrier/:confirmationNumber',
+  async (req: Request, res: Response, next: NextFunction) => {
+    try {
+      if (!service) {
+        throw new Error('Service not initialized');
+      }
+
+      const { carrier, confirmationNumber } = req.params;
+      const pickup = await service.getPickup(carrier, confirmationNumber);
+
+      res.json({
+        success: true,
+        pickup,
+      });
+    } catch (error) {
+      next(error);
+    }
+  }
+);
+
+/**
+ * DELETE /api/pickups/:carrier/:confirmationNumber
+ * Cancel a scheduled pickup
+ */
+app.delete(
+  '/api/pickups/:carrier/:confirmationNumber',
+  async (req: Request, res: Response, next: NextFunction) => {
+    try {
+      if (!service) {
+        throw new Error('Service not initialized');
+      }
+
+      const { carrier, confirmationNumber } = req.params;
+      const result = await service.cancelPickup(carrier, confirmationNumber);
+
+      res.json({
+        success: true,
+        result,
+      });
+    } catch (error) {
+      next(error);
+    }
+  }
+);
+
+/**
+ * GET /api/tracking/:carrier/:trackingNumber
+ * Get normalized tracking events for a shipment
+ *
+ * URL params:
+ *   - carrier: Carrier name (e.g., "UPS", "ups")
+ *   - trackingNumber: Carrier tracking number
+ */
+app.get(
+  '/api/tracking/:carrier/:trackingNumber',
+  async (req: Request, res: Response, next: NextFunction) => {
+    try {
+      if (!service) {
+        throw new Error('Service not initialized');
+      }
+
+      const { carrier, trackingNumber } = req.params;
+      const events = await service.trackShipment(carrier, trackingNumber);
+
+      res.json({
+        success: true,
+        carrier: carrier.toUpperCase(),
+        trackingNumber,
+        events,
+        count: events.length,
+      });
+    } catch (error) {
+      next(error);
+    }
+  }
+);
+
+/**
+ * POST /api/addresses/validate
+ * Validate and normalize an address (UPS Address Validation - Street Level)
+ *
+ * Request body: an address, e.g.
+ * {
+ *   "street": ["26601 Aliso Creek Rd"],
+ *   "city": "Aliso Viejo",
+ *   "stateOrProvince": "CA",
+ *   "postalCode": "92656",
+ *   "country": "US"
+ * }
+ */
+app.post('/api/addresses/validate', async (req: Request, res: Response, next: NextFunction) => {
+  try {
+    if (!service) {
+      throw new Error('Service not initialized');
+    }
+
+    const address = req.body as Address;
+    const result = await service.validateAddress(address);
+
+    res.json({
+      success: true,
+      result,
+    });
+  } catch (error) {
+    next(error);
+  }
+});
+
 /**
  * Error handling middleware
  */
 app.use((err: Error, req: Request, res: Response, next: NextFunction) => {
+  logger.error('Request failed', { method: req.method, path: req.path, error: err });
+
   if (err instanceof CarrierIntegrationError) {
     res.status(getHttpStatusForError(err.code)).json({
       success: false,
@@ -183,12 +703,23 @@ function getHttpStatusForError(code: ErrorCode): number {
   switch (code) {
     case ErrorCode.AUTH_FAILED:
       return 401;
+    case ErrorCode.FORBIDDEN:
+      return 403;
     case ErrorCode.RATE_LIMITED:
       return 429;
     case ErrorCode.INVALID_REQUEST:
       return 400;
+    case ErrorCode.INVALID_ADDRESS:
+      return 422;
     case ErrorCode.CARRIER_UNAVAILABLE:
       return 503;
+    case ErrorCode.NOT_FOUND:
+      return 404;
+    case ErrorCode.SHIPMENT_IN_TRANSIT:
+    case ErrorCode.VOID_WINDOW_EXPIRED:
+      return 409;
+    case ErrorCode.UNSUPPORTED_OPERATION:
+      return 501;
     case ErrorCode.MALFORMED_RESPONSE:
     case ErrorCode.NETWORK_ERROR:
     case ErrorCode.TIMEOUT:
@@ -202,13 +733,27 @@ const PORT = process.env.PORT || 3000;
 
 if (require.main === module) {
   app.listen(PORT, () => {
-    console.log(`🚀 Carrier Integration Service API running on http://localhost:${PORT}`);
-    console.log(`📚 API Documentation:`);
-    console.log(`   GET  /health - Health check`);
-    console.log(`   POST /api/rates - Get rates from all carriers`);
-    console.log(`   POST /api/rates/:carrier - Get rates from specific carrier`);
-    console.log(`\n💡 Example: curl -X POST http://localhost:${PORT}/api/rates -H "Content-Type: application/json" -d @test-request.json`);
-    console.log(`\n⚙️  Mode: ${isMockMode ? 'MOCK' : 'REAL'} (set CARRIER_MODE=real|mock to change)`);
+    logger.info('Carrier Integration Service API started', {
+      url: `http://localhost:${PORT}`,
+      mode: isMockMode ? 'MOCK' : 'REAL', // set CARRIER_MODE=real|mock to change
+      endpoints: [
+        'GET /health - Health check',
+        'GET /health/live - Liveness probe',
+        'GET /health/ready - Readiness probe',
+        'GET /metrics - Prometheus metrics (admin)',
+        'GET /api/carriers - Carrier capabilities and circuit breaker status (admin)',
+        'POST /api/rates - Get rates from all carriers',
+        'POST /api/rates/:carrier - Get rates from specific carrier',
+        'POST /api/transit-times/:carrier - Get transit times per service',
+        'POST /api/shipments - Create shipment and labels',
+        'DELETE /api/shipments/:carrier/:trackingNumber - Void a shipment',
+        'POST /api/pickups - Schedule a pickup',
+        'GET /api/pickups/:carrier/:confirmationNumber - Get pickup status',
+        'DELETE /api/pickups/:carrier/:confirmationNumber - Cancel a pickup',
+        'GET /api/tracking/:carrier/:trackingNumber - Track a shipment',
+        'POST /api/addresses/validate - Validate and normalize an address',
+      ],
+    });
   });
 }
 
@@ -2,30 +2,339 @@
  * Carrier Integration Service - Facade providing clean public API
  */
 
-import { RateRequest, RateQuote } from './domain/types';
-import { RateRequestSchema } from './domain/validation';
+import { Span, SpanStatusCode } from '@opentelemetry/api';
+import {
+  Address,
+  AddressValidationResult,
+  Charge,
+  PickupCancellationResult,
+  PickupDetails,
+  PickupRequest,
+  PickupResult,
+  RateRequest,
+  RateQuote,
+  RateCacheStatus,
+  RateShopResult,
+  CarrierRateResult,
+  TransitTime,
+  ShipmentRequest,
+  ShipmentResult,
+  TrackingEvent,
+  VoidShipmentResult,
+} from './domain/types';
+import {
+  PickupConfirmationNumberSchema,
+  PickupRequestSchema,
+  RateRequestSchema,
+  ShipmentRequestSchema,
+  TrackingNumberSchema,
+  AddressSchema,
+} from './domain/validation';
 import { ErrorCode, CarrierIntegrationError } from './domain/errors';
-import { Carrier } from './carriers/carrier';
+import { Carrier, AddressValidator } from './carriers/carrier';
+import { RateCache } from './cache/rate-cache';
+import { ExchangeRateProvider, convertMoney } from './currency/exchange-rates';
+import { toDecimal, toMoney } from './domain/money';
+import { Logger, NoopLogger } from './logging/logger';
+import { withSpan, withSpanSync } from './tracing/tracing';
+import { getTenantId } from './tenancy/context';
+import {
+  CircuitBreaker,
+  CircuitBreakerConfig,
+  CircuitBreakerSnapshot,
+  CircuitState,
+} from './resilience/circuit-breaker';
 
 export interface CarrierServiceConfig {
   carriers: Carrier[];
+  addressValidator?: AddressValidator;
+  /**
+   * Validate origin/destination with addressValidator before rating,
+   * rating against the corrected addresses
+   */
+  validateAddressesBeforeRating?: boolean;
+  /**
+   * Cache rate quotes per carrier and normalized request
+   */
+  rateCache?: RateCache;
+  /**
+   * Guard each carrier with a circuit breaker that fails fast with
+   * CARRIER_UNAVAILABLE while the carrier is down
+   */
+  circuitBreaker?: Partial<CircuitBreakerConfig>;
+  /**
+   * Time budgets for multi-carrier rate shopping
+   */
+  rateShopTimeouts?: RateShopTimeouts;
+  /**
+   * Structured logger (default: NoopLogger, nothing is logged)
+   */
+  logger?: Logger;
+  /**
+   * Instrumentation callbacks (e.g. metrics); must not throw
+   */
+  hooks?: ServiceHooks;
+  /**
+   * How long checkReadiness reuses its last result (default: 5000ms), so
+   * frequent probes do not hit carrier token endpoints on every call
+   */
+  readinessCacheMs?: number;
+  /**
+   * Per-tenant carriers, used in place of the `carriers` of the same name
+   * for calls made inside runWithTenant (e.g. one UPS account per brand)
+   */
+  tenants?: TenantCarrierResolver;
+  /**
+   * Exchange rates for converting quotes to RateRequest.displayCurrency
+   */
+  exchangeRates?: ExchangeRateProvider;
+}
+
+export interface TenantCarrierResolver {
+  /**
+   * Carriers the tenant has its own accounts for, or undefined when the
+   * tenant is unknown
+   */
+  getCarriers(tenantId: string): Carrier[] | undefined;
+  /**
+   * Every configured tenant, for status and readiness reporting
+   */
+  getTenantIds(): string[];
+}
+
+export type CarrierOperation = Exclude<keyof Carrier, 'getName'>;
+
+export interface ServiceHooks {
+  onRateResult?(result: CarrierRateResult): void;
+  onCarrierError?(event: { carrier: string; operation: CarrierOperation; code: ErrorCode }): void;
+  onCacheLookup?(event: { carrier: string; result: 'HIT' | 'MISS' }): void;
+}
+
+/**
+ * Carriers still pending when their budget or the overall deadline passes are
+ * aborted and reported as TIMED_OUT; quotes that already arrived are returned
+ */
+export interface RateShopTimeouts {
+  deadlineMs?: number; // overall budget for shopRates
+  carrierMs?: number; // default budget per carrier
+  perCarrierMs?: Record<string, number>; // overrides keyed by carrier name
+}
+
+export interface CarrierStatus {
+  name: string;
+  tenantId?: string; // set for a tenant's carriers
+  capabilities: string[];
+  circuit?: CircuitBreakerSnapshot; // present when circuit breakers are enabled
+}
+
+/**
+ * Readiness of one carrier: its credentials work and its circuit is not open
+ */
+export interface CarrierReadiness {
+  name: string;
+  tenantId?: string; // set for a tenant's carriers
+  ready: boolean;
+  credentials: 'OK' | 'FAILED' | 'UNCHECKED'; // UNCHECKED without checkCredentials
+  circuit: CircuitState | 'DISABLED';
+  lastError?: {
+    code: ErrorCode;
+    message: string;
+    at: string; // ISO 8601
+  };
+}
+
+export interface ReadinessReport {
+  ready: boolean; // every carrier, including tenants' carriers, is ready
+  checkedAt: string; // ISO 8601
+  carriers: CarrierReadiness[];
+}
+
+const DEFAULT_READINESS_CACHE_MS = 5000;
+
+const TIMED_OUT = Symbol('timed out');
+
+interface CarrierShopResult {
+  quotes: RateQuote[];
+  outcome: CarrierRateResult;
+}
+
+interface RateShopBudget {
+  ms: number; // time left to wait
+  limitMs: number; // configured timeout it derives from
+  perCarrier: boolean; // the carrier's own budget rather than the overall deadline
+}
+
+function toOutcomeError(error: unknown): NonNullable<CarrierRateResult['error']> {
+  return error instanceof CarrierIntegrationError
+    ? { code: error.code, message: error.message }
+    : {
+        code: ErrorCode.CARRIER_UNAVAILABLE,
+        message: error instanceof Error ? error.message : String(error),
+      };
+}
+
+function recordRateOutcome(span: Span, outcome: CarrierRateResult): void {
+  span.setAttributes({
+    'rates.status': outcome.status,
+    'rates.quote_count': outcome.quoteCount,
+    'rates.cache': outcome.cache,
+  });
+  if (outcome.error) {
+    span.setAttribute('error.code', outcome.error.code);
+    span.setStatus({ code: SpanStatusCode.ERROR, message: outcome.error.message });
+  }
 }
 
 /**
  * Main service facade - provides carrier-agnostic API
  */
 export class CarrierIntegrationService {
+  private readonly circuitBreakers: Map<string, CircuitBreaker> = new Map();
+  private readonly logger: Logger;
+  private readiness: { report: ReadinessReport; expiresAt: number } | null = null;
+  private readinessInFlight: Promise<ReadinessReport> | null = null;
+
   constructor(private readonly config: CarrierServiceConfig) {
     if (!config.carriers || config.carriers.length === 0) {
       throw new Error('At least one carrier must be configured');
     }
+
+    this.logger = config.logger ?? new NoopLogger();
+  }
+
+  /**
+   * Get configured carriers (the defaults, then each tenant's own), their
+   * optional capabilities and circuit state
+   */
+  getCarrierStatuses(): CarrierStatus[] {
+    return this.getAllCarriers().map(({ carrier, tenantId }) => {
+      const capabilities = ['rates'];
+      if (carrier.getTransitTimes) capabilities.push('transitTimes');
+      if (carrier.createShipment) capabilities.push('shipments');
+      if (carrier.voidShipment) capabilities.push('voids');
+      if (carrier.schedulePickup) capabilities.push('pickups');
+      if (carrier.trackShipment) capabilities.push('tracking');
+
+      const breaker = this.getCircuitBreaker(carrier, tenantId);
+      return {
+        name: carrier.getName(),
+        ...(tenantId !== undefined && { tenantId }),
+        capabilities,
+        ...(breaker && { circuit: breaker.getSnapshot() }),
+      };
+    });
+  }
+
+  /**
+   * Check that every carrier can authenticate and is not failing fast.
+   * Results are cached for readinessCacheMs, and concurrent callers share
+   * one in-flight check.
+   */
+  async checkReadiness(): Promise<ReadinessReport> {
+    if (this.readiness && Date.now() < this.readiness.expiresAt) {
+      return this.readiness.report;
+    }
+    if (!this.readinessInFlight) {
+      this.readinessInFlight = this.runReadinessChecks().finally(() => {
+        this.readinessInFlight = null;
+      });
+    }
+    return this.readinessInFlight;
   }
 
   /**
    * Get rate quotes from all configured carriers
    */
   async getRates(request: RateRequest): Promise<RateQuote[]> {
+    const result = await this.shopRates(request);
+    return result.quotes;
+  }
+
+  /**
+   * Get rate quotes from all configured carriers along with the outcome for
+   * each carrier, so callers can tell "no services" apart from "carrier down"
+   */
+  shopRates(request: RateRequest): Promise<RateShopResult> {
+    return withSpan('rates.shop', async (span) => {
+      const result = await this.runRateShop(request);
+      span.setAttributes({
+        'rates.quote_count': result.quotes.length,
+        'rates.partial': result.partial,
+      });
+      return result;
+    });
+  }
+
+  private async runRateShop(request: RateRequest): Promise<RateShopResult> {
+    const { deadlineMs } = this.config.rateShopTimeouts || {};
+    const deadlineAt = deadlineMs !== undefined ? Date.now() + deadlineMs : undefined;
+
     // Validate input
+    withSpanSync('rates.validate', () => {
+      const validationResult = RateRequestSchema.safeParse(request);
+      if (!validationResult.success) {
+        throw new CarrierIntegrationError(
+          ErrorCode.INVALID_REQUEST,
+          `Invalid rate request: ${validationResult.error.message}`,
+          validationResult.error
+        );
+      }
+    });
+    await this.assertCanConvert(request);
+
+    const ratedRequest = await this.prevalidateAddresses(request);
+
+    // Request rates from all carriers in parallel, one span per carrier
+    const results = await Promise.all(
+      this.getActiveCarriers().map((carrier) =>
+        withSpan(
+          'rates.carrier',
+          async (span) => {
+            const result = await this.convertShopResult(
+              await this.shopWithCarrier(
+                carrier,
+                ratedRequest,
+                this.getRateShopBudget(carrier, deadlineAt)
+              ),
+              request.displayCurrency
+            );
+            recordRateOutcome(span, result.outcome);
+            return result;
+          },
+          { attributes: { 'carrier.name': carrier.getName() } }
+        )
+      )
+    );
+    // Flatten all quotes into a single array
+    const quotes = results.flatMap((result) => result.quotes);
+    const carriers = results.map((result) => result.outcome);
+    carriers.forEach((outcome) => this.config.hooks?.onRateResult?.(outcome));
+
+    this.logger.info('Rate shop completed', {
+      quoteCount: quotes.length,
+      carriers: carriers.map(({ carrier, status, latencyMs, cache }) => ({
+        carrier,
+        status,
+        latencyMs,
+        cache,
+      })),
+    });
+
+    return {
+      quotes,
+      carriers,
+      partial: carriers.some((outcome) => outcome.status !== 'SUCCESS'),
+      cacheHits: carriers.filter((outcome) => outcome.cache === 'HIT').length,
+    };
+  }
+
+  /**
+   * Get rate quotes from a specific carrier
+   */
+  async getRatesFromCarrier(
+    carrierName: string,
+    request: RateRequest
+  ): Promise<RateQuote[]> {
     const validationResult = RateRequestSchema.safeParse(request);
     if (!validationResult.success) {
       throw new CarrierIntegrationError(
@@ -35,41 +344,755 @@ export class CarrierIntegrationService {
       );
     }
 
-    // Request rates from all carriers in parallel
-    const carrierPromises = this.config.carriers.map((carrier) =>
-      carrier
-        .getRates(request)
-        .then((quotes) => ({ carrier: carrier.getName(), quotes }))
-        .catch((error) => {
-          // Log error but don't fail entire request if one carrier fails
-          console.error(`Carrier ${carrier.getName()} failed:`, error);
-          return { carrier: carrier.getName(), quotes: [] as RateQuote[] };
-        })
-    );
+    await this.assertCanConvert(request);
 
-    const results = await Promise.all(carrierPromises);
-    // Flatten all quotes into a single array
-    const quotes = results.flatMap((result) => result.quotes);
-    return quotes;
+    const carrier = this.getCarrier(carrierName);
+    const { quotes } = await this.cachedRateWithCarrier(
+      carrier,
+      await this.prevalidateAddresses(request)
+    );
+    return this.convertQuotes(quotes, request.displayCurrency);
   }
 
   /**
-   * Get rate quotes from a specific carrier
+   * Get business-day transit times per service from a specific carrier
    */
-  async getRatesFromCarrier(
+  async getTransitTimes(
     carrierName: string,
     request: RateRequest
-  ): Promise<RateQuote[]> {
+  ): Promise<TransitTime[]> {
     const validationResult = RateRequestSchema.safeParse(request);
     if (!validationResult.success) {
       throw new CarrierIntegrationError(
         ErrorCode.INVALID_REQUEST,
-        `Invalid rate request: ${validationResult.error.message}`,
+        `Invalid transit time request: ${validationResult.error.message}`,
+        validationResult.error
+      );
+    }
+
+    const carrier = this.getCarrier(carrierName);
+    if (!carrier.getTransitTimes) {
+      throw new CarrierIntegrationError(
+        ErrorCode.UNSUPPORTED_OPERATION,
+        `Carrier '${carrier.getName()}' does not support transit times`
+      );
+    }
+
+    return this.guard(carrier, 'getTransitTimes', () => carrier.getTransitTimes!(request));
+  }
+
+  /**
+   * Create a shipment (and labels) with the carrier named in the request
+   */
+  async createShipment(request: ShipmentRequest): Promise<ShipmentResult> {
+    const validationResult = ShipmentRequestSchema.safeParse(request);
+    if (!validationResult.success) {
+      throw new CarrierIntegrationError(
+        ErrorCode.INVALID_REQUEST,
+        `Invalid shipment request: ${validationResult.error.message}`,
+        validationResult.error
+      );
+    }
+
+    const carrier = this.getCarrier(request.carrier);
+    if (!carrier.createShipment) {
+      throw new CarrierIntegrationError(
+        ErrorCode.UNSUPPORTED_OPERATION,
+        `Carrier '${carrier.getName()}' does not support shipment creation`
+      );
+    }
+
+    return this.guard(carrier, 'createShipment', () => carrier.createShipment!(request));
+  }
+
+  /**
+   * Void a previously created shipment with a specific carrier
+   */
+  async voidShipment(
+    carrierName: string,
+    trackingNumber: string
+  ): Promise<VoidShipmentResult> {
+    const validationResult = TrackingNumberSchema.safeParse(trackingNumber);
+    if (!validationResult.success) {
+      throw new CarrierIntegrationError(
+        ErrorCode.INVALID_REQUEST,
+        `Invalid tracking number: ${validationResult.error.message}`,
+        validationResult.error
+      );
+    }
+
+    const carrier = this.getCarrier(carrierName);
+    if (!carrier.voidShipment) {
+      throw new CarrierIntegrationError(
+        ErrorCode.UNSUPPORTED_OPERATION,
+        `Carrier '${carrier.getName()}' does not support voiding shipments`
+      );
+    }
+
+    return this.guard(carrier, 'voidShipment', () =>
+      carrier.voidShipment!(validationResult.data)
+    );
+  }
+
+  /**
+   * Schedule a pickup with the carrier named in the request
+   */
+  async schedulePickup(request: PickupRequest): Promise<PickupResult> {
+    const validationResult = PickupRequestSchema.safeParse(request);
+    if (!validationResult.success) {
+      throw new CarrierIntegrationError(
+        ErrorCode.INVALID_REQUEST,
+        `Invalid pickup request: ${validationResult.error.message}`,
         validationResult.error
       );
     }
 
-    const carrier = this.config.carriers.find(
+    const carrier = this.getCarrier(request.carrier);
+    if (!carrier.schedulePickup) {
+      throw new CarrierIntegrationError(
+        ErrorCode.UNSUPPORTED_OPERATION,
+        `Carrier '${carrier.getName()}' does not support pickup scheduling`
+      );
+    }
+
+    return this.guard(carrier, 'schedulePickup', () => carrier.schedulePickup!(request));
+  }
+
+  /**
+   * Get the status of a scheduled pickup from a specific carrier
+   */
+  async getPickup(
+    carrierName: string,
+    confirmationNumber: string
+  ): Promise<PickupDetails> {
+    const number = this.parseConfirmationNumber(confirmationNumber);
+
+    const carrier = this.getCarrier(carrierName);
+    if (!carrier.getPickup) {
+      throw new CarrierIntegrationError(
+        ErrorCode.UNSUPPORTED_OPERATION,
+        `Carrier '${carrier.getName()}' does not support pickup lookup`
+      );
+    }
+
+    return this.guard(carrier, 'getPickup', () => carrier.getPickup!(number));
+  }
+
+  /**
+   * Cancel a scheduled pickup with a specific carrier
+   */
+  async cancelPickup(
+    carrierName: string,
+    confirmationNumber: string
+  ): Promise<PickupCancellationResult> {
+    const number = this.parseConfirmationNumber(confirmationNumber);
+
+    const carrier = this.getCarrier(carrierName);
+    if (!carrier.cancelPickup) {
+      throw new CarrierIntegrationError(
+        ErrorCode.UNSUPPORTED_OPERATION,
+        `Carrier '${carrier.getName()}' does not support pickup cancellation`
+      );
+    }
+
+    return this.guard(carrier, 'cancelPickup', () => carrier.cancelPickup!(number));
+  }
+
+  /**
+   * Get tracking events for a shipment from a specific carrier
+   */
+  async trackShipment(
+    carrierName: string,
+    trackingNumber: string
+  ): Promise<TrackingEvent[]> {
+    const validationResult = TrackingNumberSchema.safeParse(trackingNumber);
+    if (!validationResult.success) {
+      throw new CarrierIntegrationError(
+        ErrorCode.INVALID_REQUEST,
+        `Invalid tracking number: ${validationResult.error.message}`,
+        validationResult.error
+      );
+    }
+
+    const carrier = this.getCarrier(carrierName);
+    if (!carrier.trackShipment) {
+      throw new CarrierIntegrationError(
+        ErrorCode.UNSUPPORTED_OPERATION,
+        `Carrier '${carrier.getName()}' does not support tracking`
+      );
+    }
+
+    return this.guard(carrier, 'trackShipment', () =>
+      carrier.trackShipment!(validationResult.data)
+    );
+  }
+
+  /**
+   * Validate and normalize an address with the configured address validator
+   */
+  async validateAddress(address: Address): Promise<AddressValidationResult> {
+    const validationResult = AddressSchema.safeParse(address);
+    if (!validationResult.success) {
+      throw new CarrierIntegrationError(
+        ErrorCode.INVALID_REQUEST,
+        `Invalid address: ${validationResult.error.message}`,
+        validationResult.error
+      );
+    }
+
+    const addressValidator = this.getAddressValidator();
+    if (!addressValidator) {
+      throw new CarrierIntegrationError(
+        ErrorCode.UNSUPPORTED_OPERATION,
+        'No address validator is configured'
+      );
+    }
+
+    return addressValidator.validateAddress(address);
+  }
+
+  /**
+   * Time left for a carrier in a rate shop: its own budget, capped by the
+   * time remaining until the overall deadline. `limitMs` is the configured
+   * timeout that applies, for reporting.
+   */
+  private getRateShopBudget(carrier: Carrier, deadlineAt?: number): RateShopBudget | undefined {
+    const timeouts = this.config.rateShopTimeouts || {};
+    const carrierMs = timeouts.perCarrierMs?.[carrier.getName()] ?? timeouts.carrierMs;
+    const budgets: RateShopBudget[] = [];
+    if (carrierMs !== undefined) {
+      budgets.push({ ms: carrierMs, limitMs: carrierMs, perCarrier: true });
+    }
+    if (deadlineAt !== undefined && timeouts.deadlineMs !== undefined) {
+      budgets.push({
+        ms: Math.max(0, deadlineAt - Date.now()),
+        limitMs: timeouts.deadlineMs,
+        perCarrier: false,
+      });
+    }
+
+    return budgets.reduce<RateShopBudget | undefined>(
+      (tightest, budget) => (!tightest || budget.ms < tightest.ms ? budget : tightest),
+      undefined
+    );
+  }
+
+  /**
+   * Rate with one carrier during a rate shop; failures are reported in the
+   * outcome rather than failing the entire request
+   */
+  private async shopWithCarrier(
+    carrier: Carrier,
+    request: RateRequest,
+    budget?: RateShopBudget
+  ): Promise<CarrierShopResult> {
+    const startedAt = Date.now();
+    const controller = new AbortController();
+    let timer: ReturnType<typeof setTimeout> | undefined;
+    const timedOut = new Promise<typeof TIMED_OUT>((resolve) => {
+      if (budget !== undefined) {
+        timer = setTimeout(() => resolve(TIMED_OUT), budget.ms);
+      }
+    });
+
+    const failed = (
+      status: CarrierRateResult['status'],
+      error: NonNullable<CarrierRateResult['error']>
+    ): CarrierShopResult => ({
+      quotes: [],
+      outcome: {
+        carrier: carrier.getName(),
+        status,
+        quoteCount: 0,
+        latencyMs: Date.now() - startedAt,
+        cache: this.config.rateCache ? 'MISS' : 'DISABLED',
+        error,
+      },
+    });
+
+    try {
+      const result = await Promise.race([
+        this.cachedRateWithCarrier(carrier, request, controller.signal),
+        timedOut,
+      ]);
+
+      if (result === TIMED_OUT) {
+        // Cancel the in-flight carrier request; its quotes would arrive too
+        // late. Running past its own budget counts against the carrier, while
+        // the overall deadline only cancels it.
+        const timeout = new CarrierIntegrationError(
+          ErrorCode.TIMEOUT,
+          `${carrier.getName()} did not respond within ${budget!.limitMs}ms`
+        );
+        controller.abort(budget!.perCarrier ? timeout : undefined);
+        return failed('TIMED_OUT', { code: timeout.code, message: timeout.message });
+      }
+
+      return {
+        quotes: result.quotes,
+        outcome: {
+          carrier: carrier.getName(),
+          status: 'SUCCESS',
+          quoteCount: result.quotes.length,
+          latencyMs: Date.now() - startedAt,
+          cache: result.cache,
+        },
+      };
+    } catch (error) {
+      this.logger.error('Carrier rate request failed', { carrier: carrier.getName(), error });
+      return failed('FAILED', toOutcomeError(error));
+    } finally {
+      clearTimeout(timer);
+    }
+  }
+
+  private async runReadinessChecks(): Promise<ReadinessReport> {
+    const carriers = await Promise.all(
+      this.getAllCarriers().map(({ carrier, tenantId }) =>
+        this.checkCarrierReadiness(carrier, tenantId)
+      )
+    );
+    const report: ReadinessReport = {
+      ready: carriers.every((carrier) => carrier.ready),
+      checkedAt: new Date().toISOString(),
+      carriers,
+    };
+
+    this.readiness = {
+      report,
+      expiresAt: Date.now() + (this.config.readinessCacheMs ?? DEFAULT_READINESS_CACHE_MS),
+    };
+    if (!report.ready) {
+      this.logger.warn('Readiness check failed', {
+        carriers: carriers
+          .filter((carrier) => !carrier.ready)
+          .map((carrier) =>
+            carrier.tenantId !== undefined ? `${carrier.tenantId}/${carrier.name}` : carrier.name
+          ),
+      });
+    }
+    return report;
+  }
+
+  /**
+   * Credentials are checked directly rather than through the circuit breaker,
+   * so an open circuit is reported as such instead of masking the check
+   */
+  private async checkCarrierReadiness(
+    carrier: Carrier,
+    tenantId?: string
+  ): Promise<CarrierReadiness> {
+    const circuit = this.getCircuitBreaker(carrier, tenantId)?.getSnapshot();
+    const readiness: CarrierReadiness = {
+      name: carrier.getName(),
+      ...(tenantId !== undefined && { tenantId }),
+      ready: circuit?.state !== CircuitState.OPEN,
+      credentials: 'UNCHECKED',
+      circuit: circuit?.state ?? 'DISABLED',
+      ...(circuit?.lastError && { lastError: circuit.lastError }),
+    };
+
+    if (!carrier.checkCredentials) {
+      return readiness;
+    }
+
+    try {
+      await carrier.checkCredentials();
+      readiness.credentials = 'OK';
+    } catch (error) {
+      readiness.ready = false;
+      readiness.credentials = 'FAILED';
+      readiness.lastError = {
+        code: error instanceof CarrierIntegrationError ? error.code : ErrorCode.AUTH_FAILED,
+        message: error instanceof Error ? error.message : String(error),
+        at: new Date().toISOString(),
+      };
+    }
+    return readiness;
+  }
+
+  /**
+   * Rate with a carrier through the rate cache, when one is configured
+   */
+  private async cachedRateWithCarrier(
+    carrier: Carrier,
+    request: RateRequest,
+    signal?: AbortSignal
+  ): Promise<{ quotes: RateQuote[]; cache: RateCacheStatus }> {
+    const rateCache = this.config.rateCache;
+    if (!rateCache) {
+      return {
+        quotes: await this.guard(
+          carrier,
+          'getRates',
+          () => this.rateWithCarrier(carrier, request, signal),
+          signal
+        ),
+        cache: 'DISABLED',
+      };
+    }
+
+    // The cache is an optimization; store failures fall through to the carrier
+    const tenantId = getTenantId();
+    const cached = await rateCache.get(carrier.getName(), request, tenantId).catch((error) => {
+      this.logger.warn('Rate cache read failed', { carrier: carrier.getName(), error });
+      return undefined;
+    });
+    this.config.hooks?.onCacheLookup?.({
+      carrier: carrier.getName(),
+      result: cached ? 'HIT' : 'MISS',
+    });
+    if (cached) {
+      return { quotes: cached, cache: 'HIT' };
+    }
+
+    const quotes = await this.guard(
+      carrier,
+      'getRates',
+      () => this.rateWithCarrier(carrier, request, signal),
+      signal
+    );
+    await rateCache.set(carrier.getName(), request, quotes, tenantId).catch((error) => {
+      this.logger.warn('Rate cache write failed', { carrier: carrier.getName(), error });
+    });
+    return { quotes, cache: 'MISS' };
+  }
+
+  /**
+   * Rate with a carrier, merging in its transit times when the caller asks for them
+   */
+  private async rateWithCarrier(
+    carrier: Carrier,
+    request: RateRequest,
+    signal?: AbortSignal
+  ): Promise<RateQuote[]> {
+    if (!request.includeTransitTimes || !carrier.getTransitTimes) {
+      return carrier.getRates(request, { signal });
+    }
+
+    const [quotes, transitTimes] = await Promise.all([
+      carrier.getRates(request, { signal }),
+      carrier.getTransitTimes(request, { signal }).catch((error) => {
+        // Transit times are supplementary; quotes are still useful without them
+        this.logger.warn('Transit times skipped', { carrier: carrier.getName(), error });
+        return [] as TransitTime[];
+      }),
+    ]);
+
+    return quotes.map((quote) => {
+      const transit = transitTimes.find((t) => t.serviceLevel === quote.serviceLevel);
+      if (!transit) {
+        return quote;
+      }
+      return {
+        ...quote,
+        estimatedDays: transit.businessDays,
+        ...(transit.deliveryDate && { deliveryDate: transit.deliveryDate }),
+        ...(transit.cutoffTime && { cutoffTime: transit.cutoffTime }),
+      };
+    });
+  }
+
+  /**
+   * Fail before calling any carrier when a display currency was requested
+   * but there are no exchange rates to convert to it
+   */
+  private async assertCanConvert(request: RateRequest): Promise<void> {
+    const { displayCurrency } = request;
+    if (!displayCurrency) {
+      return;
+    }
+
+    const exchangeRates = this.config.exchangeRates;
+    if (!exchangeRates) {
+      throw new CarrierIntegrationError(
+        ErrorCode.UNSUPPORTED_OPERATION,
+        'No exchange rate provider is configured'
+      );
+    }
+    if (!(await exchangeRates.hasCurrency(displayCurrency))) {
+      throw new CarrierIntegrationError(
+        ErrorCode.INVALID_REQUEST,
+        `No exchange rate for currency '${displayCurrency}'`
+      );
+    }
+  }
+
+  /**
+   * Convert one carrier's rate shop quotes to the display currency. A quote
+   * in a currency without an exchange rate fails that carrier only.
+   */
+  private async convertShopResult(
+    result: CarrierShopResult,
+    displayCurrency: string | undefined
+  ): Promise<CarrierShopResult> {
+    try {
+      return { ...result, quotes: await this.convertQuotes(result.quotes, displayCurrency) };
+    } catch (error) {
+      this.logger.error('Quote currency conversion failed', {
+        carrier: result.outcome.carrier,
+        error,
+      });
+      return {
+        quotes: [],
+        outcome: {
+          ...result.outcome,
+          status: 'FAILED',
+          quoteCount: 0,
+          error: toOutcomeError(error),
+        },
+      };
+    }
+  }
+
+  /**
+   * Convert quotes (and their charge breakdowns) to the display currency,
+   * keeping each carrier's own amount as originalCost. Runs after the rate cache, so cached quotes
+   * stay in carrier currency and serve every display currency.
+   */
+  private async convertQuotes(
+    quotes: RateQuote[],
+    displayCurrency: string | undefined
+  ): Promise<RateQuote[]> {
+    const exchangeRates = this.config.exchangeRates;
+    if (!displayCurrency || !exchangeRates) {
+      return quotes;
+    }
+
+    return Promise.all(
+      quotes.map(async (quote) => {
+        // The list price can be in another currency than the quote itself
+        const { publishedCurrency, ...carrierQuote } = quote;
+        const published = quote.publishedCost !== undefined && {
+          publishedCost: toDecimal(
+            await convertMoney(
+              toMoney(quote.publishedCost, publishedCurrency ?? quote.currency),
+              displayCurrency,
+              exchangeRates
+            )
+          ),
+        };
+
+        const original = toMoney(quote.totalCost, quote.currency);
+        if (original.currency === displayCurrency) {
+          return publishedCurrency ? { ...carrierQuote, ...published } : quote;
+        }
+
+        const convert = async (amount: number) =>
+          toDecimal(
+            await convertMoney(toMoney(amount, quote.currency), displayCurrency, exchangeRates)
+          );
+        const convertCharges = (charges: Charge[]) =>
+          Promise.all(
+            charges.map(async (charge) => ({ ...charge, amount: await convert(charge.amount) }))
+          );
+
+        const converted = await convertMoney(original, displayCurrency, exchangeRates);
+        return {
+          ...carrierQuote,
+          totalCost: toDecimal(converted),
+          currency: converted.currency,
+          originalCost: original,
+          ...published,
+          ...(quote.charges && { charges: await convertCharges(quote.charges) }),
+          ...(quote.packageCharges && {
+            packageCharges: await Promise.all(
+              quote.packageCharges.map(async (pkg) => ({
+                total: await convert(pkg.total),
+                charges: await convertCharges(pkg.charges),
+              }))
+            ),
+          }),
+        };
+      })
+    );
+  }
+
+  /**
+   * Replace origin/destination with validated addresses when pre-rating
+   * validation is enabled
+   */
+  private async prevalidateAddresses(request: RateRequest): Promise<RateRequest> {
+    const addressValidator = this.getAddressValidator();
+    if (!addressValidator || !this.config.validateAddressesBeforeRating) {
+      return request;
+    }
+
+    const [origin, destination] = await Promise.all([
+      this.prevalidateAddress(addressValidator, request.origin, 'Origin'),
+      this.prevalidateAddress(addressValidator, request.destination, 'Destination'),
+    ]);
+    return { ...request, origin, destination };
+  }
+
+  private async prevalidateAddress(
+    addressValidator: AddressValidator,
+    address: Address,
+    label: string
+  ): Promise<Address> {
+    let result: AddressValidationResult;
+    try {
+      result = await addressValidator.validateAddress(address);
+    } catch (error) {
+      // Validation is best-effort: unsupported countries or validator outages
+      // should not block rating
+      this.logger.warn('Address validation skipped', { address: label, error });
+      return address;
+    }
+
+    if (result.valid && result.correctedAddress) {
+      return result.correctedAddress;
+    }
+
+    throw new CarrierIntegrationError(
+      ErrorCode.INVALID_ADDRESS,
+      result.ambiguous
+        ? `${label} address is ambiguous: ${result.candidates.length} candidate addresses found`
+        : `${label} address could not be validated`
+    );
+  }
+
+  private parseConfirmationNumber(confirmationNumber: string): string {
+    const validationResult = PickupConfirmationNumberSchema.safeParse(confirmationNumber);
+    if (!validationResult.success) {
+      throw new CarrierIntegrationError(
+        ErrorCode.INVALID_REQUEST,
+        `Invalid pickup confirmation number: ${validationResult.error.message}`,
+        validationResult.error
+      );
+    }
+    return validationResult.data;
+  }
+
+  /**
+   * Run a carrier call through the carrier's circuit breaker, if enabled,
+   * reporting failures to the onCarrierError hook. A call aborted through
+   * `signal` with a CarrierIntegrationError reason fails with that error;
+   * calls cancelled for any other reason are not held against the carrier.
+   */
+  private async guard<T>(
+    carrier: Carrier,
+    operationName: CarrierOperation,
+    operation: () => Promise<T>,
+    signal?: AbortSignal
+  ): Promise<T> {
+    const breaker = this.getCircuitBreaker(carrier, this.getOwningTenantId(carrier));
+    try {
+      return await (breaker ? breaker.execute(operation, signal) : operation());
+    } catch (error) {
+      const failure = signal?.aborted ? signal.reason : error;
+      if (failure instanceof CarrierIntegrationError) {
+        this.config.hooks?.onCarrierError?.({
+          carrier: carrier.getName(),
+          operation: operationName,
+          code: failure.code,
+        });
+      }
+      throw error;
+    }
+  }
+
+  /**
+   * Circuit breaker for a carrier, one per tenant for tenants' own carriers
+   * so one tenant's failing account does not fail fast for everyone else.
+   * Undefined when circuit breakers are disabled.
+   */
+  private getCircuitBreaker(carrier: Carrier, tenantId?: string): CircuitBreaker | undefined {
+    if (!this.config.circuitBreaker) {
+      return undefined;
+    }
+
+    const name = carrier.getName();
+    const key = tenantId !== undefined ? `${tenantId}/${name}` : name;
+    let breaker = this.circuitBreakers.get(key);
+    if (!breaker) {
+      breaker = new CircuitBreaker(
+        tenantId !== undefined ? `${name} (tenant ${tenantId})` : name,
+        this.config.circuitBreaker
+      );
+      this.circuitBreakers.set(key, breaker);
+    }
+    return breaker;
+  }
+
+  /**
+   * The default carriers followed by every tenant's own carriers
+   */
+  private getAllCarriers(): Array<{ carrier: Carrier; tenantId?: string }> {
+    const tenants = this.config.tenants;
+    return [
+      ...this.config.carriers.map((carrier) => ({ carrier })),
+      ...(tenants?.getTenantIds() ?? []).flatMap((tenantId) =>
+        (tenants!.getCarriers(tenantId) ?? []).map((carrier) => ({ carrier, tenantId }))
+      ),
+    ];
+  }
+
+  /**
+   * Carriers for the current tenant: its own carriers in place of the
+   * default ones of the same name. The default carriers outside a tenant.
+   */
+  private getActiveCarriers(): Carrier[] {
+    const tenantId = getTenantId();
+    if (tenantId === undefined) {
+      return this.config.carriers;
+    }
+
+    const own = this.config.tenants?.getCarriers(tenantId);
+    if (!own) {
+      throw new CarrierIntegrationError(
+        ErrorCode.INVALID_REQUEST,
+        `Tenant '${tenantId}' is not configured`
+      );
+    }
+    const ownFor = (carrier: Carrier) =>
+      own.find((candidate) => candidate.getName() === carrier.getName());
+    return [
+      ...this.config.carriers.map((carrier) => ownFor(carrier) ?? carrier),
+      ...own.filter(
+        (carrier) => !this.config.carriers.some((c) => c.getName() === carrier.getName())
+      ),
+    ];
+  }
+
+  /**
+   * The current tenant when it owns the carrier; default carriers shared
+   * with tenants keep their default circuit breaker
+   */
+  private getOwningTenantId(carrier: Carrier): string | undefined {
+    const tenantId = getTenantId();
+    return tenantId !== undefined && this.config.tenants?.getCarriers(tenantId)?.includes(carrier)
+      ? tenantId
+      : undefined;
+  }
+
+  /**
+   * Address validator for the current tenant. When the configured validator
+   * is one of the default carriers, a tenant uses its own account of that
+   * carrier instead, so validation is billed to the tenant.
+   */
+  private getAddressValidator(): AddressValidator | undefined {
+    const validator = this.config.addressValidator;
+    const validatorCarrier = this.config.carriers.find(
+      (carrier) => carrier === (validator as unknown)
+    );
+    if (!validatorCarrier || getTenantId() === undefined) {
+      return validator;
+    }
+
+    const tenantCarrier = this.getActiveCarriers().find(
+      (carrier) => carrier.getName() === validatorCarrier.getName()
+    );
+    return tenantCarrier && 'validateAddress' in tenantCarrier
+      ? (tenantCarrier as Carrier & AddressValidator)
+      : validator;
+  }
+
+  /**
+   * Look up a configured carrier by name (case-insensitive)
+   */
+  private getCarrier(carrierName: string): Carrier {
+    const carrier = this.getActiveCarriers().find(
       (c) => c.getName().toUpperCase() === carrierName.toUpperCase()
     );
 
@@ -80,6 +1103,6 @@ export class CarrierIntegrationService {
       );
     }
 
-    return carrier.getRates(request);
+    return carrier;
   }
 }
@@ -0,0 +1,26 @@
+/**
+ * Request-scoped tenant ID, so the service can resolve the caller's carrier
+ * accounts without threading the tenant through every call
+ */
+
+import { AsyncLocalStorage } from 'async_hooks';
+
+interface TenantContext {
+  tenantId: string;
+}
+
+const storage = new AsyncLocalStorage<TenantContext>();
+
+/**
+ * Run a function on behalf of the given tenant
+ */
+export function runWithTenant<T>(tenantId: string, fn: () => T): T {
+  return storage.run({ tenantId }, fn);
+}
+
+/**
+ * Tenant of the current request, if any
+ */
+export function getTenantId(): string | undefined {
+  return storage.getStore()?.tenantId;
+}
@@ -0,0 +1,62 @@
+/**
+ * Tenant registry - per-tenant carrier accounts, built on first use
+ */
+
+import { Carrier } from '../carriers/carrier';
+import { TenantCarrierResolver } from '../service';
+
+/**
+ * A brand or customer with its own carrier accounts. Carriers without an
+ * account here use the service's default carriers.
+ */
+export interface TenantConfig {
+  id: string;
+  ups?: {
+    clientId: string;
+    clientSecret: string;
+    shipperNumber: string;
+  };
+}
+
+/**
+ * Looks tenants up by ID and memoizes each tenant's carriers, so every
+ * tenant keeps its own adapters and OAuth token cache
+ */
+export class TenantRegistry implements TenantCarrierResolver {
+  private readonly tenants = new Map<string, TenantConfig>();
+  private readonly carriers = new Map<string, Carrier[]>();
+
+  constructor(
+    tenants: TenantConfig[],
+    private readonly createCarriers: (tenant: TenantConfig) => Carrier[]
+  ) {
+    for (const tenant of tenants) {
+      if (this.tenants.has(tenant.id)) {
+        throw new Error(`Duplicate tenant '${tenant.id}'`);
+      }
+      this.tenants.set(tenant.id, tenant);
+    }
+  }
+
+  getTenant(tenantId: string): TenantConfig | undefined {
+    return this.tenants.get(tenantId);
+  }
+
+  getTenantIds(): string[] {
+    return [...this.tenants.keys()];
+  }
+
+  getCarriers(tenantId: string): Carrier[] | undefined {
+    const tenant = this.tenants.get(tenantId);
+    if (!tenant) {
+      return undefined;
+    }
+
+    let carriers = this.carriers.get(tenantId);
+    if (!carriers) {
+      carriers = this.createCarriers(tenant);
+      this.carriers.set(tenantId, carriers);
+    }
+    return carriers;
+  }
+}
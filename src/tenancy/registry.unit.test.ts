@@ -0,0 +1,45 @@
+/**
+ * Unit tests for the tenant registry
+ */
+
+import { TenantConfig, TenantRegistry } from './registry';
+import { Carrier } from '../carriers/carrier';
+
+describe('TenantRegistry Unit Tests', () => {
+  const brandA: TenantConfig = {
+    id: 'brand-a',
+    ups: { clientId: 'brand-a-client', clientSecret: 'brand-a-secret', shipperNumber: 'A12345' },
+  };
+  const brandB: TenantConfig = { id: 'brand-b' };
+
+  const fakeCarrier = (name: string): Carrier => ({
+    getName: () => name,
+    getRates: async () => [],
+  });
+
+  it('should find tenants by ID', () => {
+    const registry = new TenantRegistry([brandA, brandB], () => []);
+
+    expect(registry.getTenant('brand-b')).toBe(brandB);
+    expect(registry.getTenant('brand-c')).toBeUndefined();
+    expect(registry.getTenantIds()).toEqual(['brand-a', 'brand-b']);
+  });
+
+  it('should build each tenant\'s carriers once', () => {
+    const createCarriers = jest.fn((tenant: TenantConfig) => [fakeCarrier(`UPS-${tenant.id}`)]);
+    const registry = new TenantRegistry([brandA, brandB], createCarriers);
+
+    const first = registry.getCarriers('brand-a');
+    expect(registry.getCarriers('brand-a')).toBe(first);
+    expect(first?.[0].getName()).toBe('UPS-brand-a');
+    expect(registry.getCarriers('brand-b')?.[0].getName()).toBe('UPS-brand-b');
+    expect(registry.getCarriers('brand-c')).toBeUndefined();
+    expect(createCarriers).toHaveBeenCalledTimes(2);
+  });
+
+  it('should reject duplicate tenant IDs', () => {
+    expect(() => new TenantRegistry([brandA, { id: 'brand-a' }], () => [])).toThrow(
+      "Duplicate tenant 'brand-a'"
+    );
+  });
+});
@@ -0,0 +1,38 @@
+/**
+ * Express middleware continuing the caller's W3C trace for each request
+ */
+
+import { Request, Response, NextFunction, RequestHandler } from 'express';
+import { SpanKind, SpanStatusCode, context, propagation, trace } from '@opentelemetry/api';
+import { getTracer } from './tracing';
+
+/**
+ * Start a server span per request, parented to the incoming traceparent
+ * header when present, and make it active for the rest of the request
+ */
+export function traceRequests(): RequestHandler {
+  return (req: Request, res: Response, next: NextFunction) => {
+    const parentContext = propagation.extract(context.active(), req.headers);
+    const span = getTracer().startSpan(
+      `${req.method} ${req.path}`,
+      {
+        kind: SpanKind.SERVER,
+        attributes: {
+          'http.request.method': req.method,
+          'url.path': req.path,
+        },
+      },
+      parentContext
+    );
+
+    res.on('finish', () => {
+      span.setAttribute('http.response.status_code', res.statusCode);
+      if (res.statusCode >= 500) {
+        span.setStatus({ code: SpanStatusCode.ERROR });
+      }
+      span.end();
+    });
+
+    context.with(trace.setSpan(parentContext, span), next);
+  };
+}
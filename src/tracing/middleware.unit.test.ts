@@ -0,0 +1,69 @@
+/**
+ * Unit tests for the trace propagation middleware
+ */
+
+import { EventEmitter } from 'events';
+import { Request, Response } from 'express';
+import { SpanKind, SpanStatusCode, trace } from '@opentelemetry/api';
+import { InMemorySpanExporter } from '@opentelemetry/sdk-trace-base';
+import { traceRequests } from './middleware';
+import { setupTracing, disableTracing } from './tracing';
+
+describe('traceRequests Unit Tests', () => {
+  const exporter = new InMemorySpanExporter();
+  const incomingTraceId = '4bf92f3577b34da6a3ce929d0e0e4736';
+  const incomingSpanId = '00f067aa0ba902b7';
+
+  const fakeExchange = (headers: Record<string, string> = {}) => {
+    const req = { method: 'POST', path: '/api/rates', headers } as unknown as Request;
+    const res = Object.assign(new EventEmitter(), { statusCode: 200 }) as unknown as Response;
+    return { req, res };
+  };
+
+  beforeAll(() => {
+    setupTracing(exporter);
+  });
+
+  afterAll(() => {
+    disableTracing();
+  });
+
+  beforeEach(() => {
+    exporter.reset();
+  });
+
+  it('should continue the incoming traceparent and make the span active', () => {
+    const { req, res } = fakeExchange({
+      traceparent: `00-${incomingTraceId}-${incomingSpanId}-01`,
+    });
+    let activeTraceId: string | undefined;
+
+    traceRequests()(req, res, () => {
+      activeTraceId = trace.getActiveSpan()?.spanContext().traceId;
+    });
+    res.emit('finish');
+
+    const [span] = exporter.getFinishedSpans();
+    expect(span.name).toBe('POST /api/rates');
+    expect(span.kind).toBe(SpanKind.SERVER);
+    expect(span.spanContext().traceId).toBe(incomingTraceId);
+    expect(span.parentSpanContext?.spanId).toBe(incomingSpanId);
+    expect(activeTraceId).toBe(incomingTraceId);
+    expect(span.attributes['http.response.status_code']).toBe(200);
+  });
+
+  it('should start a new trace without a traceparent and flag server errors', () => {
+    const { req, res } = fakeExchange();
+
+    traceRequests()(req, res, () => {
+      res.statusCode = 502;
+    });
+    expect(exporter.getFinishedSpans()).toHaveLength(0); // ends on finish
+    res.emit('finish');
+
+    const [span] = exporter.getFinishedSpans();
+    expect(span.parentSpanContext).toBeUndefined();
+    expect(span.spanContext().traceId).not.toBe(incomingTraceId);
+    expect(span.status.code).toBe(SpanStatusCode.ERROR);
+  });
+});
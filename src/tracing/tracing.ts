@@ -0,0 +1,132 @@
+/**
+ * OpenTelemetry tracing - span helpers for the service, OAuth client and HTTP
+ * client, plus provider setup. Until a tracer provider is registered every
+ * span is a no-op, so instrumentation is free unless tracing is enabled.
+ * Only @opentelemetry/api is a runtime dependency; the SDK packages are
+ * optional and loaded by setupTracing.
+ */
+
+import {
+  Attributes,
+  Span,
+  SpanKind,
+  SpanStatusCode,
+  context,
+  propagation,
+  trace,
+} from '@opentelemetry/api';
+import type { BasicTracerProvider, SpanExporter } from '@opentelemetry/sdk-trace-base';
+import { CarrierIntegrationError } from '../domain/errors';
+
+export const TRACER_NAME = 'carrier-integration-service';
+
+export interface SpanOptions {
+  kind?: SpanKind;
+  attributes?: Attributes;
+}
+
+export function getTracer() {
+  return trace.getTracer(TRACER_NAME);
+}
+
+/**
+ * Run an async operation in a new active span, recording failures on it
+ */
+export function withSpan<T>(
+  name: string,
+  fn: (span: Span) => Promise<T>,
+  options: SpanOptions = {}
+): Promise<T> {
+  return getTracer().startActiveSpan(name, options, async (span) => {
+    try {
+      return await fn(span);
+    } catch (error) {
+      recordSpanError(span, error);
+      throw error;
+    } finally {
+      span.end();
+    }
+  });
+}
+
+/**
+ * Synchronous variant of withSpan (e.g. validation, response transformation)
+ */
+export function withSpanSync<T>(
+  name: string,
+  fn: (span: Span) => T,
+  options: SpanOptions = {}
+): T {
+  return getTracer().startActiveSpan(name, options, (span) => {
+    try {
+      return fn(span);
+    } catch (error) {
+      recordSpanError(span, error);
+      throw error;
+    } finally {
+      span.end();
+    }
+  });
+}
+
+/**
+ * Mark a span as failed, tagging our error code when there is one
+ */
+export function recordSpanError(span: Span, error: unknown): void {
+  if (error instanceof CarrierIntegrationError) {
+    span.setAttribute('error.code', error.code);
+  }
+  if (error instanceof Error) {
+    span.recordException(error);
+  }
+  span.setStatus({
+    code: SpanStatusCode.ERROR,
+    message: error instanceof Error ? error.message : String(error),
+  });
+}
+
+/**
+ * Load an optional OpenTelemetry SDK package, failing with a clear message
+ * when it is not installed
+ */
+export function loadTracingPackage<T>(name: string): T {
+  try {
+    return require(name) as T;
+  } catch {
+    throw new Error(`Tracing requires the optional dependency ${name}; install it to enable tracing`);
+  }
+}
+
+/**
+ * Register a global tracer provider that sends every span to the exporter,
+ * with async context tracking and W3C traceparent propagation
+ */
+export function setupTracing(exporter: SpanExporter): BasicTracerProvider {
+  const { BasicTracerProvider, SimpleSpanProcessor } = loadTracingPackage<
+    typeof import('@opentelemetry/sdk-trace-base')
+  >('@opentelemetry/sdk-trace-base');
+  const { AsyncLocalStorageContextManager } = loadTracingPackage<
+    typeof import('@opentelemetry/context-async-hooks')
+  >('@opentelemetry/context-async-hooks');
+  const { W3CTraceContextPropagator } = loadTracingPackage<
+    typeof import('@opentelemetry/core')
+  >('@opentelemetry/core');
+
+  const provider = new BasicTracerProvider({
+    spanProcessors: [new SimpleSpanProcessor(exporter)],
+  });
+
+  context.setGlobalContextManager(new AsyncLocalStorageContextManager().enable());
+  propagation.setGlobalPropagator(new W3CTraceContextPropagator());
+  trace.setGlobalTracerProvider(provider);
+  return provider;
+}
+
+/**
+ * Unregister everything set up by setupTracing (used by tests)
+ */
+export function disableTracing(): void {
+  trace.disable();
+  propagation.disable();
+  context.disable();
+}